@@ -13,10 +13,13 @@ import AdminPage from "@/pages/admin";
 import TestsPage from "@/pages/tests";
 import MyRoutes from "@/pages/my-routes";
 import MyTrips from "@/pages/my-trips";
+import Invite from "@/pages/invite";
 import { Switch, Route } from "wouter";
 import { useChatWebSocket } from "@/hooks/use-chat-websocket";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
 
 function Router() {
   return (
@@ -37,6 +40,7 @@ function Router() {
       <Route path="/my-routes/:id" component={MyRoutes} />
       <Route path="/my-trips" component={MyTrips} />
       <Route path="/my-trips/:id" component={MyTrips} />
+      <Route path="/invite/:token" component={Invite} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -44,6 +48,8 @@ function Router() {
 
 export default function AppLayout() {
   const { user, logout, navigateToAuth } = useAuth();
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
 
   const wsEnabled = !!user;
   useChatWebSocket(wsEnabled ? {
@@ -51,6 +57,13 @@ export default function AppLayout() {
       queryClient.invalidateQueries({ queryKey: ['/api/messages/conversations2'] });
     },
     onNewMessage: () => { },
+    onTripComment: ({ tripId, tripTitle, comment }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trips', tripId, 'comments'] });
+      toast({
+        title: t("pages:tripModal.comments.notificationTitle", { title: tripTitle }),
+        description: `${comment.user?.name ?? ""}: ${comment.text}`,
+      });
+    },
   } : { onAnyMessage: () => { }, onNewMessage: () => { } });
 
   return (
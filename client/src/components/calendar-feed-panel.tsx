@@ -0,0 +1,84 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CalendarDays, Copy, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+
+type CalendarFeed = {
+  token: string;
+  url: string;
+};
+
+const calendarFeedKey = ["/api/users/me/calendar"];
+
+// Profile card with the personal iCalendar feed URL and a way to revoke it
+export function CalendarFeedPanel() {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+
+  const { data: feed } = useQuery<CalendarFeed>({
+    queryKey: calendarFeedKey,
+    queryFn: async () => {
+      const response = await apiRequest("/api/users/me/calendar");
+      return response.json();
+    },
+  });
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: t("pages:profile.calendar.copied") });
+  };
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/users/me/calendar/rotate", {
+        method: "POST",
+      });
+      return response.json() as Promise<CalendarFeed>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(calendarFeedKey, updated);
+      toast({ title: t("pages:profile.calendar.rotated") });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: t("pages:profile.calendar.rotateError"),
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarDays className="h-5 w-5" />
+          <span>{t("pages:profile.calendar.title")}</span>
+        </CardTitle>
+        <CardDescription>{t("pages:profile.calendar.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input readOnly value={feed?.url ?? ""} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => feed && copyUrl(feed.url)}
+            disabled={!feed}
+            aria-label={t("pages:profile.calendar.copy")}
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button variant="outline" onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {t("pages:profile.calendar.rotate")}
+        </Button>
+        <p className="text-xs text-gray-500">{t("pages:profile.calendar.rotateHint")}</p>
+      </CardContent>
+    </Card>
+  );
+}
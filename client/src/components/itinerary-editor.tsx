@@ -0,0 +1,121 @@
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { format } from "date-fns";
+import type { Locale } from "date-fns";
+import { useTranslation } from "react-i18next";
+import type { ItineraryDay } from "@shared/schema";
+import { getItineraryDayDate } from "@/lib/tripDates";
+
+type ItineraryEditorProps = {
+  date: string;
+  dayCount: number;
+  routeLength: number;
+  itinerary: ItineraryDay[];
+  onChange: (itinerary: ItineraryDay[]) => void;
+  dateLocale: Locale;
+};
+
+// Days without any filled field are not sent to the server
+export const hasItineraryContent = (day: ItineraryDay) =>
+  !!(day.title || day.description || day.startTime || day.endTime || day.routeStart != null);
+
+// Day-by-day plan of a multi-day trip; segments are picked by route point numbers
+export function ItineraryEditor({ date, dayCount, routeLength, itinerary, onChange, dateLocale }: ItineraryEditorProps) {
+  const { t } = useTranslation(["pages"]);
+
+  const getDay = (day: number): ItineraryDay => itinerary.find((item) => item.day === day) ?? { day };
+
+  const updateDay = (day: number, changes: Partial<ItineraryDay>) => {
+    const updated = { ...getDay(day), ...changes };
+    onChange(
+      [...itinerary.filter((item) => item.day !== day), updated].sort((a, b) => a.day - b.day),
+    );
+  };
+
+  // Point numbers are 1-based in the form and route indexes on the wire
+  const updateSegment = (day: number, field: "routeStart" | "routeEnd", value: string) => {
+    const current = getDay(day);
+    const index = value === "" ? null : Math.min(Math.max(Number(value), 1), routeLength) - 1;
+    const segment = { routeStart: current.routeStart ?? null, routeEnd: current.routeEnd ?? null, [field]: index };
+    if (segment.routeStart == null || segment.routeEnd == null) {
+      // Keep the half-filled value in the form, the other end defaults to the same point
+      const other = field === "routeStart" ? "routeEnd" : "routeStart";
+      segment[other] = index;
+    }
+    updateDay(day, segment);
+  };
+
+  return (
+    <div className="space-y-4">
+      {Array.from({ length: dayCount }, (_, index) => index + 1).map((dayNumber) => {
+        const day = getDay(dayNumber);
+        return (
+          <div key={dayNumber} className="border rounded-md p-3 space-y-2">
+            <p className="text-sm font-medium">
+              {t("pages:createTrip.itinerary.dayLabel", {
+                day: dayNumber,
+                date: format(getItineraryDayDate(date, dayNumber), "EEEE, d MMMM", { locale: dateLocale }),
+              })}
+            </p>
+            <Input
+              value={day.title ?? ""}
+              onChange={(e) => updateDay(dayNumber, { title: e.target.value || null })}
+              placeholder={t("pages:createTrip.itinerary.titlePlaceholder")}
+              maxLength={100}
+            />
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <label className="text-xs text-gray-500 space-y-1">
+                <span>{t("pages:createTrip.itinerary.startTime")}</span>
+                <Input
+                  type="time"
+                  value={day.startTime ?? ""}
+                  onChange={(e) => updateDay(dayNumber, { startTime: e.target.value || null })}
+                />
+              </label>
+              <label className="text-xs text-gray-500 space-y-1">
+                <span>{t("pages:createTrip.itinerary.endTime")}</span>
+                <Input
+                  type="time"
+                  value={day.endTime ?? ""}
+                  onChange={(e) => updateDay(dayNumber, { endTime: e.target.value || null })}
+                />
+              </label>
+              {routeLength >= 2 && (
+                <>
+                  <label className="text-xs text-gray-500 space-y-1">
+                    <span>{t("pages:createTrip.itinerary.routeStart")}</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={routeLength}
+                      value={day.routeStart != null ? day.routeStart + 1 : ""}
+                      onChange={(e) => updateSegment(dayNumber, "routeStart", e.target.value)}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-500 space-y-1">
+                    <span>{t("pages:createTrip.itinerary.routeEnd")}</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={routeLength}
+                      value={day.routeEnd != null ? day.routeEnd + 1 : ""}
+                      onChange={(e) => updateSegment(dayNumber, "routeEnd", e.target.value)}
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+            <Textarea
+              value={day.description ?? ""}
+              onChange={(e) => updateDay(dayNumber, { description: e.target.value || null })}
+              placeholder={t("pages:createTrip.itinerary.descriptionPlaceholder")}
+              rows={2}
+              className="resize-none"
+              maxLength={2000}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
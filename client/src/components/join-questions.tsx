@@ -0,0 +1,101 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "react-i18next";
+import type { TripAnswer, TripQuestion } from "@shared/schema";
+
+export type JoinAnswers = Record<string, string | boolean>;
+
+export const isQuestionAnswered = (answers: JoinAnswers, question: TripQuestion) => {
+  const answer = answers[question.id];
+  return typeof answer === "boolean" || (typeof answer === "string" && answer.trim() !== "");
+};
+
+// Request body shape of POST /api/trips2/:id/join
+export const toJoinAnswers = (questions: TripQuestion[], answers: JoinAnswers) =>
+  questions
+    .filter((question) => isQuestionAnswered(answers, question))
+    .map((question) => ({ questionId: question.id, answer: answers[question.id] }));
+
+type JoinQuestionsFormProps = {
+  questions: TripQuestion[];
+  answers: JoinAnswers;
+  onChange: (answers: JoinAnswers) => void;
+};
+
+// Inputs for the trip's application questions, shown above the join request message
+export function JoinQuestionsForm({ questions, answers, onChange }: JoinQuestionsFormProps) {
+  const { t } = useTranslation(["pages"]);
+
+  const setAnswer = (questionId: string, answer: string | boolean) => onChange({ ...answers, [questionId]: answer });
+
+  return (
+    <div className="space-y-3">
+      {questions.map((question) => {
+        const answer = answers[question.id];
+        return (
+          <label key={question.id} className="block space-y-1">
+            <span className="block text-sm font-medium text-gray-700">{question.text}</span>
+            {question.kind === "text" && (
+              <Input
+                value={typeof answer === "string" ? answer : ""}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+                maxLength={1000}
+              />
+            )}
+            {question.kind === "yes_no" && (
+              <Select
+                value={typeof answer === "boolean" ? String(answer) : ""}
+                onValueChange={(value) => setAnswer(question.id, value === "true")}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t("pages:tripModal.questions.pick")} />
+                </SelectTrigger>
+                <SelectContent className="z-[9999]">
+                  <SelectItem value="true">{t("pages:tripModal.questions.yes")}</SelectItem>
+                  <SelectItem value="false">{t("pages:tripModal.questions.no")}</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {question.kind === "choice" && (
+              <Select
+                value={typeof answer === "string" ? answer : ""}
+                onValueChange={(value) => setAnswer(question.id, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t("pages:tripModal.questions.pick")} />
+                </SelectTrigger>
+                <SelectContent className="z-[9999]">
+                  {(question.options ?? []).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+// An applicant's answers as the organizers see them next to the request
+export function JoinAnswersList({ answers }: { answers: TripAnswer[] }) {
+  const { t } = useTranslation(["pages"]);
+
+  return (
+    <dl className="space-y-1 text-xs">
+      {answers.map((item) => (
+        <div key={item.questionId}>
+          <dt className="text-gray-500">{item.question}</dt>
+          <dd className="font-medium whitespace-pre-wrap break-words">
+            {typeof item.answer === "boolean"
+              ? t(item.answer ? "pages:tripModal.questions.yes" : "pages:tripModal.questions.no")
+              : item.answer}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
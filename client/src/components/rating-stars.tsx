@@ -0,0 +1,41 @@
+import { Star } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import type { UserRating } from "@shared/schema";
+
+const STARS = [1, 2, 3, 4, 5];
+
+// Five stars filled up to `value`; clickable when `onChange` is given
+export function RatingStars({ value, onChange, size = "h-4 w-4" }: { value: number; onChange?: (value: number) => void; size?: string }) {
+  return (
+    <div className="flex items-center">
+      {STARS.map((star) => {
+        const icon = (
+          <Star className={`${size} ${star <= Math.round(value) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`} />
+        );
+        return onChange ? (
+          <button key={star} type="button" onClick={() => onChange(star)} aria-label={String(star)}>
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+// Average with the number of reviews, or a note when there are none yet
+export function RatingSummary({ rating }: { rating: UserRating }) {
+  const { t } = useTranslation(["pages"]);
+
+  if (rating.average == null) {
+    return <p className="text-gray-500 text-sm">{t("pages:reviews.noRating")}</p>;
+  }
+  return (
+    <div className="flex items-center gap-1 text-sm">
+      <RatingStars value={rating.average} />
+      <span className="font-medium">{rating.average.toFixed(1)}</span>
+      <span className="text-gray-500">({t("pages:reviews.count", { count: rating.count })})</span>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+
+type RemoveParticipantDialogProps = {
+  tripId: string;
+  participant: { id: string; name: string } | null;
+  onClose: () => void;
+};
+
+// Organizer confirmation for removing a participant, with an optional reason and ban
+export function RemoveParticipantDialog({ tripId, participant, onClose }: RemoveParticipantDialogProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+  const [reason, setReason] = useState("");
+  const [ban, setBan] = useState(false);
+
+  const close = () => {
+    setReason("");
+    setBan(false);
+    onClose();
+  };
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest(`/api/trips/${tripId}/participants/${userId}`, {
+        method: "DELETE",
+        body: JSON.stringify({ reason: reason.trim() || undefined, ban }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({ title: ban ? t("pages:tripModal.removal.bannedToast") : t("pages:tripModal.removal.removedToast") });
+      close();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: t("pages:tripModal.toasts.errorTitle"),
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!participant} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-md z-[9999]">
+        <DialogHeader>
+          <DialogTitle>{t("pages:tripModal.removal.title", { name: participant?.name })}</DialogTitle>
+          <DialogDescription>{t("pages:tripModal.removal.description")}</DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder={t("pages:tripModal.removal.reasonPlaceholder")}
+          maxLength={500}
+        />
+        <div className="flex items-start space-x-3">
+          <Checkbox id="trip-ban" checked={ban} onCheckedChange={(checked) => setBan(checked === true)} />
+          <div className="space-y-1 leading-none">
+            <Label htmlFor="trip-ban">{t("pages:tripModal.removal.ban")}</Label>
+            <p className="text-sm text-muted-foreground">{t("pages:tripModal.removal.banHint")}</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            {t("pages:tripModal.removal.cancel")}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => participant && removeMutation.mutate(participant.id)}
+            disabled={removeMutation.isPending}
+          >
+            {t("pages:tripModal.removal.confirm")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { RatingStars } from "@/components/rating-stars";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { Locale } from "date-fns";
+import { useTranslation } from "react-i18next";
+import type { TripReviewWithUsers } from "@shared/schema";
+
+type ReviewListProps = {
+  reviews: TripReviewWithUsers[];
+  currentUserId?: string;
+  dateLocale: Locale;
+  // Profile lists name the trip, trip lists name the reviewed member
+  context: "profile" | "trip";
+};
+
+// Reviews with their replies; the reviewed user gets a reply box on reviews not answered yet
+export function ReviewList({ reviews, currentUserId, dateLocale, context }: ReviewListProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+
+  const replyMutation = useMutation({
+    mutationFn: async (review: TripReviewWithUsers) => {
+      const response = await apiRequest(`/api/trips/${review.tripId}/reviews/${review.id}/reply`, {
+        method: "POST",
+        body: JSON.stringify({ reply: reply.trim() }),
+      });
+      return response.json();
+    },
+    onSuccess: (_updated, review) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", review.revieweeId, "reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips", review.tripId, "reviews"] });
+      setReplyingTo(null);
+      setReply("");
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: t("pages:reviews.replyError"),
+        description: error.message,
+      });
+    },
+  });
+
+  if (reviews.length === 0) {
+    return <p className="text-sm text-gray-500">{t("pages:reviews.empty")}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map((review) => (
+        <div key={review.id} className="space-y-1 text-sm">
+          <div className="flex items-center gap-2">
+            <Avatar className="h-7 w-7">
+              <AvatarImage src={review.reviewer.avatarThumbnailUrl || review.reviewer.avatarUrl || undefined} alt={review.reviewer.name} />
+              <AvatarFallback className="text-xs">{review.reviewer.name.slice(0, 2).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <span className="font-medium">{review.reviewer.name}</span>
+            <RatingStars value={review.rating} size="h-3 w-3" />
+          </div>
+          <p className="text-xs text-gray-500">
+            {context === "profile"
+              ? review.trip.title
+              : t("pages:reviews.about", { name: review.reviewee.name })}
+            {review.createdAt && ` · ${format(new Date(review.createdAt), "d MMMM yyyy", { locale: dateLocale })}`}
+          </p>
+          {review.text && <p className="whitespace-pre-line">{review.text}</p>}
+          {review.reply && (
+            <div className="ml-4 border-l-2 pl-3 text-gray-600">
+              <p className="text-xs font-medium">{t("pages:reviews.replyFrom", { name: review.reviewee.name })}</p>
+              <p className="whitespace-pre-line">{review.reply}</p>
+            </div>
+          )}
+          {!review.reply && review.revieweeId === currentUserId && (
+            replyingTo === review.id ? (
+              <div className="ml-4 space-y-2">
+                <Textarea
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  placeholder={t("pages:reviews.replyPlaceholder")}
+                  rows={2}
+                  maxLength={2000}
+                  className="resize-none"
+                />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => replyMutation.mutate(review)} disabled={!reply.trim() || replyMutation.isPending}>
+                    {t("pages:reviews.sendReply")}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setReplyingTo(null)}>
+                    {t("pages:reviews.cancel")}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button size="sm" variant="link" className="h-auto p-0" onClick={() => { setReplyingTo(review.id); setReply(""); }}>
+                {t("pages:reviews.reply")}
+              </Button>
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Polyline, useMap, ZoomControl } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Polyline, Popup, Tooltip, useMap, ZoomControl } from 'react-leaflet';
+import type { TripWaypoint } from '@shared/schema';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
@@ -20,6 +21,7 @@ interface RoutePoint {
 
 interface RouteDisplayMapProps {
   route: RoutePoint[];
+  waypoints?: TripWaypoint[] | null;
   center?: RoutePoint;
   className?: string;
 }
@@ -40,7 +42,7 @@ function FitBounds({ route }: { route: RoutePoint[] }) {
   return null;
 }
 
-export function RouteDisplayMap({ route, center, className = "" }: RouteDisplayMapProps) {
+export function RouteDisplayMap({ route, waypoints, center, className = "" }: RouteDisplayMapProps) {
   const [isLoaded, setIsLoaded] = useState(false);
   const mapRef = useRef<L.Map | null>(null);
 
@@ -132,6 +134,7 @@ export function RouteDisplayMap({ route, center, className = "" }: RouteDisplayM
         <FitBounds route={route} />
         {/* Markers for each route point */}
         {route.map((point, index) => {
+          const waypoint = waypoints?.find(w => w.routeIndex === index);
           let title = `Point ${index + 1}`;
           if (index === 0) title = 'Route start';
           if (index === route.length - 1 && route.length > 1) title = 'Route end';
@@ -139,8 +142,16 @@ export function RouteDisplayMap({ route, center, className = "" }: RouteDisplayM
             <Marker
               key={index}
               position={[point.lat, point.lng]}
-              title={title}
-            />
+              title={waypoint?.name ?? title}
+            >
+              {/* Named waypoints get a permanent label, notes open on click */}
+              {waypoint && (
+                <Tooltip permanent direction="top" offset={[0, -36]}>
+                  {waypoint.time ? `${waypoint.time} · ${waypoint.name}` : waypoint.name}
+                </Tooltip>
+              )}
+              {waypoint?.note && <Popup>{waypoint.note}</Popup>}
+            </Marker>
           );
         })}
         {/* Route polyline */}
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Polyline, useMapEvents, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Polyline, Tooltip, useMapEvents, useMap } from 'react-leaflet';
 import { Button } from '@/components/ui/button';
-import { X, MapPin } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { X, MapPin, Flag } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { waypointKinds, type TripWaypoint, type WaypointKind } from '@shared/schema';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 
@@ -24,9 +28,13 @@ interface RouteMapProps {
   center: RoutePoint;
   route: RoutePoint[];
   onRouteChange: (route: RoutePoint[]) => void;
+  waypoints?: TripWaypoint[];
+  onWaypointsChange?: (waypoints: TripWaypoint[]) => void;
   className?: string;
 }
 
+type WaypointDraft = { name: string; note: string; time: string; kind: WaypointKind };
+
 function MapEventHandler({ onRouteChange, route }: { onRouteChange: (route: RoutePoint[]) => void; route: RoutePoint[] }) {
   useMapEvents({
     click: (e) => {
@@ -47,26 +55,71 @@ function MapCenterUpdater({ center }: { center: RoutePoint }) {
   return null;
 }
 
-export function RouteMap({ center, route, onRouteChange, className = "" }: RouteMapProps) {
+export function RouteMap({ center, route, onRouteChange, waypoints = [], onWaypointsChange, className = "" }: RouteMapProps) {
+  const { t } = useTranslation(["pages"]);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<WaypointDraft>({ name: "", note: "", time: "", kind: "stop" });
 
   useEffect(() => {
     setIsLoaded(true);
   }, []);
 
+  const waypointAt = (index: number) => waypoints.find((waypoint) => waypoint.routeIndex === index);
+
   const clearRoute = () => {
     onRouteChange([]);
+    onWaypointsChange?.([]);
+    setEditingIndex(null);
   };
 
   const removeLastPoint = () => {
     if (route.length > 0) {
-      onRouteChange(route.slice(0, -1));
+      removePoint(route.length - 1);
     }
   };
 
+  // Waypoints are pinned by index, so the ones after a removed point move back by one
   const removePoint = (index: number) => {
     const newRoute = route.filter((_, i) => i !== index);
     onRouteChange(newRoute);
+    onWaypointsChange?.(
+      waypoints
+        .filter((waypoint) => waypoint.routeIndex !== index)
+        .map((waypoint) => waypoint.routeIndex > index ? { ...waypoint, routeIndex: waypoint.routeIndex - 1 } : waypoint),
+    );
+    setEditingIndex(null);
+  };
+
+  const startEditing = (index: number) => {
+    const existing = waypointAt(index);
+    setDraft({
+      name: existing?.name ?? "",
+      note: existing?.note ?? "",
+      time: existing?.time ?? "",
+      kind: existing?.kind ?? (index === 0 ? "meeting" : index === route.length - 1 ? "finish" : "stop"),
+    });
+    setEditingIndex(index);
+  };
+
+  const saveWaypoint = () => {
+    if (editingIndex === null || !draft.name.trim()) return;
+    const waypoint: TripWaypoint = {
+      name: draft.name.trim(),
+      note: draft.note.trim() || null,
+      time: draft.time || null,
+      kind: draft.kind,
+      routeIndex: editingIndex,
+    };
+    onWaypointsChange?.(
+      [...waypoints.filter((w) => w.routeIndex !== editingIndex), waypoint].sort((a, b) => a.routeIndex - b.routeIndex),
+    );
+    setEditingIndex(null);
+  };
+
+  const removeWaypoint = (index: number) => {
+    onWaypointsChange?.(waypoints.filter((waypoint) => waypoint.routeIndex !== index));
+    setEditingIndex(null);
   };
 
   if (!isLoaded) {
@@ -121,13 +174,22 @@ export function RouteMap({ center, route, onRouteChange, className = "" }: Route
           <MapEventHandler onRouteChange={onRouteChange} route={route} />
           
           {/* Markers for each route point */}
-          {route.map((point, index) => (
-            <Marker
-              key={index}
-              position={[point.lat, point.lng]}
-              title={`Point ${index + 1}`}
-            />
-          ))}
+          {route.map((point, index) => {
+            const waypoint = waypointAt(index);
+            return (
+              <Marker
+                key={index}
+                position={[point.lat, point.lng]}
+                title={waypoint?.name ?? `Point ${index + 1}`}
+              >
+                {waypoint && (
+                  <Tooltip permanent direction="top" offset={[0, -36]}>
+                    {waypoint.time ? `${waypoint.time} · ${waypoint.name}` : waypoint.name}
+                  </Tooltip>
+                )}
+              </Marker>
+            );
+          })}
           
           {/* Route polyline */}
           {route.length > 1 && (
@@ -157,26 +219,97 @@ export function RouteMap({ center, route, onRouteChange, className = "" }: Route
               <MapPin className="h-4 w-4" />
               Route points
             </h4>
-            <div className="space-y-2 max-h-40 overflow-y-auto">
-              {route.map((point, index) => (
-                <div 
-                  key={index} 
-                  className="flex items-center justify-between bg-white p-2 rounded border"
-                >
-                  <span className="text-sm">
-                    {index + 1}. {point.lat.toFixed(4)}, {point.lng.toFixed(4)}
-                  </span>
-                  <Button
-                    type="button"
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => removePoint(index)}
-                    className="h-6 w-6 p-0 hover:bg-red-100"
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
-                </div>
-              ))}
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {route.map((point, index) => {
+                const waypoint = waypointAt(index);
+                return (
+                  <div key={index} className="bg-white p-2 rounded border">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">
+                        {index + 1}. {point.lat.toFixed(4)}, {point.lng.toFixed(4)}
+                        {waypoint && (
+                          <span className="ml-2 font-medium">
+                            {t(`pages:createTrip.waypoints.kinds.${waypoint.kind}`)}: {waypoint.name}
+                            {waypoint.time && ` (${waypoint.time})`}
+                          </span>
+                        )}
+                      </span>
+                      <div className="flex shrink-0">
+                        {onWaypointsChange && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => (editingIndex === index ? setEditingIndex(null) : startEditing(index))}
+                            className="h-6 w-6 p-0"
+                            aria-label={t("pages:createTrip.waypoints.edit")}
+                          >
+                            <Flag className={`h-3 w-3 ${waypoint ? "text-blue-600" : ""}`} />
+                          </Button>
+                        )}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removePoint(index)}
+                          className="h-6 w-6 p-0 hover:bg-red-100"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {editingIndex === index && (
+                      <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <Input
+                          value={draft.name}
+                          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                          placeholder={t("pages:createTrip.waypoints.namePlaceholder")}
+                          maxLength={100}
+                        />
+                        <div className="flex gap-2">
+                          <Select value={draft.kind} onValueChange={(kind) => setDraft({ ...draft, kind: kind as WaypointKind })}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {waypointKinds.map((kind) => (
+                                <SelectItem key={kind} value={kind}>
+                                  {t(`pages:createTrip.waypoints.kinds.${kind}`)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="time"
+                            value={draft.time}
+                            onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+                            className="w-28"
+                            aria-label={t("pages:createTrip.waypoints.time")}
+                          />
+                        </div>
+                        <Input
+                          value={draft.note}
+                          onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                          placeholder={t("pages:createTrip.waypoints.notePlaceholder")}
+                          maxLength={500}
+                          className="sm:col-span-2"
+                        />
+                        <div className="flex gap-2 sm:col-span-2">
+                          <Button type="button" size="sm" onClick={saveWaypoint} disabled={!draft.name.trim()}>
+                            {t("pages:createTrip.waypoints.save")}
+                          </Button>
+                          {waypoint && (
+                            <Button type="button" size="sm" variant="ghost" onClick={() => removeWaypoint(index)}>
+                              {t("pages:createTrip.waypoints.remove")}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
         )}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import type { AttendanceStatus, TripAttendance } from "@shared/schema";
+
+type TripAttendancePanelProps = {
+  tripId: string;
+  // Creator or co-organizer: sees the check-in code and marks participants
+  canManage: boolean;
+  // Trip days, when the code is shown and participants can check in
+  checkInOpen: boolean;
+  currentUserId?: string;
+};
+
+// Attendance of the approved participants, with the rotating check-in code for organizers
+export function TripAttendancePanel({ tripId, canManage, checkInOpen, currentUserId }: TripAttendancePanelProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+  const [code, setCode] = useState("");
+
+  const attendanceKey = ["/api/trips", tripId, "attendance"];
+
+  // Organizers watch check-ins come in while the code is on screen
+  const { data: attendance = [] } = useQuery<TripAttendance[]>({
+    queryKey: attendanceKey,
+    queryFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/attendance`);
+      return response.json();
+    },
+    refetchInterval: canManage && checkInOpen ? 15000 : false,
+  });
+
+  const { data: checkInCode } = useQuery<{ code: string; expiresAt: string }>({
+    queryKey: ["/api/trips", tripId, "check-in", "code"],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/check-in/code`);
+      return response.json();
+    },
+    enabled: canManage && checkInOpen,
+    refetchInterval: 15000,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: t("pages:tripModal.toasts.errorTitle"),
+      description: error.message,
+    });
+  };
+
+  const markMutation = useMutation({
+    mutationFn: async ({ userId, status }: { userId: string; status: AttendanceStatus | null }) => {
+      return apiRequest(`/api/trips/${tripId}/attendance/${userId}`, {
+        method: "PUT",
+        body: JSON.stringify({ attendance: status }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attendanceKey });
+    },
+    onError,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/trips/${tripId}/check-in`, {
+        method: "POST",
+        body: JSON.stringify({ code: code.trim() }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attendanceKey });
+      setCode("");
+      toast({ title: t("pages:tripModal.attendance.checkedIn") });
+    },
+    onError,
+  });
+
+  const own = attendance.find((entry) => entry.id === currentUserId);
+
+  const statusBadge = (status: AttendanceStatus | null) => {
+    if (status === "present") {
+      return <Badge className="bg-green-100 text-green-800 border-green-200">{t("pages:tripModal.attendance.present")}</Badge>;
+    }
+    if (status === "no_show") {
+      return <Badge variant="destructive">{t("pages:tripModal.attendance.noShow")}</Badge>;
+    }
+    return <Badge variant="outline">{t("pages:tripModal.attendance.unmarked")}</Badge>;
+  };
+
+  return (
+    <div className="space-y-4">
+      {canManage && checkInOpen && checkInCode && (
+        <div className="rounded-md border p-3 text-center">
+          <p className="text-sm text-gray-500">{t("pages:tripModal.attendance.codeLabel")}</p>
+          <p className="font-mono text-3xl font-semibold tracking-widest">{checkInCode.code}</p>
+          <p className="text-xs text-gray-500">{t("pages:tripModal.attendance.codeHint")}</p>
+        </div>
+      )}
+
+      {!canManage && own && checkInOpen && own.attendance !== "present" && (
+        <div className="flex gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            placeholder={t("pages:tripModal.attendance.codePlaceholder")}
+            inputMode="numeric"
+            maxLength={6}
+          />
+          <Button onClick={() => checkInMutation.mutate()} disabled={code.length !== 6 || checkInMutation.isPending}>
+            {t("pages:tripModal.attendance.checkIn")}
+          </Button>
+        </div>
+      )}
+
+      {attendance.length === 0 ? (
+        <p className="text-sm text-gray-500">{t("pages:tripModal.attendance.empty")}</p>
+      ) : (
+        attendance.map((entry) => (
+          <div key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={entry.avatarThumbnailUrl || entry.avatarUrl || undefined} alt={entry.name} />
+                <AvatarFallback className="text-xs">{entry.name.slice(0, 2).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="font-medium truncate">{entry.name}</span>
+            </div>
+            {canManage ? (
+              <div className="flex gap-1 shrink-0">
+                {(["present", "no_show"] as const).map((status) => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={entry.attendance === status ? (status === "present" ? "default" : "destructive") : "outline"}
+                    onClick={() =>
+                      markMutation.mutate({ userId: entry.id, status: entry.attendance === status ? null : status })
+                    }
+                    disabled={markMutation.isPending}
+                  >
+                    {t(status === "present" ? "pages:tripModal.attendance.present" : "pages:tripModal.attendance.noShow")}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              statusBadge(entry.attendance)
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
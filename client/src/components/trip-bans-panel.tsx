@@ -0,0 +1,82 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Undo2 } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import type { TripBanWithUser } from "@shared/schema";
+
+type TripBansPanelProps = {
+  tripId: string;
+};
+
+// Users banned from the trip, for the creator and co-organizers to lift a ban
+export function TripBansPanel({ tripId }: TripBansPanelProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+
+  const bansKey = ["/api/trips", tripId, "bans"];
+
+  const { data: bans = [] } = useQuery<TripBanWithUser[]>({
+    queryKey: bansKey,
+    queryFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/bans`);
+      return response.json();
+    },
+  });
+
+  const unbanMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest(`/api/trips/${tripId}/bans/${userId}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: bansKey });
+      toast({ title: t("pages:tripModal.bans.unbanned") });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: t("pages:tripModal.toasts.errorTitle"),
+        description: error.message,
+      });
+    },
+  });
+
+  if (bans.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <h4 className="font-semibold">{t("pages:tripModal.bans.title", { count: bans.length })}</h4>
+      {bans.map((ban) => (
+        <div key={ban.id} className="flex items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2 min-w-0">
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={ban.user.avatarThumbnailUrl || ban.user.avatarUrl || undefined} alt={ban.user.name} />
+              <AvatarFallback className="bg-red-100 text-red-600 text-xs">
+                {ban.user.name.slice(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="truncate font-medium">{ban.user.name}</p>
+              {ban.reason && <p className="text-gray-500 text-xs truncate">{ban.reason}</p>}
+            </div>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => unbanMutation.mutate(ban.userId)}
+            disabled={unbanMutation.isPending}
+            aria-label={t("pages:tripModal.bans.unban")}
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { format } from "date-fns";
 import { enUS } from "date-fns/locale";
 import React from "react";
 import type { Locale } from "date-fns";
+import { formatTripDates } from "@/lib/tripDates";
 
 type TripCardProps = {
   trip: any;
@@ -91,7 +92,7 @@ export const TripCard = ({
         )}
       </div>
       <div className="flex items-center justify-between text-sm text-gray-500 mt-auto">
-        <span>{trip.date ? format(new Date(trip.date), "d MMMM yyyy", { locale: dateLocale }) : noDateLabel}</span>
+        <span>{trip.date ? formatTripDates(trip.date, trip.endDate, dateLocale) : noDateLabel}</span>
         <span>
           <Users className="h-4 w-4 inline" /> {trip.participantsCount || 0}/{trip.maxParticipants}
         </span>
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import type { ChecklistItemKind, ChecklistTemplate, TripChecklistEntry } from "@shared/schema";
+
+type TripChecklistPanelProps = {
+  tripId: string;
+  tripType: string;
+  currentUserId?: string;
+  // Creator or co-organizer: adds and removes items, frees up claimed items
+  canManage: boolean;
+};
+
+// Packing list of the trip: group gear members claim and personal items each member ticks
+export function TripChecklistPanel({ tripId, tripType, currentUserId, canManage }: TripChecklistPanelProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+  const [title, setTitle] = useState("");
+  const [kind, setKind] = useState<ChecklistItemKind>("personal");
+
+  const checklistKey = ["/api/trips", tripId, "checklist"];
+
+  const { data: items = [] } = useQuery<TripChecklistEntry[]>({
+    queryKey: checklistKey,
+    queryFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/checklist`);
+      return response.json();
+    },
+  });
+
+  const { data: templates = [] } = useQuery<ChecklistTemplate[]>({
+    queryKey: ["/api/trip-types", tripType, "checklist-templates"],
+    queryFn: async () => {
+      const response = await fetch(`/api/trip-types/${encodeURIComponent(tripType)}/checklist-templates`);
+      if (!response.ok) throw new Error("Failed to load checklist templates");
+      return response.json();
+    },
+    enabled: canManage,
+  });
+
+  // Other members' changes arrive over the WebSocket
+  useEffect(() => {
+    const handler = (e: Event) => {
+      if ((e as CustomEvent<{ tripId: string }>).detail.tripId === tripId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/trips", tripId, "checklist"] });
+      }
+    };
+    window.addEventListener("trip-checklist-updated", handler);
+    return () => window.removeEventListener("trip-checklist-updated", handler);
+  }, [tripId]);
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: t("pages:tripModal.toasts.errorTitle"),
+      description: error.message,
+    });
+  };
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: checklistKey });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/trips/${tripId}/checklist`, {
+        method: "POST",
+        body: JSON.stringify({ title: title.trim(), kind }),
+      });
+    },
+    onSuccess: () => {
+      onSuccess();
+      setTitle("");
+    },
+    onError,
+  });
+
+  const templateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      return apiRequest(`/api/trips/${tripId}/checklist/templates/${templateId}`, { method: "POST" });
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      return apiRequest(`/api/trips/${tripId}/checklist/${itemId}`, { method: "DELETE" });
+    },
+    onSuccess,
+    onError,
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async ({ itemId, claim }: { itemId: string; claim: boolean }) => {
+      return apiRequest(`/api/trips/${tripId}/checklist/${itemId}/claim`, { method: claim ? "POST" : "DELETE" });
+    },
+    onSuccess,
+    onError,
+  });
+
+  const tickMutation = useMutation({
+    mutationFn: async ({ itemId, ticked }: { itemId: string; ticked: boolean }) => {
+      return apiRequest(`/api/trips/${tripId}/checklist/${itemId}/tick`, {
+        method: "PUT",
+        body: JSON.stringify({ ticked }),
+      });
+    },
+    onSuccess,
+    onError,
+  });
+
+  const groupItems = items.filter((item) => item.kind === "group");
+  const personalItems = items.filter((item) => item.kind === "personal");
+
+  const deleteButton = (item: TripChecklistEntry) =>
+    canManage && (
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={() => deleteMutation.mutate(item.id)}
+        disabled={deleteMutation.isPending}
+        aria-label={t("pages:checklist.delete")}
+      >
+        <Trash2 className="h-4 w-4 text-red-500" />
+      </Button>
+    );
+
+  return (
+    <div className="space-y-5">
+      {canManage && (
+        <div className="space-y-2 border rounded-md p-3">
+          <div className="flex gap-2">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={t("pages:checklist.titlePlaceholder")}
+              maxLength={100}
+            />
+            <Select value={kind} onValueChange={(value) => setKind(value as ChecklistItemKind)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[9999]">
+                <SelectItem value="personal">{t("pages:checklist.kind.personal")}</SelectItem>
+                <SelectItem value="group">{t("pages:checklist.kind.group")}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={() => addMutation.mutate()} disabled={!title.trim() || addMutation.isPending}>
+              {t("pages:checklist.add")}
+            </Button>
+          </div>
+          {templates.length > 0 && (
+            <Select value="" onValueChange={(templateId) => templateMutation.mutate(templateId)}>
+              <SelectTrigger disabled={templateMutation.isPending}>
+                <SelectValue placeholder={t("pages:checklist.useTemplate")} />
+              </SelectTrigger>
+              <SelectContent className="z-[9999]">
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {t("pages:checklist.templateOption", { name: template.name, count: template.items.length })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      {items.length === 0 && <p className="text-sm text-gray-500">{t("pages:checklist.empty")}</p>}
+
+      {groupItems.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold">{t("pages:checklist.groupTitle")}</h4>
+          {groupItems.map((item) => {
+            const mine = item.claimedBy === currentUserId;
+            return (
+              <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                <label className="flex items-center gap-2 min-w-0">
+                  {mine && (
+                    <Checkbox
+                      checked={item.ticked}
+                      onCheckedChange={(checked) => tickMutation.mutate({ itemId: item.id, ticked: checked === true })}
+                    />
+                  )}
+                  <span className="truncate">{item.title}</span>
+                </label>
+                <div className="flex items-center gap-1 shrink-0">
+                  {item.claimedByUser ? (
+                    <span className="text-xs text-gray-500">
+                      {mine ? t("pages:checklist.bringingYou") : t("pages:checklist.bringing", { name: item.claimedByUser.name })}
+                    </span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => claimMutation.mutate({ itemId: item.id, claim: true })}
+                      disabled={claimMutation.isPending}
+                    >
+                      {t("pages:checklist.claim")}
+                    </Button>
+                  )}
+                  {item.claimedBy && (mine || canManage) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => claimMutation.mutate({ itemId: item.id, claim: false })}
+                      disabled={claimMutation.isPending}
+                    >
+                      {t("pages:checklist.release")}
+                    </Button>
+                  )}
+                  {deleteButton(item)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {personalItems.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold">{t("pages:checklist.personalTitle")}</h4>
+          {personalItems.map((item) => (
+            <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+              <label className="flex items-center gap-2 min-w-0">
+                <Checkbox
+                  checked={item.ticked}
+                  onCheckedChange={(checked) => tickMutation.mutate({ itemId: item.id, ticked: checked === true })}
+                />
+                <span className="truncate">{item.title}</span>
+              </label>
+              <div className="flex items-center gap-1 shrink-0">
+                {canManage && (
+                  <span className="text-xs text-gray-500">{t("pages:checklist.packedCount", { count: item.tickCount })}</span>
+                )}
+                {deleteButton(item)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
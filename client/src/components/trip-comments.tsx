@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { MessageCircle, Pencil, Reply, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { Locale } from "date-fns";
+import { useTranslation } from "react-i18next";
+import type { CommentsPage, CommentWithUser } from "@shared/schema";
+
+type TripCommentsProps = {
+  tripId: string;
+  tripCreatorId: string;
+  currentUser: { id: string; role?: string } | null | undefined;
+  dateLocale: Locale;
+  onProfileClick: (userId: string) => void;
+};
+
+const PAGE_SIZE = 20;
+
+const getInitials = (name: string) => name.split(' ').map(n => n[0]).join('').toUpperCase();
+
+// Comment threads shown in the trip modal: top-level comments with one level of replies
+export function TripComments({ tripId, tripCreatorId, currentUser, dateLocale, onProfileClick }: TripCommentsProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+  const [newText, setNewText] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+
+  const commentsKey = ["/api/trips", tripId, "comments"];
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: commentsKey,
+    queryFn: async ({ pageParam }: { pageParam: string | null }): Promise<CommentsPage> => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam) params.append("cursor", pageParam);
+      const response = await apiRequest(`/api/trips/${tripId}/comments?${params.toString()}`);
+      return response.json();
+    },
+    getNextPageParam: (lastPage) => lastPage?.next_cursor ?? undefined,
+    initialPageParam: null,
+  });
+
+  const threads = data?.pages.flatMap((page) => page.items) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  const showError = () => {
+    toast({
+      variant: "destructive",
+      title: t("pages:tripModal.toasts.errorTitle"),
+      description: t("pages:tripModal.comments.error"),
+    });
+  };
+
+  const createCommentMutation = useMutation({
+    mutationFn: async (body: { text: string; parentId?: string }) => {
+      const response = await apiRequest(`/api/trips/${tripId}/comments`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      return response.json();
+    },
+    onSuccess: (_comment, body) => {
+      if (body.parentId) {
+        setReplyTo(null);
+        setReplyText("");
+      } else {
+        setNewText("");
+      }
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+    onError: showError,
+  });
+
+  const updateCommentMutation = useMutation({
+    mutationFn: async ({ commentId, text }: { commentId: string; text: string }) => {
+      const response = await apiRequest(`/api/trips/${tripId}/comments/${commentId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ text }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+    onError: showError,
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      return apiRequest(`/api/trips/${tripId}/comments/${commentId}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+    onError: showError,
+  });
+
+  const canDelete = (comment: CommentWithUser) =>
+    !!currentUser &&
+    (comment.userId === currentUser.id || tripCreatorId === currentUser.id || currentUser.role === "admin");
+
+  const renderComment = (comment: CommentWithUser, isReply: boolean) => (
+    <div key={comment.id} className={`flex gap-3 ${isReply ? "ml-11 mt-3" : ""}`}>
+      <Avatar className="h-8 w-8 cursor-pointer" onClick={() => onProfileClick(comment.userId)}>
+        <AvatarImage src={comment.user.avatarThumbnailUrl || comment.user.avatarUrl || undefined} alt={comment.user.name} />
+        <AvatarFallback className="bg-blue-100 text-blue-600 text-xs">
+          {getInitials(comment.user.name)}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2 text-sm">
+          <span className="font-medium">{comment.user.name}</span>
+          {comment.createdAt && (
+            <span className="text-xs text-gray-500">
+              {format(new Date(comment.createdAt), "d MMM yyyy, HH:mm", { locale: dateLocale })}
+            </span>
+          )}
+          {comment.updatedAt && (
+            <span className="text-xs text-gray-400">{t("pages:tripModal.comments.edited")}</span>
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="space-y-2 mt-1">
+            <Textarea value={editText} onChange={(e) => setEditText(e.target.value)} rows={2} className="resize-none" />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => updateCommentMutation.mutate({ commentId: comment.id, text: editText })}
+                disabled={updateCommentMutation.isPending || !editText.trim()}
+              >
+                {t("pages:tripModal.comments.save")}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                {t("pages:tripModal.comments.cancel")}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">{comment.text}</p>
+        )}
+
+        {currentUser && editingId !== comment.id && (
+          <div className="flex gap-3 mt-1 text-xs text-gray-500">
+            <button
+              type="button"
+              className="flex items-center gap-1 hover:text-gray-800"
+              onClick={() => {
+                setReplyTo(comment.parentId ?? comment.id);
+                setReplyText("");
+              }}
+            >
+              <Reply className="h-3 w-3" />
+              {t("pages:tripModal.comments.reply")}
+            </button>
+            {comment.userId === currentUser.id && (
+              <button
+                type="button"
+                className="flex items-center gap-1 hover:text-gray-800"
+                onClick={() => {
+                  setEditingId(comment.id);
+                  setEditText(comment.text);
+                }}
+              >
+                <Pencil className="h-3 w-3" />
+                {t("pages:tripModal.comments.edit")}
+              </button>
+            )}
+            {canDelete(comment) && (
+              <button
+                type="button"
+                className="flex items-center gap-1 hover:text-red-600"
+                onClick={() => deleteCommentMutation.mutate(comment.id)}
+                disabled={deleteCommentMutation.isPending}
+              >
+                <Trash2 className="h-3 w-3" />
+                {t("pages:tripModal.comments.delete")}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <MessageCircle className="h-5 w-5" />
+          {t("pages:tripModal.comments.title", { count: total })}
+        </h3>
+
+        {currentUser && (
+          <div className="space-y-2">
+            <Textarea
+              value={newText}
+              onChange={(e) => setNewText(e.target.value)}
+              rows={2}
+              className="resize-none"
+              placeholder={t("pages:tripModal.comments.placeholder")}
+            />
+            <Button
+              size="sm"
+              onClick={() => createCommentMutation.mutate({ text: newText })}
+              disabled={createCommentMutation.isPending || !newText.trim()}
+            >
+              {t("pages:tripModal.comments.post")}
+            </Button>
+          </div>
+        )}
+
+        {threads.length === 0 && (
+          <p className="text-sm text-gray-500">{t("pages:tripModal.comments.empty")}</p>
+        )}
+
+        {threads.map((thread) => (
+          <div key={thread.id} className="border-t pt-3">
+            {renderComment(thread, false)}
+            {thread.replies.map((reply) => renderComment(reply, true))}
+            {replyTo === thread.id && (
+              <div className="ml-11 mt-3 space-y-2">
+                <Textarea
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  rows={2}
+                  className="resize-none"
+                  placeholder={t("pages:tripModal.comments.replyPlaceholder", { name: thread.user.name })}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => createCommentMutation.mutate({ text: replyText, parentId: thread.id })}
+                    disabled={createCommentMutation.isPending || !replyText.trim()}
+                  >
+                    {t("pages:tripModal.comments.reply")}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setReplyTo(null)}>
+                    {t("pages:tripModal.comments.cancel")}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {hasNextPage && (
+          <Button variant="outline" className="w-full" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {t("pages:tripModal.comments.loadMore")}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,15 +11,40 @@ import {
   MapPin,
   Users,
   Calendar,
+  User,
   Phone,
   Mail,
   MessageCircle,
+  Download,
+  Route as RouteIcon,
+  Repeat,
+  CalendarPlus,
+  Copy,
+  MoreVertical,
+  Wallet,
   X,
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { TripInvitesPanel } from "@/components/trip-invites-panel";
+import { TripRequestsPanel } from "@/components/trip-requests-panel";
+import { TripBansPanel } from "@/components/trip-bans-panel";
+import { RemoveParticipantDialog } from "@/components/remove-participant-dialog";
+import { RatingSummary } from "@/components/rating-stars";
+import { TripReviewsPanel } from "@/components/trip-reviews-panel";
+import { TripAttendancePanel } from "@/components/trip-attendance-panel";
+import { TripExpensesPanel } from "@/components/trip-expenses-panel";
+import { TripChecklistPanel } from "@/components/trip-checklist-panel";
+import { JoinQuestionsForm, isQuestionAnswered, toJoinAnswers, type JoinAnswers } from "@/components/join-questions";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TripComments } from "@/components/trip-comments";
 import { useLocation } from "wouter";
-import type { InsertMessage } from "@shared/schema";
+import type { InsertMessage, ItineraryDay, Trip, TripQuestion, TripSeriesWithOccurrences, TripWaypoint } from "@shared/schema";
 import { RouteDisplayMap } from "./route-display-map";
 import { FavoriteButton } from "@/components/favorite-button";
 import { GalleryModal } from "@/components/gallery-modal";
@@ -28,7 +53,9 @@ import { UserProfileModal } from "@/components/user-profile-modal";
 import { format } from "date-fns";
 import { enUS, ru as ruLocale } from "date-fns/locale";
 import { useTranslation } from "react-i18next";
-import { getRouteTypeIcon, resolveRouteTypeName } from "@/lib/routeTypes";
+import { formatRouteMetrics, getRouteTypeIcon, resolveRouteTypeName } from "@/lib/routeTypes";
+import { formatTripDates, getCheckInWindow, getItineraryDayDate } from "@/lib/tripDates";
+import { formatTripCost } from "@/lib/tripCost";
 
 interface TripDetailModalProps {
   tripId: string;
@@ -44,9 +71,11 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
   const [joinMessage, setJoinMessage] = useState(defaultJoinMessage);
   const [hasAlreadyResponded, setHasAlreadyResponded] = useState(false);
   const [joinRequestSent, setJoinRequestSent] = useState(false);
+  const [joinAnswers, setJoinAnswers] = useState<JoinAnswers>({});
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [profileUserId, setProfileUserId] = useState<string | null>(null);
+  const [removingParticipant, setRemovingParticipant] = useState<{ id: string; name: string } | null>(null);
 
   const { data: user } = useQuery({
     queryKey: ["/api/users/me"],
@@ -67,8 +96,8 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
   const { data: trip, isLoading } = useQuery({
     queryKey: ["/api/trips", tripId],
     queryFn: async () => {
-      const response = await fetch(`/api/trips/${tripId}`);
-      if (!response.ok) throw new Error("Failed to load trip");
+      // Signed in, so creators can open their own drafts
+      const response = await apiRequest(`/api/trips/${tripId}`);
       return response.json();
     },
     enabled: !!tripId && isOpen,
@@ -77,13 +106,26 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
   const { data: participants = [] } = useQuery({
     queryKey: ["/api/trips", tripId, "participants"],
     queryFn: async () => {
-      const response = await fetch(`/api/trips/${tripId}/participants`);
-      if (!response.ok) throw new Error("Failed to load participants");
+      const response = await apiRequest(`/api/trips/${tripId}/participants`);
       return response.json();
     },
     enabled: !!tripId && isOpen,
   });
 
+  // Repeating trips list their other dates
+  const { data: series } = useQuery<TripSeriesWithOccurrences>({
+    queryKey: ["/api/trips/series", trip?.seriesId],
+    queryFn: async () => {
+      const response = await fetch(`/api/trips/series/${trip.seriesId}`);
+      if (!response.ok) throw new Error("Failed to load trip series");
+      return response.json();
+    },
+    enabled: !!trip?.seriesId && isOpen,
+  });
+  const otherOccurrences = (series?.occurrences ?? []).filter(
+    (occurrence) => occurrence.id !== tripId && occurrence.date && occurrence.status === "published",
+  );
+
   // Check user status in trip
   const { data: tripStatus } = useQuery({
     queryKey: ["/api/trips", tripId, "status"],
@@ -99,11 +141,18 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
     mutationFn: async () => {
       const response = await apiRequest(`/api/trips2/${tripId}/join`, {
         method: 'POST',
+        body: JSON.stringify({ answers: toJoinAnswers(trip?.questions ?? [], joinAnswers) }),
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       setJoinMessage(defaultJoinMessage);
+      setJoinAnswers({});
+      if (data?.status === "approved") {
+        toast({ title: t("pages:tripModal.toasts.joinedTitle") });
+      } else if (data?.status === "waitlisted") {
+        toast({ title: t("pages:tripModal.badges.waitlisted", { position: data.position }) });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/trips", tripId, "status"] });
       queryClient.invalidateQueries({ queryKey: ["/api/trips", tripId, "participants"] });
     },
@@ -136,10 +185,13 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
       setJoinRequestSent(true);
       setHasAlreadyResponded(true);
       joinTripMutation.mutate();
-      toast({
-        title: t("pages:tripModal.toasts.requestSentTitle"),
-        description: t("pages:tripModal.toasts.requestSentDescription"),
-      });
+      // Auto-approved trips report the outcome once the join itself succeeds
+      if (trip?.joinPolicy !== "auto") {
+        toast({
+          title: t("pages:tripModal.toasts.requestSentTitle"),
+          description: t("pages:tripModal.toasts.requestSentDescription"),
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/messages/conversations2'] });
       queryClient.invalidateQueries({ queryKey: ["/api/trips", tripId, "status"] });
     },
@@ -175,6 +227,89 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
     },
   });
 
+  const changeStatusMutation = useMutation({
+    mutationFn: async (action: "publish" | "cancel") => {
+      return apiRequest(`/api/trips/${tripId}/${action}`, {
+        method: "POST",
+      });
+    },
+    onSuccess: (_data, action) => {
+      toast({
+        title: t(`pages:tripModal.toasts.${action}SuccessTitle`),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+    },
+    onError: () => {
+      toast({
+        title: t("pages:tripModal.toasts.errorTitle"),
+        description: t("pages:tripModal.toasts.statusErrorDescription"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The copy is a draft of the current user, opened from My routes
+  const cloneTripMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/clone`, {
+        method: "POST",
+      });
+      return response.json() as Promise<Trip>;
+    },
+    onSuccess: (clone) => {
+      toast({
+        title: t("pages:tripModal.toasts.cloneSuccessTitle"),
+        description: t("pages:tripModal.toasts.cloneSuccessDescription"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      onClose();
+      setLocation(`/my-routes/${clone.id}`);
+    },
+    onError: () => {
+      toast({
+        title: t("pages:tripModal.toasts.errorTitle"),
+        description: t("pages:tripModal.toasts.cloneErrorDescription"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Co-organizer and ownership changes are made by the creator, except accepting or declining an offer
+  const organizerMutation = useMutation({
+    mutationFn: async (
+      action:
+        | { type: "addCoOrganizer" | "removeCoOrganizer" | "offerTransfer"; userId: string }
+        | { type: "withdrawTransfer" | "acceptTransfer" },
+    ) => {
+      switch (action.type) {
+        case "addCoOrganizer":
+          return apiRequest(`/api/trips/${tripId}/co-organizers/${action.userId}`, { method: "PUT" });
+        case "removeCoOrganizer":
+          return apiRequest(`/api/trips/${tripId}/co-organizers/${action.userId}`, { method: "DELETE" });
+        case "offerTransfer":
+          return apiRequest(`/api/trips/${tripId}/transfer`, {
+            method: "POST",
+            body: JSON.stringify({ userId: action.userId }),
+          });
+        case "withdrawTransfer":
+          return apiRequest(`/api/trips/${tripId}/transfer`, { method: "DELETE" });
+        case "acceptTransfer":
+          return apiRequest(`/api/trips/${tripId}/transfer/accept`, { method: "POST" });
+      }
+    },
+    onSuccess: (_data, action) => {
+      toast({ title: t(`pages:tripModal.organizers.toasts.${action.type}`) });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t("pages:tripModal.toasts.errorTitle"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Favorite trips list (for displaying active heart)
   const { data: favoriteTrips = [] } = useQuery<any[]>({
     queryKey: ["/api/favorites", user?.id],
@@ -239,15 +374,44 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
 
   // Check user status
   const isCreator = user && trip.creatorId === user.id;
+  const isCoOrganizer = !!user && trip.coOrganizerIds.includes(user.id);
+  const pendingOwner = participants.find((participant: any) => participant.id === trip.pendingOwnerId);
+  // The creator manages everyone; a co-organizer manages plain participants and can step down
+  const canManageParticipant = (participantId: string) => {
+    if (participantId === trip.creatorId) return false;
+    if (isCreator) return true;
+    return isCoOrganizer && (participantId === user.id || !trip.coOrganizerIds.includes(participantId));
+  };
   const userStatus = tripStatus?.status;
   const isParticipant = userStatus === 'approved';
   const hasPendingApplication = userStatus === 'pending';
   const isRejected = userStatus === 'rejected';
+  const isWaitlisted = userStatus === 'waitlisted';
+  const isOpenForJoining = !trip.status || trip.status === 'published';
+  const isOpenForManaging = trip.status === 'draft' || trip.status === 'published';
+  const isInviteOnly = trip.joinPolicy === 'invite_only';
+  const checkInWindow = getCheckInWindow(trip.date, trip.endDate);
+  // Attendance is taken from the trip's first day on, by organizers and approved participants
+  const showsAttendance = (isCreator || isCoOrganizer || isParticipant) &&
+    (trip.status === 'published' || trip.status === 'completed') && checkInWindow !== 'before';
+  const hasAgeRange = trip.minAge != null || trip.maxAge != null;
+  const ageRangeLabel = trip.minAge != null && trip.maxAge != null
+    ? t("pages:tripModal.restrictions.ageRange", { min: trip.minAge, max: trip.maxAge })
+    : trip.minAge != null
+      ? t("pages:tripModal.restrictions.ageFrom", { min: trip.minAge })
+      : t("pages:tripModal.restrictions.ageTo", { max: trip.maxAge });
+  // Same gender/age check the server runs on join, so ineligible users see why up front
+  const isEligible = !user || (
+    (trip.participantGender === 'any' || user.gender === trip.participantGender) &&
+    (!hasAgeRange || (user.age != null &&
+      (trip.minAge == null || user.age >= trip.minAge) &&
+      (trip.maxAge == null || user.age <= trip.maxAge)))
+  );
 
 
 
 
-  const canJoin = user && !isParticipant && !isCreator && participants.length < trip.maxParticipants;
+  const canJoin = user && isOpenForJoining && !isParticipant && !isCreator && participants.length < trip.maxParticipants;
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -259,8 +423,10 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
 
+  const allQuestionsAnswered = (trip?.questions ?? []).every((question: TripQuestion) => isQuestionAnswered(joinAnswers, question));
+
   const handleJoinTrip = () => {
-    if (!user || !trip || !joinMessage.trim()) return;
+    if (!user || !trip || !joinMessage.trim() || !allQuestionsAnswered) return;
 
     sendJoinMessageMutation.mutate({
       receiverId: trip.creatorId,
@@ -291,13 +457,68 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                     </div>
                     <div className="flex items-center space-x-2">
                       <Calendar className="h-4 w-4 text-gray-500" />
-                      <span>{formatDate(trip.dateTime)}</span>
+                      <span>
+                        {trip.endDate
+                          ? formatTripDates(trip.date, trip.endDate, dateFnsLocale)
+                          : formatDate(trip.dateTime)}
+                      </span>
                     </div>
+                    {series && (
+                      <div className="flex items-start space-x-2">
+                        <Repeat className="h-4 w-4 mt-1 text-gray-500" />
+                        <div>
+                          <span>
+                            {t(`pages:tripModal.series.${series.frequency}`, { count: series.interval })}
+                          </span>
+                          {otherOccurrences.length > 0 && (
+                            <p className="text-sm text-gray-500">
+                              {t("pages:tripModal.series.otherDates", {
+                                dates: otherOccurrences
+                                  .slice(0, 5)
+                                  .map((occurrence) => formatTripDates(occurrence.date, null, dateFnsLocale, "d MMM"))
+                                  .join(", "),
+                              })}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {trip.distanceKm != null && (
+                      <div className="flex items-center space-x-2">
+                        <RouteIcon className="h-4 w-4 text-gray-500" />
+                        <span>{formatRouteMetrics(trip.distanceKm, trip.estimatedMinutes, t)}</span>
+                      </div>
+                    )}
+                    {formatTripCost(trip, t, resolvedLanguage) && (
+                      <div className="flex items-center space-x-2">
+                        <Wallet className="h-4 w-4 text-gray-500" />
+                        <span>{formatTripCost(trip, t, resolvedLanguage)}</span>
+                      </div>
+                    )}
                     <div className="flex items-center space-x-2">
                       <Users className="h-4 w-4 text-gray-500" />
                       <span>{t("pages:tripModal.stats.participants", { current: participants.length, max: trip.maxParticipants })}</span>
                     </div>
+                    {(trip.participantGender !== 'any' || hasAgeRange) && (
+                      <div className="flex items-center space-x-2">
+                        <User className="h-4 w-4 text-gray-500" />
+                        <span>
+                          {[
+                            trip.participantGender !== 'any' ? t(`pages:tripModal.restrictions.gender.${trip.participantGender}`) : null,
+                            hasAgeRange ? ageRangeLabel : null,
+                          ].filter(Boolean).join(", ")}
+                        </span>
+                      </div>
+                    )}
                   </div>
+                  {trip.date && trip.status !== 'draft' && (
+                    <Button variant="outline" size="sm" className="mt-3" asChild>
+                      <a href={`/api/trips/${trip.id}/event.ics`} download>
+                        <CalendarPlus className="h-4 w-4 mr-2" />
+                        {t("pages:tripModal.buttons.addToCalendar")}
+                      </a>
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
               {trip.description && (
@@ -308,15 +529,80 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                   </CardContent>
                 </Card>
               )}
+              {/* Day-by-day timeline of multi-day trips */}
+              {trip.date && trip.itinerary && trip.itinerary.length > 0 && (
+                <Card>
+                  <CardContent className="p-4">
+                    <h3 className="font-semibold text-lg mb-3">{t("pages:tripModal.sections.itinerary")}</h3>
+                    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+                      {[...trip.itinerary]
+                        .sort((a: ItineraryDay, b: ItineraryDay) => a.day - b.day)
+                        .map((day: ItineraryDay) => (
+                          <li key={day.day} className="ml-4">
+                            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-blue-500" />
+                            <p className="text-xs text-gray-500">
+                              {t("pages:tripModal.itinerary.day", {
+                                day: day.day,
+                                date: format(getItineraryDayDate(trip.date, day.day), "EEEE, d MMMM", { locale: dateFnsLocale }),
+                              })}
+                              {(day.startTime || day.endTime) && ` · ${[day.startTime, day.endTime].filter(Boolean).join("–")}`}
+                            </p>
+                            {day.title && <p className="font-medium">{day.title}</p>}
+                            {day.description && (
+                              <p className="text-sm text-gray-600 whitespace-pre-wrap">{day.description}</p>
+                            )}
+                            {day.distanceKm != null && (
+                              <p className="text-xs text-gray-500">
+                                {t("pages:trips.routeMetrics.distance", { distance: day.distanceKm.toFixed(1) })}
+                              </p>
+                            )}
+                          </li>
+                        ))}
+                    </ol>
+                  </CardContent>
+                </Card>
+              )}
               {/* Route map */}
               {trip.route && trip.route.length > 0 && (
                 <Card>
                   <CardContent className="p-0">
                     <RouteDisplayMap
                       route={trip.route}
+                      waypoints={trip.waypoints}
                       center={trip.location}
                       className="w-full h-72 md:h-96"
                     />
+                    {trip.waypoints && trip.waypoints.length > 0 && (
+                      <div className="px-4 pt-3 space-y-2">
+                        <h4 className="font-semibold">{t("pages:tripModal.sections.waypoints")}</h4>
+                        {trip.waypoints.map((waypoint: TripWaypoint) => (
+                          <div key={waypoint.routeIndex} className="flex gap-3 text-sm">
+                            <span className="w-12 shrink-0 text-gray-500">{waypoint.time ?? ""}</span>
+                            <div>
+                              <p className="font-medium">
+                                {waypoint.name}
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {t(`pages:createTrip.waypoints.kinds.${waypoint.kind}`)}
+                                </span>
+                              </p>
+                              {waypoint.note && <p className="text-gray-600">{waypoint.note}</p>}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {trip.status !== 'draft' && (
+                      <div className="flex gap-2 p-3">
+                        {(["gpx", "kml"] as const).map((format) => (
+                          <Button key={format} variant="outline" size="sm" asChild>
+                            <a href={`/api/trips/${trip.id}/route.${format}`} download>
+                              <Download className="h-4 w-4 mr-2" />
+                              {t(`pages:tripModal.routeExport.${format}`)}
+                            </a>
+                          </Button>
+                        ))}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               )}
@@ -384,6 +670,7 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                     </Avatar>
                     <div className="flex-1">
                       <h4 className="font-medium text-lg">{trip.creator.name}</h4>
+                      {trip.creator.rating && <RatingSummary rating={trip.creator.rating} />}
                       {trip.creator.age && (
                         <p className="text-gray-500 text-sm">{t("pages:tripModal.organizer.yearsOld", { count: trip.creator.age })}</p>
                       )}
@@ -437,6 +724,18 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
 
                     </div>
                   </div>
+                  {trip.originalCreator && (
+                    <p className="text-sm text-gray-500 mt-3">
+                      {t("pages:tripModal.organizer.basedOn")}{" "}
+                      <button
+                        type="button"
+                        className="font-medium text-blue-600 hover:underline"
+                        onClick={() => setProfileUserId(trip.originalCreator.id)}
+                      >
+                        {trip.originalCreator.name}
+                      </button>
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -457,8 +756,16 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                               {getInitials(participant.name)}
                             </AvatarFallback>
                           </Avatar>
-                          <div>
-                            <p className="font-medium">{participant.name}</p>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium">
+                              {participant.name}
+                              {participant.id === trip.creatorId && (
+                                <Badge variant="secondary" className="ml-2 text-xs">{t("pages:tripModal.organizers.owner")}</Badge>
+                              )}
+                              {trip.coOrganizerIds.includes(participant.id) && (
+                                <Badge variant="secondary" className="ml-2 text-xs">{t("pages:tripModal.organizers.coOrganizer")}</Badge>
+                              )}
+                            </p>
                             {participant.city && (
                               <div className="flex items-center space-x-1 text-gray-500 text-sm">
                                 <MapPin className="h-3 w-3" />
@@ -466,6 +773,47 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                               </div>
                             )}
                           </div>
+                          {isOpenForManaging && canManageParticipant(participant.id) && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button size="icon" variant="ghost" aria-label={t("pages:tripModal.organizers.actions")}>
+                                  <MoreVertical className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end" className="z-[9999]">
+                                {trip.coOrganizerIds.includes(participant.id) ? (
+                                  <DropdownMenuItem
+                                    onClick={() => organizerMutation.mutate({ type: "removeCoOrganizer", userId: participant.id })}
+                                  >
+                                    {participant.id === user.id
+                                      ? t("pages:tripModal.organizers.stepDown")
+                                      : t("pages:tripModal.organizers.removeCoOrganizer")}
+                                  </DropdownMenuItem>
+                                ) : isCreator && (
+                                  <DropdownMenuItem
+                                    onClick={() => organizerMutation.mutate({ type: "addCoOrganizer", userId: participant.id })}
+                                  >
+                                    {t("pages:tripModal.organizers.addCoOrganizer")}
+                                  </DropdownMenuItem>
+                                )}
+                                {isCreator && participant.id !== trip.pendingOwnerId && (
+                                  <DropdownMenuItem
+                                    onClick={() => organizerMutation.mutate({ type: "offerTransfer", userId: participant.id })}
+                                  >
+                                    {t("pages:tripModal.organizers.offerTransfer")}
+                                  </DropdownMenuItem>
+                                )}
+                                {participant.id !== user.id && (
+                                  <DropdownMenuItem
+                                    className="text-red-600"
+                                    onClick={() => setRemovingParticipant({ id: participant.id, name: participant.name })}
+                                  >
+                                    {t("pages:tripModal.removal.action")}
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -483,6 +831,94 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                       </Badge>
                     )}
 
+                    {!isOpenForJoining && (
+                      <Badge variant="secondary" className="w-full justify-center py-2 bg-gray-100 text-gray-800 border-gray-200">
+                        {t(`pages:tripModal.badges.${trip.status}`)}
+                      </Badge>
+                    )}
+
+                    {isCreator && trip.status === 'draft' && (
+                      <Button
+                        className="w-full bg-blue-600 hover:bg-blue-700"
+                        onClick={() => changeStatusMutation.mutate("publish")}
+                        disabled={changeStatusMutation.isPending}
+                      >
+                        {t("pages:tripModal.buttons.publish")}
+                      </Button>
+                    )}
+
+                    {isCreator && trip.status === 'published' && (
+                      <Button
+                        variant="destructive"
+                        className="w-full"
+                        onClick={() => changeStatusMutation.mutate("cancel")}
+                        disabled={changeStatusMutation.isPending}
+                      >
+                        {t("pages:tripModal.buttons.cancelTrip")}
+                      </Button>
+                    )}
+
+                    {user && (isCreator || trip.status !== 'draft') && (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => cloneTripMutation.mutate()}
+                        disabled={cloneTripMutation.isPending}
+                      >
+                        <Copy className="h-4 w-4 mr-2" />
+                        {t("pages:tripModal.buttons.clone")}
+                      </Button>
+                    )}
+
+                    {user && trip.pendingOwnerId === user.id && isOpenForManaging && (
+                      <div className="space-y-2 rounded-md border border-blue-200 bg-blue-50 p-3 text-sm">
+                        <p>{t("pages:tripModal.organizers.transferOffered", { name: trip.creator.name })}</p>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => organizerMutation.mutate({ type: "acceptTransfer" })}
+                            disabled={organizerMutation.isPending}
+                          >
+                            {t("pages:tripModal.organizers.acceptTransfer")}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => organizerMutation.mutate({ type: "withdrawTransfer" })}
+                            disabled={organizerMutation.isPending}
+                          >
+                            {t("pages:tripModal.organizers.declineTransfer")}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {isCreator && trip.pendingOwnerId && (
+                      <div className="flex items-center justify-between gap-2 text-sm text-gray-600">
+                        <span>{t("pages:tripModal.organizers.transferPending", { name: pendingOwner?.name ?? "" })}</span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => organizerMutation.mutate({ type: "withdrawTransfer" })}
+                          disabled={organizerMutation.isPending}
+                        >
+                          {t("pages:tripModal.organizers.cancelTransfer")}
+                        </Button>
+                      </div>
+                    )}
+
+                    {(isCreator || isCoOrganizer) && trip.status === 'published' && (
+                      <TripRequestsPanel tripId={trip.id} />
+                    )}
+
+                    {(isCreator || isCoOrganizer) && isOpenForManaging && (
+                      <TripBansPanel tripId={trip.id} />
+                    )}
+
+                    {isCreator && (trip.status === 'draft' || trip.status === 'published') && (
+                      <TripInvitesPanel tripId={trip.id} dateLocale={dateFnsLocale} />
+                    )}
+
                     {isParticipant && (
                       <Badge variant="secondary" className="w-full justify-center py-2 bg-green-100 text-green-800 border-green-200">
                         {t("pages:tripModal.badges.participant")}
@@ -495,21 +931,31 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                       </Badge>
                     )}
 
+                    {isWaitlisted && (
+                      <Badge variant="secondary" className="w-full justify-center py-2 bg-orange-100 text-orange-800 border-orange-200">
+                        {t("pages:tripModal.badges.waitlisted", { position: tripStatus?.position })}
+                      </Badge>
+                    )}
+
                     {isRejected && (
                       <Badge variant="secondary" className="w-full justify-center py-2 bg-red-100 text-red-800 border-red-200">
                         {t("pages:tripModal.badges.rejected")}
                       </Badge>
                     )}
 
-                    {user && !isCreator && !userStatus && participants.length < trip.maxParticipants && !joinRequestSent && (
+                    {user && isOpenForJoining && !isInviteOnly && isEligible && !isCreator && !userStatus && participants.length < trip.maxParticipants && !joinRequestSent && (
                       <div className="space-y-3">
                         <div className="text-center">
                           <h4 className="font-semibold text-lg">{t("pages:tripModal.join.title")}</h4>
                           <p className="text-sm text-gray-600 mt-1">
-                            {t("pages:tripModal.join.subtitle")}
+                            {trip.joinPolicy === 'auto' ? t("pages:tripModal.join.autoSubtitle") : t("pages:tripModal.join.subtitle")}
                           </p>
                         </div>
 
+                        {trip.questions && trip.questions.length > 0 && (
+                          <JoinQuestionsForm questions={trip.questions} answers={joinAnswers} onChange={setJoinAnswers} />
+                        )}
+
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-2">
                             {t("pages:tripModal.join.label")}
@@ -526,7 +972,7 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                         <Button
                           className="w-full bg-blue-600 hover:bg-blue-700"
                           onClick={handleJoinTrip}
-                          disabled={sendJoinMessageMutation.isPending || !joinMessage.trim()}
+                          disabled={sendJoinMessageMutation.isPending || !joinMessage.trim() || !allQuestionsAnswered}
                         >
                           {sendJoinMessageMutation.isPending ? t("pages:tripModal.buttons.sending") : t("pages:tripModal.buttons.send")}
                         </Button>
@@ -560,19 +1006,31 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
                       </div>
                     )}
 
+                    {user && isOpenForJoining && !isInviteOnly && !isEligible && !isCreator && !userStatus && (
+                      <Badge variant="secondary" className="w-full justify-center py-2 bg-gray-100 text-gray-800 border-gray-200">
+                        {t("pages:tripModal.badges.notEligible")}
+                      </Badge>
+                    )}
+
+                    {user && isOpenForJoining && isInviteOnly && !isCreator && !userStatus && (
+                      <Badge variant="secondary" className="w-full justify-center py-2 bg-gray-100 text-gray-800 border-gray-200">
+                        {t("pages:tripModal.badges.inviteOnly")}
+                      </Badge>
+                    )}
+
                     {joinRequestSent && !userStatus && (
                       <Badge variant="secondary" className="w-full justify-center py-2 bg-blue-100 text-blue-800 border-blue-200">
                         {t("pages:tripModal.badges.sent")}
                       </Badge>
                     )}
 
-                    {user && !isCreator && !userStatus && participants.length >= trip.maxParticipants && (
+                    {user && isOpenForJoining && !isCreator && !userStatus && participants.length >= trip.maxParticipants && (
                       <Badge variant="secondary" className="w-full justify-center py-2 bg-gray-100 text-gray-800 border-gray-200">
                         {t("pages:tripModal.badges.full")}
                       </Badge>
                     )}
 
-                    {isParticipant && (
+                    {(isParticipant || isWaitlisted) && (
                       <Button
                         variant="destructive"
                         className="w-full"
@@ -587,6 +1045,71 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
               </Card>
             </div>
           </div>
+
+          {showsAttendance && (
+            <Card>
+              <CardContent className="p-4">
+                <h3 className="font-semibold text-lg mb-3">{t("pages:tripModal.sections.attendance")}</h3>
+                <TripAttendancePanel
+                  tripId={trip.id}
+                  canManage={!!(isCreator || isCoOrganizer)}
+                  checkInOpen={checkInWindow === 'open'}
+                  currentUserId={user?.id}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {(isCreator || isParticipant) && trip.status !== 'draft' && (
+            <Card>
+              <CardContent className="p-4">
+                <h3 className="font-semibold text-lg mb-3">{t("pages:tripModal.sections.checklist")}</h3>
+                <TripChecklistPanel
+                  tripId={trip.id}
+                  tripType={trip.type}
+                  currentUserId={user?.id}
+                  canManage={!!(isCreator || isCoOrganizer)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {(isCreator || isParticipant) && trip.status !== 'draft' && (
+            <Card>
+              <CardContent className="p-4">
+                <h3 className="font-semibold text-lg mb-3">{t("pages:tripModal.sections.expenses")}</h3>
+                <TripExpensesPanel
+                  tripId={trip.id}
+                  tripTitle={trip.title}
+                  members={[trip.creator, ...participants.filter((participant: any) => participant.id !== trip.creatorId)]}
+                  currentUserId={user?.id}
+                  canManage={!!(isCreator || isCoOrganizer)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {trip.status === 'completed' && (
+            <Card>
+              <CardContent className="p-4">
+                <h3 className="font-semibold text-lg mb-3">{t("pages:tripModal.sections.reviews")}</h3>
+                <TripReviewsPanel
+                  tripId={trip.id}
+                  members={[trip.creator, ...participants.filter((participant: any) => participant.id !== trip.creatorId)]}
+                  currentUserId={user?.id}
+                  dateLocale={dateFnsLocale}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <TripComments
+            tripId={trip.id}
+            tripCreatorId={trip.creatorId}
+            currentUser={user}
+            dateLocale={dateFnsLocale}
+            onProfileClick={setProfileUserId}
+          />
         </div>
       </DialogContent>
       {/* Gallery modal */}
@@ -598,6 +1121,13 @@ export function TripDetailModal({ tripId, isOpen, onClose }: TripDetailModalProp
         title={trip?.title}
         description={trip?.description}
       />
+      {trip && (
+        <RemoveParticipantDialog
+          tripId={trip.id}
+          participant={removingParticipant}
+          onClose={() => setRemovingParticipant(null)}
+        />
+      )}
       {profileUserId && (
         <UserProfileModal userId={profileUserId} isOpen={!!profileUserId} onClose={() => setProfileUserId(null)} />
       )}
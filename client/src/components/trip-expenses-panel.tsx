@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ArrowRight, Download, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/tripCost";
+import { useTranslation } from "react-i18next";
+import { currencyCodes, type SettleUpTransfer, type TripLedger } from "@shared/schema";
+
+type TripExpensesPanelProps = {
+  tripId: string;
+  tripTitle: string;
+  // Creator and approved participants
+  members: { id: string; name: string }[];
+  currentUserId?: string;
+  // Creator or co-organizer: may remove any expense or payment
+  canManage: boolean;
+};
+
+// Shared costs of the trip: who paid what, balances and the payments that settle them
+export function TripExpensesPanel({ tripId, tripTitle, members, currentUserId, canManage }: TripExpensesPanelProps) {
+  const { toast } = useToast();
+  const { t, i18n } = useTranslation(["pages"]);
+  const language = i18n.resolvedLanguage ?? i18n.language ?? "en";
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState("UAH");
+  const [payerId, setPayerId] = useState(currentUserId ?? "");
+  const [sharedWith, setSharedWith] = useState<string[]>(() => members.map((member) => member.id));
+
+  const ledgerKey = ["/api/trips", tripId, "expenses"];
+
+  const { data: ledger } = useQuery<TripLedger>({
+    queryKey: ledgerKey,
+    queryFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/expenses`);
+      return response.json();
+    },
+  });
+
+  const names = new Map([...(ledger?.users ?? []), ...members].map((user) => [user.id, user.name]));
+  const nameOf = (userId: string) => names.get(userId) ?? t("pages:expenses.unknownMember");
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: t("pages:tripModal.toasts.errorTitle"),
+      description: error.message,
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/expenses`, {
+        method: "POST",
+        body: JSON.stringify({
+          description: description.trim(),
+          amount: Math.round(parseFloat(amount.replace(",", ".")) * 100),
+          currency,
+          payerId,
+          sharedWith,
+        }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ledgerKey });
+      setDescription("");
+      setAmount("");
+    },
+    onError,
+  });
+
+  const deleteExpenseMutation = useMutation({
+    mutationFn: async (expenseId: string) => {
+      return apiRequest(`/api/trips/${tripId}/expenses/${expenseId}`, { method: "DELETE" });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ledgerKey }),
+    onError,
+  });
+
+  const settleMutation = useMutation({
+    mutationFn: async (transfer: SettleUpTransfer) => {
+      return apiRequest(`/api/trips/${tripId}/settlements`, {
+        method: "POST",
+        body: JSON.stringify(transfer),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ledgerKey });
+      toast({ title: t("pages:expenses.settled") });
+    },
+    onError,
+  });
+
+  const cancelSettlementMutation = useMutation({
+    mutationFn: async (settlementId: string) => {
+      return apiRequest(`/api/trips/${tripId}/settlements/${settlementId}`, { method: "DELETE" });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ledgerKey }),
+    onError,
+  });
+
+  // The export needs the auth header, so it is fetched and saved from a blob
+  const exportCsv = async () => {
+    try {
+      const response = await apiRequest(`/api/trips/${tripId}/expenses.csv`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${tripTitle.replace(/[\s\\/:*?"<>|]+/g, "-") || "expenses"}-expenses.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const toggleShared = (userId: string, checked: boolean) =>
+    setSharedWith((current) => (checked ? [...current, userId] : current.filter((id) => id !== userId)));
+
+  const parsedAmount = parseFloat(amount.replace(",", "."));
+  const canAdd =
+    description.trim() !== "" &&
+    parsedAmount > 0 &&
+    !!payerId &&
+    sharedWith.length > 0;
+
+  const expenses = ledger?.expenses ?? [];
+  const settlements = ledger?.settlements ?? [];
+  const balances = ledger?.balances ?? [];
+  const transfers = ledger?.transfers ?? [];
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2 border rounded-md p-3">
+        <p className="text-sm font-medium">{t("pages:expenses.add")}</p>
+        <Input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder={t("pages:expenses.descriptionPlaceholder")}
+          maxLength={200}
+        />
+        <div className="flex gap-2">
+          <Input
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={t("pages:expenses.amountPlaceholder")}
+            inputMode="decimal"
+          />
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-28" aria-label={t("pages:expenses.currency")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[9999]">
+              {currencyCodes.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Select value={payerId} onValueChange={setPayerId}>
+          <SelectTrigger>
+            <SelectValue placeholder={t("pages:expenses.paidBy")} />
+          </SelectTrigger>
+          <SelectContent className="z-[9999]">
+            {members.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {t("pages:expenses.paidByName", { name: member.name })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">{t("pages:expenses.sharedWith")}</p>
+          {members.map((member) => (
+            <label key={member.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={sharedWith.includes(member.id)}
+                onCheckedChange={(checked) => toggleShared(member.id, checked === true)}
+              />
+              {member.name}
+            </label>
+          ))}
+        </div>
+        <Button onClick={() => addMutation.mutate()} disabled={!canAdd || addMutation.isPending}>
+          {t("pages:expenses.save")}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-semibold">{t("pages:expenses.balances")}</h4>
+        {balances.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("pages:expenses.allSettled")}</p>
+        ) : (
+          balances.map((balance) => (
+            <div key={`${balance.currency}-${balance.userId}`} className="flex justify-between text-sm">
+              <span>{nameOf(balance.userId)}</span>
+              <span className={balance.amount > 0 ? "text-green-700" : "text-red-600"}>
+                {balance.amount > 0 && "+"}
+                {formatMoney(balance.amount, balance.currency, language)}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {transfers.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold">{t("pages:expenses.settleUp")}</h4>
+          {transfers.map((transfer) => (
+            <div
+              key={`${transfer.currency}-${transfer.fromUserId}-${transfer.toUserId}`}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <span className="flex items-center gap-1 min-w-0">
+                <span className="truncate">{nameOf(transfer.fromUserId)}</span>
+                <ArrowRight className="h-3 w-3 shrink-0" />
+                <span className="truncate">{nameOf(transfer.toUserId)}</span>
+                <span className="font-medium ml-1">{formatMoney(transfer.amount, transfer.currency, language)}</span>
+              </span>
+              {(canManage || transfer.fromUserId === currentUserId || transfer.toUserId === currentUserId) && (
+                <Button size="sm" variant="outline" onClick={() => settleMutation.mutate(transfer)} disabled={settleMutation.isPending}>
+                  {t("pages:expenses.markPaid")}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold">{t("pages:expenses.history")}</h4>
+          {(expenses.length > 0 || settlements.length > 0) && (
+            <Button size="sm" variant="ghost" onClick={exportCsv}>
+              <Download className="h-4 w-4 mr-1" />
+              {t("pages:expenses.exportCsv")}
+            </Button>
+          )}
+        </div>
+        {expenses.length === 0 && settlements.length === 0 && (
+          <p className="text-sm text-gray-500">{t("pages:expenses.empty")}</p>
+        )}
+        {expenses.map((expense) => (
+          <div key={expense.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="min-w-0">
+              <p className="truncate font-medium">{expense.description}</p>
+              <p className="text-xs text-gray-500">
+                {t("pages:expenses.expenseLine", { name: nameOf(expense.payerId), count: expense.sharedWith.length })}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <span>{formatMoney(expense.amount, expense.currency, language)}</span>
+              {(canManage || expense.createdBy === currentUserId || expense.payerId === currentUserId) && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteExpenseMutation.mutate(expense.id)}
+                  disabled={deleteExpenseMutation.isPending}
+                  aria-label={t("pages:expenses.delete")}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+        {settlements.map((settlement) => (
+          <div key={settlement.id} className="flex items-center justify-between gap-2 text-sm text-gray-600">
+            <span className="min-w-0 truncate">
+              {t("pages:expenses.paymentLine", { from: nameOf(settlement.fromUserId), to: nameOf(settlement.toUserId) })}
+            </span>
+            <div className="flex items-center gap-1 shrink-0">
+              <span>{formatMoney(settlement.amount, settlement.currency, language)}</span>
+              {(canManage || settlement.createdBy === currentUserId) && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => cancelSettlementMutation.mutate(settlement.id)}
+                  disabled={cancelSettlementMutation.isPending}
+                  aria-label={t("pages:expenses.cancelPayment")}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { Locale } from "date-fns";
+import { useTranslation } from "react-i18next";
+import type { TripInvite } from "@shared/schema";
+
+type TripInvitesPanelProps = {
+  tripId: string;
+  dateLocale: Locale;
+};
+
+const EXPIRY_OPTIONS = ["24", "168", "720", "never"] as const;
+const MAX_USES_OPTIONS = ["1", "5", "20", "unlimited"] as const;
+
+// Creator-only list of invite links with create / copy / revoke actions
+export function TripInvitesPanel({ tripId, dateLocale }: TripInvitesPanelProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+  const [expiry, setExpiry] = useState<string>("168");
+  const [maxUses, setMaxUses] = useState<string>("unlimited");
+
+  const invitesKey = ["/api/trips", tripId, "invites"];
+
+  const { data: invites = [] } = useQuery<TripInvite[]>({
+    queryKey: invitesKey,
+    queryFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/invites`);
+      return response.json();
+    },
+  });
+
+  const inviteUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+  const copyInvite = async (token: string) => {
+    await navigator.clipboard.writeText(inviteUrl(token));
+    toast({ title: t("pages:tripModal.invites.copied") });
+  };
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/invites`, {
+        method: "POST",
+        body: JSON.stringify({
+          ...(expiry !== "never" ? { expiresInHours: Number(expiry) } : {}),
+          ...(maxUses !== "unlimited" ? { maxUses: Number(maxUses) } : {}),
+        }),
+      });
+      return response.json() as Promise<TripInvite>;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      copyInvite(invite.token).catch(() => undefined);
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: t("pages:tripModal.toasts.errorTitle"),
+        description: t("pages:tripModal.invites.createError"),
+      });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      return apiRequest(`/api/trips/${tripId}/invites/${inviteId}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+    },
+  });
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <h4 className="font-semibold">{t("pages:tripModal.invites.title")}</h4>
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[9999]">
+            {EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {t(`pages:tripModal.invites.expiry.${option}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={maxUses} onValueChange={setMaxUses}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[9999]">
+            {MAX_USES_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option === "unlimited"
+                  ? t("pages:tripModal.invites.unlimitedUses")
+                  : t("pages:tripModal.invites.uses", { count: Number(option) })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => createInviteMutation.mutate()}
+        disabled={createInviteMutation.isPending}
+      >
+        <Link2 className="h-4 w-4 mr-2" />
+        {t("pages:tripModal.invites.create")}
+      </Button>
+
+      {invites.map((invite) => (
+        <div key={invite.id} className="flex items-center justify-between gap-2 text-sm">
+          <div className="min-w-0">
+            <p className="truncate font-mono text-xs">{inviteUrl(invite.token)}</p>
+            <p className="text-gray-500 text-xs">
+              {invite.maxUses !== null
+                ? t("pages:tripModal.invites.usedOf", { used: invite.usesCount, max: invite.maxUses })
+                : t("pages:tripModal.invites.used", { used: invite.usesCount })}
+              {invite.expiresAt && ` · ${t("pages:tripModal.invites.until", {
+                date: format(new Date(invite.expiresAt), "d MMM, HH:mm", { locale: dateLocale }),
+              })}`}
+            </p>
+          </div>
+          <div className="flex shrink-0">
+            <Button size="icon" variant="ghost" onClick={() => copyInvite(invite.token)} aria-label={t("pages:tripModal.invites.copy")}>
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => revokeInviteMutation.mutate(invite.id)}
+              disabled={revokeInviteMutation.isPending}
+              aria-label={t("pages:tripModal.invites.revoke")}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useTranslation } from "react-i18next";
+import { MAX_TRIP_QUESTIONS, tripQuestionKinds, type TripQuestion, type TripQuestionKind } from "@shared/schema";
+
+type TripQuestionsEditorProps = {
+  questions: TripQuestion[];
+  onChange: (questions: TripQuestion[]) => void;
+};
+
+// Blank questions and options are dropped before saving; options only stay on choice questions
+export const toSubmittedQuestions = (questions: TripQuestion[]): TripQuestion[] =>
+  questions
+    .filter((question) => question.text.trim())
+    .map(({ options, ...question }) =>
+      question.kind === "choice"
+        ? { ...question, options: (options ?? []).map((option) => option.trim()).filter(Boolean) }
+        : question,
+    );
+
+// Application questions the creator asks everyone who wants to join
+export function TripQuestionsEditor({ questions, onChange }: TripQuestionsEditorProps) {
+  const { t } = useTranslation(["pages"]);
+
+  const updateQuestion = (id: string, changes: Partial<TripQuestion>) => {
+    onChange(questions.map((question) => (question.id === id ? { ...question, ...changes } : question)));
+  };
+
+  const addQuestion = () => {
+    onChange([...questions, { id: crypto.randomUUID(), text: "", kind: "text" }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {questions.map((question, index) => (
+        <div key={question.id} className="border rounded-md p-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={question.text}
+              onChange={(e) => updateQuestion(question.id, { text: e.target.value })}
+              placeholder={t("pages:createTrip.questions.textPlaceholder", { number: index + 1 })}
+              maxLength={300}
+            />
+            <Select
+              value={question.kind}
+              onValueChange={(kind) => updateQuestion(question.id, { kind: kind as TripQuestionKind })}
+            >
+              <SelectTrigger className="w-40 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[9999]">
+                {tripQuestionKinds.map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {t(`pages:createTrip.questions.kinds.${kind}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(questions.filter((item) => item.id !== question.id))}
+              aria-label={t("pages:createTrip.questions.remove")}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {question.kind === "choice" && (
+            <Textarea
+              value={(question.options ?? []).join("\n")}
+              onChange={(e) => updateQuestion(question.id, { options: e.target.value.split("\n").slice(0, 10) })}
+              placeholder={t("pages:createTrip.questions.optionsPlaceholder")}
+              rows={3}
+              className="resize-none"
+            />
+          )}
+        </div>
+      ))}
+      {questions.length < MAX_TRIP_QUESTIONS && (
+        <Button type="button" variant="outline" onClick={addQuestion}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t("pages:createTrip.questions.add")}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { JoinAnswersList } from "@/components/join-questions";
+import type { AcceptTripRequestResult, TripJoinRequest } from "@shared/schema";
+
+type TripRequestsPanelProps = {
+  tripId: string;
+};
+
+// Pending join requests with accept / reject actions, for the creator and co-organizers
+export function TripRequestsPanel({ tripId }: TripRequestsPanelProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+
+  const requestsKey = ["/api/trips", tripId, "requests"];
+
+  const { data: requests = [] } = useQuery<TripJoinRequest[]>({
+    queryKey: requestsKey,
+    queryFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/requests`);
+      return response.json();
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ userId, action }: { userId: string; action: "accept" | "reject" }) => {
+      const response = await apiRequest(`/api/trips/${tripId}/${action}/${userId}`, {
+        method: "POST",
+      });
+      return response.json() as Promise<Partial<AcceptTripRequestResult>>;
+    },
+    onSuccess: (result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      if (action === "reject") {
+        toast({ title: t("pages:tripModal.requests.rejected") });
+      } else if (result.status === "waitlisted") {
+        toast({ title: t("pages:tripModal.requests.waitlisted", { position: result.position }) });
+      } else {
+        toast({ title: t("pages:tripModal.requests.accepted") });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: t("pages:tripModal.toasts.errorTitle"),
+        description: error.message,
+      });
+    },
+  });
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <h4 className="font-semibold">{t("pages:tripModal.requests.title", { count: requests.length })}</h4>
+      {requests.map((request) => (
+        <div key={request.id} className="space-y-2">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={request.avatarThumbnailUrl || request.avatarUrl || undefined} alt={request.name} />
+                <AvatarFallback className="bg-blue-100 text-blue-600 text-xs">
+                  {request.name.slice(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="truncate font-medium">{request.name}</p>
+                {(request.age || request.city) && (
+                  <p className="text-gray-500 text-xs truncate">
+                    {[request.age && t("pages:tripModal.organizer.yearsOld", { count: request.age }), request.city]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )}
+                {request.noShowCount > 0 && (
+                  <p className="text-red-600 text-xs">{t("pages:tripModal.attendance.noShowCount", { count: request.noShowCount })}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex shrink-0">
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => decideMutation.mutate({ userId: request.id, action: "accept" })}
+                disabled={decideMutation.isPending}
+                aria-label={t("pages:tripModal.requests.accept")}
+              >
+                <Check className="h-4 w-4 text-green-600" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => decideMutation.mutate({ userId: request.id, action: "reject" })}
+                disabled={decideMutation.isPending}
+                aria-label={t("pages:tripModal.requests.reject")}
+              >
+                <X className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          </div>
+          {request.answers && request.answers.length > 0 && (
+            <div className="ml-10">
+              <JoinAnswersList answers={request.answers} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
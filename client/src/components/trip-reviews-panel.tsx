@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { RatingStars } from "@/components/rating-stars";
+import { ReviewList } from "@/components/review-list";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Locale } from "date-fns";
+import { useTranslation } from "react-i18next";
+import type { TripReviewWithUsers } from "@shared/schema";
+
+type TripReviewsPanelProps = {
+  tripId: string;
+  // Creator and approved participants
+  members: { id: string; name: string }[];
+  currentUserId?: string;
+  dateLocale: Locale;
+};
+
+// Reviews of a completed trip; members review each other member once
+export function TripReviewsPanel({ tripId, members, currentUserId, dateLocale }: TripReviewsPanelProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+  const [revieweeId, setRevieweeId] = useState("");
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState("");
+
+  const reviewsKey = ["/api/trips", tripId, "reviews"];
+
+  const { data: reviews = [] } = useQuery<TripReviewWithUsers[]>({
+    queryKey: reviewsKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/trips/${tripId}/reviews`);
+      if (!response.ok) throw new Error("Failed to load reviews");
+      return response.json();
+    },
+  });
+
+  const isMember = members.some((member) => member.id === currentUserId);
+  const reviewable = members.filter(
+    (member) =>
+      member.id !== currentUserId &&
+      !reviews.some((review) => review.reviewerId === currentUserId && review.revieweeId === member.id),
+  );
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/trips/${tripId}/reviews`, {
+        method: "POST",
+        body: JSON.stringify({ revieweeId, rating, text: text.trim() || undefined }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", revieweeId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips", tripId] });
+      setRevieweeId("");
+      setRating(0);
+      setText("");
+      toast({ title: t("pages:reviews.sent") });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: t("pages:tripModal.toasts.errorTitle"),
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {isMember && reviewable.length > 0 && (
+        <div className="space-y-2 border rounded-md p-3">
+          <p className="text-sm font-medium">{t("pages:reviews.leave")}</p>
+          <Select value={revieweeId} onValueChange={setRevieweeId}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("pages:reviews.pickMember")} />
+            </SelectTrigger>
+            <SelectContent className="z-[9999]">
+              {reviewable.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <RatingStars value={rating} onChange={setRating} size="h-6 w-6" />
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={t("pages:reviews.textPlaceholder")}
+            rows={3}
+            maxLength={2000}
+            className="resize-none"
+          />
+          <Button onClick={() => reviewMutation.mutate()} disabled={!revieweeId || rating === 0 || reviewMutation.isPending}>
+            {t("pages:reviews.send")}
+          </Button>
+        </div>
+      )}
+      <ReviewList reviews={reviews} currentUserId={currentUserId} dateLocale={dateLocale} context="trip" />
+    </div>
+  );
+}
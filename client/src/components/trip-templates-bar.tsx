@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { BookmarkPlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import type { TripTemplate, TripTemplateData } from "@shared/schema";
+
+type TripTemplatesBarProps = {
+  onApply: (data: TripTemplateData) => void;
+  getCurrentData: () => TripTemplateData;
+};
+
+const tripTemplatesKey = ["/api/trips/templates"];
+
+// Picks a saved template to fill the create form, or saves the form as a new one
+export function TripTemplatesBar({ onApply, getCurrentData }: TripTemplatesBarProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation(["pages"]);
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const { data: templates = [] } = useQuery<TripTemplate[]>({
+    queryKey: tripTemplatesKey,
+    queryFn: async () => {
+      const response = await apiRequest("/api/trips/templates");
+      return response.json();
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/trips/templates", {
+        method: "POST",
+        body: JSON.stringify({ name: name.trim(), data: getCurrentData() }),
+      });
+      return response.json() as Promise<TripTemplate>;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: tripTemplatesKey });
+      setSelectedId(template.id);
+      setSaveOpen(false);
+      setName("");
+      toast({ title: t("pages:createTrip.templates.saved") });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: t("pages:createTrip.toasts.errorTitle"),
+        description: error.message || t("pages:createTrip.templates.saveError"),
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      return apiRequest(`/api/trips/templates/${templateId}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tripTemplatesKey });
+      setSelectedId("");
+      toast({ title: t("pages:createTrip.templates.deleted") });
+    },
+  });
+
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find((item) => item.id === templateId);
+    if (!template) return;
+    setSelectedId(templateId);
+    onApply(template.data);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={selectedId} onValueChange={applyTemplate} disabled={templates.length === 0}>
+        <SelectTrigger className="w-full md:w-72">
+          <SelectValue
+            placeholder={
+              templates.length === 0
+                ? t("pages:createTrip.templates.empty")
+                : t("pages:createTrip.templates.startFrom")
+            }
+          />
+        </SelectTrigger>
+        <SelectContent className="z-[9999]">
+          {templates.map((template) => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selectedId && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => deleteMutation.mutate(selectedId)}
+          disabled={deleteMutation.isPending}
+          aria-label={t("pages:createTrip.templates.delete")}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+      <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline">
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            {t("pages:createTrip.templates.save")}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("pages:createTrip.templates.namePlaceholder")}
+            maxLength={100}
+          />
+          <Button
+            type="button"
+            className="w-full"
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+          >
+            {t("pages:createTrip.templates.confirmSave")}
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
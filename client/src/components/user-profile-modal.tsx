@@ -7,6 +7,9 @@ import { format } from "date-fns";
 import { enUS, ru as ruLocale } from "date-fns/locale";
 import React from "react";
 import { useTranslation } from "react-i18next";
+import { RatingSummary } from "@/components/rating-stars";
+import { ReviewList } from "@/components/review-list";
+import type { TripReviewWithUsers } from "@shared/schema";
 
 interface UserProfileModalProps {
   userId: string | null;
@@ -31,6 +34,31 @@ export function UserProfileModal({ userId, isOpen, onClose }: UserProfileModalPr
     },
   });
 
+  const { data: reviews = [] } = useQuery<TripReviewWithUsers[]>({
+    queryKey: ["/api/users", userId, "reviews"],
+    enabled: isOpen && !!userId,
+    queryFn: async () => {
+      const resp = await fetch(`/api/users/${userId}/reviews`);
+      if (!resp.ok) throw new Error("Failed to load reviews");
+      return resp.json();
+    },
+  });
+
+  // The viewer replies to reviews on their own profile
+  const { data: currentUser } = useQuery({
+    queryKey: ["/api/users/me"],
+    queryFn: async () => {
+      const token = localStorage.getItem("accessToken");
+      if (!token) return null;
+      const resp = await fetch("/api/users/me", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!resp.ok) return null;
+      return resp.json();
+    },
+    retry: false,
+  });
+
   const getInitials = (name: string) => name.split(" ").map((n) => n[0]).join("").toUpperCase();
   const resolvedLanguage = i18n.resolvedLanguage ?? i18n.language ?? "en";
   const dateFnsLocale = resolvedLanguage.startsWith("ru") ? ruLocale : enUS;
@@ -56,6 +84,10 @@ export function UserProfileModal({ userId, isOpen, onClose }: UserProfileModalPr
               </Avatar>
               <h2 className="text-xl font-semibold">{user.name}</h2>
               {user.age && <p className="text-gray-500">{t("pages:userProfileModal.yearsOld", { count: user.age })}</p>}
+              {user.rating && <RatingSummary rating={user.rating} />}
+              {user.noShowCount > 0 && (
+                <p className="text-sm text-red-600">{t("pages:userProfileModal.noShowCount", { count: user.noShowCount })}</p>
+              )}
             </div>
 
             {/* Additional photos */}
@@ -135,6 +167,12 @@ export function UserProfileModal({ userId, isOpen, onClose }: UserProfileModalPr
                 </p>
               )}
             </div>
+
+            {/* Reviews from trips */}
+            <div>
+              <h3 className="font-medium mb-2">{t("pages:userProfileModal.reviews")}</h3>
+              <ReviewList reviews={reviews} currentUserId={currentUser?.id} dateLocale={dateFnsLocale} context="profile" />
+            </div>
           </div>
         )}
       </DialogContent>
@@ -3,9 +3,10 @@ import { useEffect, useRef } from 'react';
 interface UseChatWebSocketOptions {
   onNewMessage: (data: { chatId: string; message: any }) => void;
   onAnyMessage: (data: { chatId: string; message: any }) => void;
+  onTripComment?: (data: { tripId: string; tripTitle: string; comment: any }) => void;
 }
 
-export function useChatWebSocket({ onNewMessage, onAnyMessage }: UseChatWebSocketOptions) {
+export function useChatWebSocket({ onNewMessage, onAnyMessage, onTripComment }: UseChatWebSocketOptions) {
   const wsRef = useRef<WebSocket | null>(null);
 
   // Monitor token
@@ -39,6 +40,12 @@ export function useChatWebSocket({ onNewMessage, onAnyMessage }: UseChatWebSocke
           }
           window.dispatchEvent(new CustomEvent('incoming-message', { detail: data }));
         }
+        if (data.type === 'trip_comment' && onTripComment) {
+          onTripComment({ tripId: data.tripId, tripTitle: data.tripTitle, comment: data.comment });
+        }
+        if (data.type === 'trip_checklist_updated') {
+          window.dispatchEvent(new CustomEvent('trip-checklist-updated', { detail: data }));
+        }
       } catch (err) {
         // eslint-disable-next-line no-console
         console.error('WebSocket message parse error:', err);
@@ -69,5 +76,5 @@ export function useChatWebSocket({ onNewMessage, onAnyMessage }: UseChatWebSocke
     return () => {
       ws.close();
     };
-  }, [accessToken, onNewMessage, onAnyMessage]);
+  }, [accessToken, onNewMessage, onAnyMessage, onTripComment]);
 } 
\ No newline at end of file
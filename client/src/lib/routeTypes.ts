@@ -83,3 +83,27 @@ export const resolveRouteTypeDescription = (
   return resolveRouteTypeName(safeAlias, t, i18n);
 };
 
+
+// "12.4 km · ~2 h 45 min"; null when the trip has no measurable route
+export const formatRouteMetrics = (
+  distanceKm: number | null | undefined,
+  estimatedMinutes: number | null | undefined,
+  t: TFunction,
+) => {
+  if (distanceKm == null) {
+    return null;
+  }
+  const parts = [t("pages:trips.routeMetrics.distance", { distance: distanceKm.toFixed(1) })];
+  if (estimatedMinutes != null) {
+    const hours = Math.floor(estimatedMinutes / 60);
+    const minutes = estimatedMinutes % 60;
+    parts.push(
+      hours === 0
+        ? t("pages:trips.routeMetrics.minutes", { minutes })
+        : minutes === 0
+          ? t("pages:trips.routeMetrics.hours", { hours })
+          : t("pages:trips.routeMetrics.hoursMinutes", { hours, minutes }),
+    );
+  }
+  return parts.join(" · ");
+};
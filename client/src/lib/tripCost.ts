@@ -0,0 +1,26 @@
+import type { TFunction } from "i18next";
+import type { Trip } from "@shared/schema";
+
+// Amounts are in minor units (cents)
+export const formatMoney = (amount: number, currency: string, language: string) => {
+  try {
+    return new Intl.NumberFormat(language, { style: "currency", currency }).format(amount / 100);
+  } catch {
+    return `${(amount / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+// "Free", "~15 € per person, split" or "40 $ per person"; null when the trip states no cost
+export const formatTripCost = (
+  trip: Pick<Trip, "costType" | "costPerPerson" | "costCurrency">,
+  t: TFunction,
+  language: string,
+) => {
+  if (trip.costType === "free") {
+    return t("pages:trips.cost.free");
+  }
+  if (!trip.costType || trip.costPerPerson == null || !trip.costCurrency) {
+    return null;
+  }
+  return t(`pages:trips.cost.${trip.costType}`, { amount: formatMoney(trip.costPerPerson, trip.costCurrency, language) });
+};
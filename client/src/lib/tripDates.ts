@@ -0,0 +1,46 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { Locale } from "date-fns";
+
+// Trip dates are plain YYYY-MM-DD strings; parseISO keeps them in local time
+export const getTripDayCount = (date: string | null | undefined, endDate: string | null | undefined) => {
+  if (!date || !endDate) {
+    return 1;
+  }
+  return Math.max(1, differenceInCalendarDays(parseISO(endDate), parseISO(date)) + 1);
+};
+
+// Calendar date of itinerary day N (day 1 is the trip date)
+export const getItineraryDayDate = (date: string, day: number) => addDays(parseISO(date), day - 1);
+
+// "14 September 2027" or "10 – 14 September 2027" for multi-day trips
+export const formatTripDates = (
+  date: string | null | undefined,
+  endDate: string | null | undefined,
+  locale: Locale,
+  dayFormat = "d MMMM yyyy",
+) => {
+  if (!date) {
+    return null;
+  }
+  const start = parseISO(date);
+  if (!endDate || endDate === date) {
+    return format(start, dayFormat, { locale });
+  }
+  const end = parseISO(endDate);
+  return `${format(start, start.getFullYear() === end.getFullYear() ? "d MMM" : "d MMM yyyy", { locale })} – ${format(end, dayFormat, { locale })}`;
+};
+
+// Mirrors the server's check-in window: the trip days plus a day of slack on both sides
+export const getCheckInWindow = (
+  date: string | null | undefined,
+  endDate: string | null | undefined,
+  now = new Date(),
+): "before" | "open" | "after" => {
+  if (!date) {
+    return "before";
+  }
+  if (now < addDays(parseISO(date), -1)) {
+    return "before";
+  }
+  return now < addDays(parseISO(endDate ?? date), 2) ? "open" : "after";
+};
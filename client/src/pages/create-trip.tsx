@@ -11,12 +11,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Checkbox } from "@/components/ui/checkbox";
 import { Header } from "@/components/ui/header";
 import { RouteMap } from "@/components/route-map";
-import { MapPin, Plus, X } from "lucide-react";
+import { ItineraryEditor, hasItineraryContent } from "@/components/itinerary-editor";
+import { TripTemplatesBar } from "@/components/trip-templates-bar";
+import { TripQuestionsEditor, toSubmittedQuestions } from "@/components/trip-questions-editor";
+import { MapPin, Plus, Upload, X } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertTripSchema } from "@shared/schema";
-import type { TripType } from "@shared/schema";
+import { currencyCodes, insertTripSchema } from "@shared/schema";
+import type { ItineraryDay, TripQuestion, TripTemplateData, TripType, TripWaypoint } from "@shared/schema";
 import { z } from "zod";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
 import { useRef } from "react";
@@ -31,6 +34,12 @@ import {
   resolveRouteTypeDescription,
   resolveRouteTypeName,
 } from "@/lib/routeTypes";
+import { getTripDayCount } from "@/lib/tripDates";
+
+// "biweekly" is a weekly rule with interval 2
+const REPEAT_OPTIONS = ["none", "weekly", "biweekly", "monthly"] as const;
+type RepeatOption = (typeof REPEAT_OPTIONS)[number];
+const OCCURRENCE_OPTIONS = [2, 4, 6, 8, 12, 26, 52];
 
 const createTripSchema = insertTripSchema.extend({
   location: z.object({
@@ -62,10 +71,13 @@ export default function CreateTrip() {
   const [mainPhotoLoading, setMainPhotoLoading] = useState(false);
   const [additionalPhotosLoading, setAdditionalPhotosLoading] = useState(false);
   const [routePoints, setRoutePoints] = useState<{ lat: number; lng: number }[]>([]);
+  const [waypoints, setWaypoints] = useState<TripWaypoint[]>([]);
   const [cityInput, setCityInput] = useState("");
   const [cityDropdownOpen, setCityDropdownOpen] = useState(false);
   const cityInputRef = useRef<HTMLInputElement>(null);
   const [participantGender, setParticipantGender] = useState<'any' | 'male' | 'female'>('any');
+  // Cost per person as typed, in major units; the form keeps it in cents
+  const [costAmount, setCostAmount] = useState("");
   const cityCoordinatesCache = useRef<Record<string, { lat: number; lng: number }>>({});
   const [cityLookupLoading, setCityLookupLoading] = useState(false);
   const [highlightedCityIndex, setHighlightedCityIndex] = useState(-1);
@@ -75,6 +87,13 @@ export default function CreateTrip() {
   const [date, setDate] = useState<string | null>(null);
   const [time, setTime] = useState<string | null>(null);
   const [datePickerOpen, setDatePickerOpen] = useState(false);
+  const [endDate, setEndDate] = useState<string | null>(null);
+  const [endDatePickerOpen, setEndDatePickerOpen] = useState(false);
+  const [itinerary, setItinerary] = useState<ItineraryDay[]>([]);
+  const [questions, setQuestions] = useState<TripQuestion[]>([]);
+  const dayCount = getTripDayCount(date, endDate);
+  const [repeat, setRepeat] = useState<RepeatOption>("none");
+  const [occurrences, setOccurrences] = useState(4);
   const [timePickerOpen, setTimePickerOpen] = useState(false);
 
   // Update form dateTime when date or time changes
@@ -279,6 +298,7 @@ export default function CreateTrip() {
       time: null,
       maxParticipants: 2,
       creatorParticipates: true,
+      joinPolicy: "manual",
     },
   });
 
@@ -367,7 +387,27 @@ export default function CreateTrip() {
         mainPhotoUrl: mainPhoto,
         additionalPhotos: additionalPhotos,
         route: routePoints,
+        waypoints,
+        endDate: data.date ? endDate : null,
+        itinerary: itinerary
+          .filter((day) => day.day <= dayCount)
+          .map((day) =>
+            day.routeEnd != null && day.routeEnd >= routePoints.length
+              ? { ...day, routeStart: null, routeEnd: null }
+              : day,
+          )
+          .filter(hasItineraryContent),
+        questions: toSubmittedQuestions(questions),
         participantGender,
+        ...(data.date && repeat !== "none"
+          ? {
+              recurrence: {
+                frequency: repeat === "monthly" ? "monthly" : "weekly",
+                interval: repeat === "biweekly" ? 2 : 1,
+                count: occurrences,
+              },
+            }
+          : {}),
       };
       const response = await apiRequest("/api/trips", {
         method: "POST",
@@ -375,13 +415,16 @@ export default function CreateTrip() {
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_trip, data) => {
+      const isDraft = data.status === "draft";
       toast({
         title: t("pages:createTrip.toasts.successTitle"),
-        description: t("pages:createTrip.toasts.successDescription"),
+        description: isDraft
+          ? t("pages:createTrip.toasts.draftSavedDescription")
+          : t("pages:createTrip.toasts.successDescription"),
       });
       queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
-      setLocation("/trips");
+      setLocation(isDraft ? "/my-routes" : "/trips");
     },
     onError: (error: any) => {
       console.error("Trip creation error:", error);
@@ -407,6 +450,67 @@ export default function CreateTrip() {
     },
   });
 
+  // Template fields replace the form's; dates stay as picked
+  const applyTemplate = (data: TripTemplateData) => {
+    form.setValue("title", data.title ?? "");
+    form.setValue("description", data.description ?? "");
+    if (data.type) form.setValue("type", data.type);
+    if (data.maxParticipants) form.setValue("maxParticipants", data.maxParticipants);
+    form.setValue("minAge", data.minAge ?? null);
+    form.setValue("maxAge", data.maxAge ?? null);
+    if (data.joinPolicy) form.setValue("joinPolicy", data.joinPolicy);
+    form.setValue("maxNoShows", data.maxNoShows ?? null);
+    form.setValue("costType", data.costType ?? null);
+    form.setValue("costPerPerson", data.costPerPerson ?? null);
+    form.setValue("costCurrency", data.costCurrency ?? null);
+    setCostAmount(data.costPerPerson != null ? String(data.costPerPerson / 100) : "");
+    if (data.city && data.location) {
+      setCityInput(data.city);
+      form.setValue("city", data.city);
+      form.setValue("location", data.location);
+      setSelectedCity(data.location);
+      lastResolvedCityRef.current = normalizeCityName(data.city);
+    }
+    setTime(data.time ?? null);
+    form.setValue("time", data.time ?? null);
+    setRoutePoints(data.route ?? []);
+    form.setValue("route", data.route ?? []);
+    setWaypoints(data.waypoints ?? []);
+    setItinerary(data.itinerary ?? []);
+    setQuestions(data.questions ?? []);
+    setMainPhoto(data.mainPhotoUrl ?? null);
+    setAdditionalPhotos(data.additionalPhotos ?? []);
+    setParticipantGender(data.participantGender ?? "any");
+  };
+
+  // Empty text fields are left out, the server rejects blank titles
+  const getTemplateData = (): TripTemplateData => {
+    const values = form.getValues();
+    return {
+      title: values.title || undefined,
+      description: values.description || undefined,
+      type: values.type,
+      city: values.city || undefined,
+      location: values.city ? values.location : undefined,
+      route: routePoints,
+      waypoints,
+      itinerary: itinerary.filter(hasItineraryContent),
+      questions: toSubmittedQuestions(questions),
+      time: time,
+      maxParticipants: values.maxParticipants,
+      mainPhotoUrl: mainPhoto,
+      additionalPhotos,
+      participantGender,
+      minAge: values.minAge ?? null,
+      maxAge: values.maxAge ?? null,
+      joinPolicy: values.joinPolicy,
+      maxNoShows: values.maxNoShows ?? null,
+      costType: values.costType ?? null,
+      costPerPerson: values.costPerPerson ?? null,
+      costCurrency: values.costCurrency ?? null,
+    };
+  };
+
   const onSubmit = (data: CreateTripData) => {
     if (!user) {
       toast({
@@ -451,6 +555,65 @@ export default function CreateTrip() {
     createTripMutation.mutate(data);
   };
 
+  const importRouteMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file, file.name);
+
+      const token = localStorage.getItem("accessToken");
+      const response = await fetch('/api/trips/route/import', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || t("pages:createTrip.routeFile.error"));
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setRoutePoints(data.route);
+      setWaypoints([]);
+      form.setValue("route", data.route);
+      form.setValue("location", data.location);
+      setSelectedCity(data.location);
+      if (data.name && !form.getValues("title")) {
+        form.setValue("title", data.name);
+      }
+      toast({
+        title: t("pages:createTrip.routeFile.loadedTitle"),
+        description: t("pages:createTrip.routeFile.loaded", { count: data.route.length }),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: t("pages:createTrip.toasts.errorTitle"),
+        description: error.message || t("pages:createTrip.routeFile.error"),
+      });
+    },
+  });
+
+  const handleRouteFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importRouteMutation.mutate(file);
+    }
+    event.target.value = '';
+  };
+
+  const triggerRouteFileUpload = () => {
+    const input = document.getElementById('route-file-upload') as HTMLInputElement;
+    if (input) {
+      input.click();
+    }
+  };
+
   const handleMainPhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -527,6 +690,7 @@ export default function CreateTrip() {
       lastResolvedCityRef.current = normalizedName;
       // Clear route when city changes
       setRoutePoints([]);
+      setWaypoints([]);
       form.setValue("route", []);
     } finally {
       setCityLookupLoading(false);
@@ -654,6 +818,8 @@ export default function CreateTrip() {
           <CardContent>
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <TripTemplatesBar onApply={applyTemplate} getCurrentData={getTemplateData} />
+
                 {/* Second row: Route type, Number of participants, Date, Time */}
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4 md:col-span-2">
                   <FormField
@@ -662,7 +828,7 @@ export default function CreateTrip() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>{t("pages:createTrip.form.routeType")}</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder={t("pages:createTrip.form.routeTypePlaceholder")} />
@@ -756,6 +922,8 @@ export default function CreateTrip() {
                                     e.stopPropagation();
                                     setDate(null);
                                     form.setValue("date", null);
+                                    setEndDate(null);
+                                    setRepeat("none");
                                     setDatePickerOpen(false);
                                   }}
                                   tabIndex={0}
@@ -773,6 +941,9 @@ export default function CreateTrip() {
                                   const iso = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
                                   setDate(iso);
                                   form.setValue("date", iso);
+                                  if (endDate && endDate < iso) {
+                                    setEndDate(null);
+                                  }
                                   setDatePickerOpen(false);
                                 }
                               }}
@@ -843,6 +1014,105 @@ export default function CreateTrip() {
                       </FormItem>
                   </div>
 
+                {/* Multi-day and repeating trips: end date, recurrence and day-by-day plan */}
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <FormItem>
+                      <FormLabel>{t("pages:createTrip.form.endDate")}</FormLabel>
+                      <Popover open={endDatePickerOpen} onOpenChange={setEndDatePickerOpen}>
+                        <PopoverTrigger asChild>
+                          <button
+                            type="button"
+                            className="w-full h-10 px-3 border border-input rounded-md bg-background text-sm text-gray-900 dark:text-white flex items-center justify-between focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                            aria-label={t("pages:createTrip.form.ariaEndDate")}
+                            disabled={!date}
+                            onClick={() => setEndDatePickerOpen(true)}
+                          >
+                            <span className={endDate ? "" : "text-black text-sm"}>
+                              {endDate
+                                ? format(new Date(endDate), "d MMMM yyyy", { locale: dateFnsLocale })
+                                : t("pages:createTrip.form.singleDay")}
+                            </span>
+                            {endDate && (
+                              <X
+                                className="h-4 w-4 ml-2 text-gray-400 hover:text-gray-700 dark:hover:text-white"
+                                onClick={e => {
+                                  e.stopPropagation();
+                                  setEndDate(null);
+                                  setEndDatePickerOpen(false);
+                                }}
+                                tabIndex={0}
+                                aria-label={t("pages:createTrip.form.clearEndDate")}
+                              />
+                            )}
+                          </button>
+                        </PopoverTrigger>
+                        <PopoverContent align="start" className="p-0.5 w-auto min-w-[140px] z-[9999] text-xs">
+                          <Calendar
+                            mode="single"
+                            selected={endDate ? new Date(endDate) : undefined}
+                            disabled={d => !!date && d < new Date(`${date}T00:00:00`)}
+                            onSelect={d => {
+                              if (d) {
+                                const iso = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+                                setEndDate(iso === date ? null : iso);
+                                setEndDatePickerOpen(false);
+                              }
+                            }}
+                            locale={dateFnsLocale}
+                            className="!gap-1 [&_.rdp-day]:h-6 [&_.rdp-day]:w-6 [&_.rdp-day]:text-xs"
+                          />
+                        </PopoverContent>
+                      </Popover>
+                    </FormItem>
+                    <FormItem>
+                      <FormLabel>{t("pages:createTrip.recurrence.label")}</FormLabel>
+                      <Select value={repeat} onValueChange={(value) => setRepeat(value as RepeatOption)} disabled={!date}>
+                        <SelectTrigger aria-label={t("pages:createTrip.recurrence.label")}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="z-[9999]">
+                          {REPEAT_OPTIONS.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {t(`pages:createTrip.recurrence.options.${option}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                    {date && repeat !== "none" && (
+                      <FormItem>
+                        <FormLabel>{t("pages:createTrip.recurrence.occurrences")}</FormLabel>
+                        <Select value={String(occurrences)} onValueChange={(value) => setOccurrences(Number(value))}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="z-[9999]">
+                            {OCCURRENCE_OPTIONS.map((option) => (
+                              <SelectItem key={option} value={String(option)}>
+                                {t("pages:createTrip.recurrence.times", { count: option })}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  </div>
+                  {date && dayCount > 1 && (
+                    <div className="space-y-2">
+                      <FormLabel>{t("pages:createTrip.itinerary.title", { count: dayCount })}</FormLabel>
+                      <ItineraryEditor
+                        date={date}
+                        dayCount={dayCount}
+                        routeLength={routePoints.length}
+                        itinerary={itinerary}
+                        onChange={setItinerary}
+                        dateLocale={dateFnsLocale}
+                      />
+                    </div>
+                  )}
+                </div>
+
                 {/* Participation checkbox and gender select */}
                 <div className="flex flex-col md:flex-row md:items-center gap-4 md:col-span-2">
                   <FormField
@@ -882,6 +1152,171 @@ export default function CreateTrip() {
                       </SelectContent>
                     </Select>
                   </FormItem>
+                  <FormItem className="w-full md:w-1/4">
+                    <FormLabel>{t("pages:createTrip.participation.ageLabel")}</FormLabel>
+                    <div className="flex items-center gap-2">
+                      <FormField
+                        control={form.control}
+                        name="minAge"
+                        render={({ field }) => (
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={120}
+                              placeholder={t("pages:createTrip.participation.ageFrom")}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                            />
+                          </FormControl>
+                        )}
+                      />
+                      <span className="text-gray-500">–</span>
+                      <FormField
+                        control={form.control}
+                        name="maxAge"
+                        render={({ field }) => (
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={120}
+                              placeholder={t("pages:createTrip.participation.ageTo")}
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                            />
+                          </FormControl>
+                        )}
+                      />
+                    </div>
+                  </FormItem>
+                  <FormField
+                    control={form.control}
+                    name="joinPolicy"
+                    render={({ field }) => (
+                      <FormItem className="w-full md:w-1/4">
+                        <FormLabel>{t("pages:createTrip.participation.joinPolicyLabel")}</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder={t("pages:createTrip.participation.joinPolicyLabel")} />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="manual">{t("pages:createTrip.participation.joinPolicy.manual")}</SelectItem>
+                            <SelectItem value="auto">{t("pages:createTrip.participation.joinPolicy.auto")}</SelectItem>
+                            <SelectItem value="invite_only">{t("pages:createTrip.participation.joinPolicy.invite_only")}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="maxNoShows"
+                    render={({ field }) => (
+                      <FormItem className="w-full md:w-1/4">
+                        <FormLabel>{t("pages:createTrip.participation.maxNoShowsLabel")}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            placeholder={t("pages:createTrip.participation.maxNoShowsPlaceholder")}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value))}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Cost per person */}
+                <div className="flex flex-col md:flex-row gap-4 md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="costType"
+                    render={({ field }) => (
+                      <FormItem className="w-full md:w-1/3">
+                        <FormLabel>{t("pages:createTrip.cost.typeLabel")}</FormLabel>
+                        <Select
+                          value={field.value ?? "none"}
+                          onValueChange={(value) => {
+                            field.onChange(value === "none" ? null : value);
+                            if (value === "split" || value === "fixed") {
+                              if (!form.getValues("costCurrency")) form.setValue("costCurrency", "UAH");
+                            } else {
+                              form.setValue("costPerPerson", null);
+                              form.setValue("costCurrency", null);
+                              setCostAmount("");
+                            }
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">{t("pages:createTrip.cost.type.none")}</SelectItem>
+                            <SelectItem value="free">{t("pages:createTrip.cost.type.free")}</SelectItem>
+                            <SelectItem value="split">{t("pages:createTrip.cost.type.split")}</SelectItem>
+                            <SelectItem value="fixed">{t("pages:createTrip.cost.type.fixed")}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  {(form.watch("costType") === "split" || form.watch("costType") === "fixed") && (
+                    <>
+                      <FormItem className="w-full md:w-1/3">
+                        <FormLabel>{t("pages:createTrip.cost.amountLabel")}</FormLabel>
+                        <FormControl>
+                          <Input
+                            inputMode="decimal"
+                            placeholder="15"
+                            value={costAmount}
+                            onChange={(e) => {
+                              setCostAmount(e.target.value);
+                              const amount = parseFloat(e.target.value.replace(",", "."));
+                              form.setValue("costPerPerson", amount > 0 ? Math.round(amount * 100) : null);
+                            }}
+                          />
+                        </FormControl>
+                      </FormItem>
+                      <FormField
+                        control={form.control}
+                        name="costCurrency"
+                        render={({ field }) => (
+                          <FormItem className="w-full md:w-1/3">
+                            <FormLabel>{t("pages:createTrip.cost.currencyLabel")}</FormLabel>
+                            <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {currencyCodes.map((code) => (
+                                  <SelectItem key={code} value={code}>
+                                    {code}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+                </div>
+
+                {/* Application questions */}
+                <div className="space-y-2 md:col-span-2">
+                  <FormLabel>{t("pages:createTrip.questions.title")}</FormLabel>
+                  <p className="text-sm text-muted-foreground">{t("pages:createTrip.questions.description")}</p>
+                  <TripQuestionsEditor questions={questions} onChange={setQuestions} />
                 </div>
 
                 {/* Route title and City */}
@@ -1017,14 +1452,37 @@ export default function CreateTrip() {
 
                 {/* Route map */}
                 <div className="md:col-span-2">
-                  <FormLabel className="text-base font-medium mb-4 block">
-                    {t("pages:createTrip.form.buildRoute")}
-                  </FormLabel>
+                  <div className="flex items-center justify-between gap-2 mb-4">
+                    <FormLabel className="text-base font-medium">
+                      {t("pages:createTrip.form.buildRoute")}
+                    </FormLabel>
+                    <input
+                      id="route-file-upload"
+                      type="file"
+                      accept=".gpx,.kml,.geojson,.json"
+                      onChange={handleRouteFileUpload}
+                      className="hidden"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={triggerRouteFileUpload}
+                      disabled={importRouteMutation.isPending}
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      {importRouteMutation.isPending
+                        ? t("pages:createTrip.routeFile.loading")
+                        : t("pages:createTrip.routeFile.button")}
+                    </Button>
+                  </div>
                   <div className="mb-4">
                     <RouteMap
                       center={selectedCity}
                       route={routePoints}
                       onRouteChange={handleRouteChange}
+                      waypoints={waypoints}
+                      onWaypointsChange={setWaypoints}
                       className="mb-4"
                     />
                   </div>
@@ -1145,6 +1603,14 @@ export default function CreateTrip() {
                       {t("pages:createTrip.buttons.cancel")}
                     </Button>
                   </Link>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={createTripMutation.isPending}
+                    onClick={form.handleSubmit((data) => onSubmit({ ...data, status: "draft" }))}
+                  >
+                    {t("pages:createTrip.buttons.saveDraft")}
+                  </Button>
                   <Button 
                     type="submit" 
                     disabled={createTripMutation.isPending}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { TripCard } from "@/components/trip-card";
+import { TripDetailModal } from "@/components/trip-detail-modal";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { enUS, ru as ruLocale } from "date-fns/locale";
+import { useTranslation } from "react-i18next";
+import { getRouteTypeIcon, resolveRouteTypeName } from "@/lib/routeTypes";
+
+const getInitials = (name: string) => name.split(' ').map(n => n[0]).join('').toUpperCase();
+
+// apiRequest errors look like "403: {\"message\": ...}"
+const getErrorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+};
+
+export default function Invite() {
+  const [, params] = useRoute("/invite/:token");
+  const token = params?.token ?? "";
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { t, i18n } = useTranslation(["pages", "common"]);
+  const resolvedLanguage = i18n.resolvedLanguage ?? i18n.language ?? "en";
+  const dateFnsLocale = resolvedLanguage.startsWith("ru") ? ruLocale : enUS;
+  const [tripModalOpen, setTripModalOpen] = useState(false);
+
+  const { data: invite, isLoading, error } = useQuery({
+    queryKey: ["/api/trips/invites", token],
+    queryFn: async () => {
+      const response = await fetch(`/api/trips/invites/${token}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || response.statusText);
+      }
+      return response.json();
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  const redeemMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/trips/invites/${token}/redeem`, {
+        method: "POST",
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title:
+          data.status === "waitlisted"
+            ? t("pages:invite.toasts.waitlistedTitle", { position: data.position })
+            : t("pages:invite.toasts.joinedTitle"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages/conversations2"] });
+      setLocation(`/trips/${data.tripId}`);
+    },
+    onError: (err: Error) => {
+      toast({
+        variant: "destructive",
+        title: t("pages:invite.toasts.errorTitle"),
+        description: getErrorMessage(err),
+      });
+    },
+  });
+
+  const handleLogin = () => {
+    sessionStorage.setItem("returnUrl", window.location.pathname);
+    setLocation("/auth");
+  };
+
+  const trip = invite?.trip;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <main className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t("pages:invite.title")}</h1>
+          <p className="text-gray-600 dark:text-gray-400">{t("pages:invite.subtitle")}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : error || !trip ? (
+          <Card>
+            <CardContent className="pt-6 flex gap-2 items-start">
+              <AlertCircle className="h-6 w-6 text-red-500 shrink-0" />
+              <p className="text-gray-600 dark:text-gray-300">
+                {(error as Error)?.message || t("pages:invite.invalid")}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <TripCard
+              trip={trip}
+              isFavorite={false}
+              typeName={resolveRouteTypeName(trip.type, t, i18n)}
+              TypeIcon={getRouteTypeIcon(trip.type)}
+              getInitials={getInitials}
+              onClick={() => setTripModalOpen(true)}
+              handleProfileClick={(e) => e.stopPropagation()}
+              organizerLabel={t("common:generic.organizer")}
+              noDateLabel={t("common:generic.anyDate")}
+              dateLocale={dateFnsLocale}
+            />
+            {invite.expiresAt && (
+              <p className="text-sm text-gray-500">
+                {t("pages:invite.expires", { date: format(new Date(invite.expiresAt), "d MMMM yyyy, HH:mm", { locale: dateFnsLocale }) })}
+              </p>
+            )}
+            {user ? (
+              <Button
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+                onClick={() => redeemMutation.mutate()}
+                disabled={redeemMutation.isPending}
+              >
+                {redeemMutation.isPending ? t("pages:invite.joining") : t("pages:invite.join")}
+              </Button>
+            ) : (
+              <Button className="w-full bg-blue-600 hover:bg-blue-700 text-white" onClick={handleLogin}>
+                {t("pages:invite.loginToJoin")}
+              </Button>
+            )}
+          </>
+        )}
+      </main>
+      {trip && tripModalOpen && (
+        <TripDetailModal tripId={trip.id} isOpen={tripModalOpen} onClose={() => setTripModalOpen(false)} />
+      )}
+    </div>
+  );
+}
@@ -25,8 +25,10 @@ import type {
   ChatConversation,
   ChatConversationBuckets,
   MessageWithUsers,
+  TripAnswer,
 } from "@shared/schema";
 import { TripCard } from "@/components/trip-card";
+import { JoinAnswersList } from "@/components/join-questions";
 import { MapPin, Users, User } from "lucide-react";
 import React from "react";
 import { enUS, ru as ruLocale } from "date-fns/locale";
@@ -237,7 +239,7 @@ export default function Messages() {
   // Get user's trips to identify trip requests
   const { data: userTrips = [] } = useQuery<any[]>({
     queryKey: ['/api/trips'],
-    queryFn: () => apiRequest('/api/trips').then(res => res.json()),
+    queryFn: () => apiRequest('/api/trips').then(res => res.json()).then((page) => page.items),
     enabled: !!user,
   });
 
@@ -378,11 +380,17 @@ export default function Messages() {
         method: "POST",
       });
     },
-    onSuccess: () => {
-      toast({
-        title: t("pages:messages.toasts.acceptSuccessTitle"),
-        description: t("pages:messages.toasts.acceptSuccessDescription"),
-      });
+    onSuccess: async (response) => {
+      const result = await response.json();
+      toast(result.status === "waitlisted"
+        ? {
+          title: t("pages:messages.toasts.waitlistedTitle"),
+          description: t("pages:messages.toasts.waitlistedDescription", { position: result.position }),
+        }
+        : {
+          title: t("pages:messages.toasts.acceptSuccessTitle"),
+          description: t("pages:messages.toasts.acceptSuccessDescription"),
+        });
       // Update messages in current chat
       queryClient.invalidateQueries({ queryKey: [`/api/messages2/${selectedChatId}`] });
       // Update chat list
@@ -432,11 +440,16 @@ export default function Messages() {
 
   const handleAcceptRequest = async (tripId: string, userId: string) => {
     try {
-      await apiRequest(`/api/trips/${tripId}/accept/${userId}`, { method: 'POST' });
+      const response = await apiRequest(`/api/trips/${tripId}/accept/${userId}`, { method: 'POST' });
+      const result = await response.json();
       queryClient.invalidateQueries({ queryKey: [`/api/messages2/${selectedChatId}`] });
       // Update participant status
       queryClient.invalidateQueries({ queryKey: ["/api/trips/", tripId, "status", userId] });
-      toast({ title: t("pages:messages.toasts.acceptSuccessTitle"), description: t("pages:messages.toasts.acceptSuccessDescription") });
+      if (result.status === 'waitlisted') {
+        toast({ title: t("pages:messages.toasts.waitlistedTitle"), description: t("pages:messages.toasts.waitlistedDescription", { position: result.position }) });
+      } else {
+        toast({ title: t("pages:messages.toasts.acceptSuccessTitle"), description: t("pages:messages.toasts.acceptSuccessDescription") });
+      }
     } catch (err: any) {
       toast({ variant: 'destructive', title: t("pages:messages.toasts.sendErrorTitle"), description: err.message || t("pages:messages.toasts.acceptErrorDescription") });
     }
@@ -589,7 +602,7 @@ export default function Messages() {
         });
         if (!resp.ok) return null;
         const data = await resp.json();
-        return { tripId: pair.tripId, senderId: pair.senderId, status: data.status };
+        return { tripId: pair.tripId, senderId: pair.senderId, status: data.status, answers: data.answers as TripAnswer[] | null };
       },
     }))
   });
@@ -604,6 +617,18 @@ export default function Messages() {
     return map;
   }, [requestPairs, statusQueries]);
 
+  // Application answers by the same key, shown to the organizer next to the request
+  const answersMap = useMemo(() => {
+    const map: Record<string, TripAnswer[]> = {};
+    requestPairs.forEach((pair, i) => {
+      const answers = statusQueries[i]?.data?.answers;
+      if (answers && answers.length > 0) {
+        map[`${pair.tripId}-${pair.senderId}`] = answers;
+      }
+    });
+    return map;
+  }, [requestPairs, statusQueries]);
+
   // Show loading
   if (userLoading || conversationsLoading) {
     return (
@@ -861,6 +886,8 @@ export default function Messages() {
                                         const statusKey = `${trip.id}-${senderId}`;
                                         const currentStatus = statusMap[statusKey];
                                         const isDisabled = currentStatus === 'approved' || currentStatus === 'rejected';
+                                        // Waitlisted requests are approved automatically once a seat frees up
+                                        const isWaitlisted = currentStatus === 'waitlisted';
 
                                         return (
                                           <>
@@ -873,7 +900,7 @@ export default function Messages() {
                                             </Button>
                                             <Button
                                               className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
-                                              disabled={isDisabled}
+                                              disabled={isDisabled || isWaitlisted}
                                               onClick={() => handleAcceptRequest(trip.id, senderId)}
                                             >
                                               {t("common:buttons.accept")}
@@ -883,6 +910,11 @@ export default function Messages() {
                                       })()}
                                     </div>
                                   )}
+                                  {trip.creator.id === user?.id && answersMap[`${trip.id}-${senderId}`] && (
+                                    <div className="mb-2 rounded-md border p-3">
+                                      <JoinAnswersList answers={answersMap[`${trip.id}-${senderId}`]} />
+                                    </div>
+                                  )}
                                   {/* Regular message render below */}
                                   <div
                                     key={message.id}
@@ -14,7 +14,7 @@ import { queryClient } from "@/lib/queryClient";
 import { TripDetailModal } from "@/components/trip-detail-modal";
 import { FavoriteButton } from "@/components/favorite-button";
 import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
-import type { TripType } from "@shared/schema";
+import type { TripType, TripsPage } from "@shared/schema";
 import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
@@ -26,6 +26,7 @@ import {
   resolveRouteTypeDescription,
   resolveRouteTypeName,
 } from "@/lib/routeTypes";
+import { formatTripDates } from "@/lib/tripDates";
 
 const LIMIT = 12;
 
@@ -88,26 +89,25 @@ export default function MyRoutes() {
     isError,
   } = useInfiniteQuery({
     queryKey: ["/api/trips", searchCity, selectedType, dateFrom, dateTo, user?.id],
-    queryFn: async ({ pageParam = 0 }) => {
-      if (!user?.id) return [];
+    queryFn: async ({ pageParam }: { pageParam: string | null }): Promise<TripsPage> => {
+      if (!user?.id) return { items: [], next_cursor: null, total: 0 };
       const params = new URLSearchParams();
       if (searchCity) params.append("city", searchCity);
       if (selectedType && selectedType !== "all") params.append("type", selectedType);
       if (dateFrom && dateFrom !== "") params.append("date_from", dateFrom);
       if (dateTo && dateTo !== "") params.append("date_to", dateTo);
-      params.append("creatorId", user.id);
       params.append("limit", String(LIMIT));
-      params.append("offset", String(pageParam));
-      const response = await fetch(`/api/trips?${params.toString()}`);
+      if (pageParam) params.append("cursor", pageParam);
+      const token = localStorage.getItem("accessToken");
+      const response = await fetch(`/api/trips/mine?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
       if (!response.ok) throw new Error("Failed to load routes");
       return response.json();
     },
-    getNextPageParam: (lastPage, allPages) => {
-      if (!lastPage || lastPage.length < LIMIT) return undefined;
-      return allPages.flat().length;
-    },
+    getNextPageParam: (lastPage) => lastPage?.next_cursor ?? undefined,
     refetchOnWindowFocus: false,
-    initialPageParam: 0,
+    initialPageParam: null,
     enabled: !!user?.id,
   });
 
@@ -126,7 +126,7 @@ export default function MyRoutes() {
     refetch();
   }, [searchCity, selectedType, dateFrom, dateTo, user?.id, refetch]);
 
-  const trips = data?.pages?.flat() || [];
+  const trips = data?.pages?.flatMap((page) => page.items) || [];
 
   const { data: cityOptions = [], isLoading: citiesLoading } = useQuery({
     queryKey: ["/api/cities", cityInput],
@@ -501,6 +501,17 @@ export default function MyRoutes() {
                         <MapPin className="h-4 w-4" />
                         <span className="text-xs">{trip.city}</span>
                       </Badge>
+                      {trip.status && trip.status !== "published" && (
+                        <Badge variant="secondary" className="bg-white/90 backdrop-blur-sm px-2 py-1 rounded-md">
+                          <span className="text-xs">{t(`pages:myRoutes.status.${trip.status}`)}</span>
+                        </Badge>
+                      )}
+                      {/* Requests with their answers are reviewed in the trip modal */}
+                      {trip.status === "published" && trip.pendingRequestsCount > 0 && (
+                        <Badge className="bg-yellow-400 text-yellow-950 hover:bg-yellow-400 px-2 py-1 rounded-md">
+                          <span className="text-xs">{t("pages:myRoutes.pendingRequests", { count: trip.pendingRequestsCount })}</span>
+                        </Badge>
+                      )}
                     </div>
                   </div>
                   <CardContent className="pt-8 pb-4 flex flex-col min-h-[180px]">
@@ -519,7 +530,7 @@ export default function MyRoutes() {
                       )}
                     </div>
                     <div className="flex items-center justify-between text-sm text-gray-500 mt-auto">
-                      <span>{trip.date ? format(new Date(trip.date), "d MMMM yyyy", { locale: dateFnsLocale }) : genericAnyDate}</span>
+                      <span>{trip.date ? formatTripDates(trip.date, trip.endDate, dateFnsLocale) : genericAnyDate}</span>
                       <span>
                         <Users className="h-4 w-4 inline" /> {trip.participantsCount || 0}/{trip.maxParticipants}
                       </span>
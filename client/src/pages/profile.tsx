@@ -19,6 +19,7 @@ import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover
 import { useRef } from "react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useTranslation } from "react-i18next";
+import { CalendarFeedPanel } from "@/components/calendar-feed-panel";
 
 interface EditableFieldProps {
   label: string;
@@ -981,6 +982,12 @@ export default function Profile() {
             )}
           </CardContent>
         </Card>
+
+        {user && (
+          <div className="mt-8">
+            <CalendarFeedPanel />
+          </div>
+        )}
       </main>
     </div>
   );
@@ -5,8 +5,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { MapPin, Users, User, Search, Filter, X } from "lucide-react";
+import { MapPin, Users, User, Search, Filter, X, Route as RouteIcon, Wallet } from "lucide-react";
 import { Header } from "@/components/ui/header";
 import { Link, useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
@@ -15,7 +16,7 @@ import { TripDetailModal } from "@/components/trip-detail-modal";
 import { FavoriteButton } from "@/components/favorite-button";
 import { useRef, useEffect } from "react";
 import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
-import type { TripType } from "@shared/schema";
+import { currencyCodes, type TripType, type TripsPage } from "@shared/schema";
 import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
@@ -23,23 +24,55 @@ import { enUS, ru as ruLocale } from "date-fns/locale";
 import { UserProfileModal } from "@/components/user-profile-modal";
 import { useTranslation } from "react-i18next";
 import {
+  formatRouteMetrics,
   getRouteTypeIcon,
   resolveRouteTypeDescription,
   resolveRouteTypeName,
 } from "@/lib/routeTypes";
+import { formatTripDates } from "@/lib/tripDates";
+import { formatTripCost } from "@/lib/tripCost";
 
 const LIMIT = 40;
+const NEAR_RADIUS_OPTIONS = ["5", "10", "25", "50", "100"];
+// Route length ranges in km as "min-max"; an empty bound is open
+const DISTANCE_RANGE_OPTIONS = ["0-5", "5-20", "20-50", "50-"];
+// Upper bounds of the cost per person, in major units of the chosen currency
+const PRICE_MAX_OPTIONS = ["10", "25", "50", "100"];
+const SORT_OPTIONS = ["date", "created", "popularity", "seats_left", "distance"] as const;
+
+// Search headlines wrap matches in <mark>…</mark>; render them as React nodes instead of raw HTML
+const renderHighlighted = (text: string) =>
+  text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+    part.startsWith("<mark>") ? (
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 rounded-sm">
+        {part.slice(6, -7)}
+      </mark>
+    ) : (
+      part
+    ),
+  );
 
 export default function Trips() {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
   const { t, i18n } = useTranslation(["pages", "common"]);
   const [searchCity, setSearchCity] = useState("");
+  const [keywordInput, setKeywordInput] = useState("");
+  const [keyword, setKeyword] = useState("");
   const [selectedType, setSelectedType] = useState<string>("all");
   const [dateFrom, setDateFrom] = useState<string | null>("");
   const [dateTo, setDateTo] = useState<string | null>("");
   const [dateFromPickerOpen, setDateFromPickerOpen] = useState(false);
   const [dateToPickerOpen, setDateToPickerOpen] = useState(false);
+  const [forMe, setForMe] = useState(false);
+  const [hasSeats, setHasSeats] = useState(false);
+  const [nearRadius, setNearRadius] = useState<string>("any");
+  const [nearPoint, setNearPoint] = useState<{ lat: number; lng: number } | null>(null);
+  const [distanceRange, setDistanceRange] = useState<string>("any");
+  const [priceFilter, setPriceFilter] = useState<string>("any");
+  const [priceCurrency, setPriceCurrency] = useState<string>("EUR");
+  // "auto": relevance while searching, newest first otherwise
+  const [sort, setSort] = useState<string>("auto");
   const [cityInput, setCityInput] = useState("");
   const [cityDropdownOpen, setCityDropdownOpen] = useState(false);
   const cityInputRef = useRef<HTMLInputElement>(null);
@@ -92,27 +125,45 @@ export default function Trips() {
     isLoading,
     isError,
   } = useInfiniteQuery({
-    queryKey: ["/api/trips", searchCity, selectedType, dateFrom, dateTo],
-    queryFn: async ({ pageParam = 0 }) => {
+    queryKey: ["/api/trips", searchCity, selectedType, dateFrom, dateTo, forMe && !!user, hasSeats, nearRadius, nearPoint, distanceRange, priceFilter, priceCurrency, keyword, sort],
+    queryFn: async ({ pageParam }: { pageParam: string | null }): Promise<TripsPage> => {
       const params = new URLSearchParams();
+      if (keyword) params.append("q", keyword);
       if (searchCity) params.append("city", searchCity);
       if (selectedType && selectedType !== "all") params.append("type", selectedType);
       if (dateFrom && dateFrom !== "") params.append("date_from", dateFrom);
       if (dateTo && dateTo !== "") params.append("date_to", dateTo);
+      if (nearPoint && (nearRadius !== "any" || sort === "distance")) {
+        params.append("near", `${nearPoint.lat},${nearPoint.lng}`);
+        if (nearRadius !== "any") params.append("radius_km", nearRadius);
+      }
+      if (distanceRange !== "any") {
+        const [distanceMin, distanceMax] = distanceRange.split("-");
+        if (distanceMin) params.append("distance_min", distanceMin);
+        if (distanceMax) params.append("distance_max", distanceMax);
+      }
+      if (priceFilter === "free") {
+        params.append("free_only", "true");
+      } else if (priceFilter !== "any") {
+        params.append("price_max", priceFilter);
+        params.append("currency", priceCurrency);
+      }
+      if (hasSeats) params.append("has_seats", "true");
+      if (sort !== "auto") params.append("sort", sort);
+      const headers: Record<string, string> = {};
+      if (forMe && user) {
+        params.append("forMe", "true");
+        headers.Authorization = `Bearer ${localStorage.getItem("accessToken")}`;
+      }
       params.append("limit", String(LIMIT));
-      params.append("offset", String(pageParam));
-      const response = await fetch(`/api/trips?${params.toString()}`);
+      if (pageParam) params.append("cursor", pageParam);
+      const response = await fetch(`/api/trips?${params.toString()}`, { headers });
       if (!response.ok) throw new Error("Failed to load trips");
       return response.json();
     },
-    getNextPageParam: (lastPage, allPages) => {
-      // If server returned empty array — no more data
-      if (!lastPage || lastPage.length === 0) return undefined;
-      // Otherwise continue offsetting by total number of already loaded records
-      return allPages.flat().length;
-    },
+    getNextPageParam: (lastPage) => lastPage?.next_cursor ?? undefined,
     refetchOnWindowFocus: false,
-    initialPageParam: 0,
+    initialPageParam: null,
   });
 
   // IntersectionObserver for loading more
@@ -130,9 +181,53 @@ export default function Trips() {
   // Reset on filter change
   useEffect(() => {
     refetch();
-  }, [searchCity, selectedType, dateFrom, dateTo, refetch]);
+  }, [searchCity, selectedType, dateFrom, dateTo, forMe, hasSeats, nearRadius, nearPoint, distanceRange, priceFilter, priceCurrency, keyword, sort, refetch]);
 
-  const trips = data?.pages?.flat() || [];
+  // Don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setKeyword(keywordInput.trim()), 400);
+    return () => clearTimeout(timeout);
+  }, [keywordInput]);
+
+  // The radius filter and distance sort need the browser's position, asked for on first use
+  const withNearPoint = (apply: () => void) => {
+    if (nearPoint) {
+      apply();
+      return;
+    }
+    if (!navigator.geolocation) {
+      toast({ variant: "destructive", title: t("pages:trips.filters.locationUnavailable") });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setNearPoint({ lat: position.coords.latitude, lng: position.coords.longitude });
+        apply();
+      },
+      () => {
+        toast({ variant: "destructive", title: t("pages:trips.filters.locationUnavailable") });
+      },
+    );
+  };
+
+  const handleNearRadiusChange = (value: string) => {
+    if (value === "any") {
+      setNearRadius(value);
+      return;
+    }
+    withNearPoint(() => setNearRadius(value));
+  };
+
+  const handleSortChange = (value: string) => {
+    if (value === "distance") {
+      withNearPoint(() => setSort(value));
+      return;
+    }
+    setSort(value);
+  };
+
+  const trips = data?.pages?.flatMap((page) => page.items) || [];
+  const totalTrips = data?.pages?.[0]?.total;
 
   // Get cities with filtering
   const { data: cityOptions = [], isLoading: citiesLoading } = useQuery({
@@ -240,6 +335,16 @@ export default function Trips() {
             </p>
           </CardHeader>
           <CardContent>
+            <div className="relative mb-4">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={keywordInput}
+                onChange={e => setKeywordInput(e.target.value)}
+                placeholder={t("pages:trips.filters.keywordPlaceholder")}
+                aria-label={t("pages:trips.filters.keywordLabel")}
+                className="pl-9"
+              />
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -436,11 +541,18 @@ export default function Trips() {
               <div className="flex items-end">
                 <Button
                   onClick={() => {
+                    setKeywordInput("");
                     setSearchCity("");
                     setCityInput("");
                     setSelectedType("all");
                     setDateFrom("");
                     setDateTo("");
+                    setForMe(false);
+                    setHasSeats(false);
+                    setNearRadius("any");
+                    setDistanceRange("any");
+                    setPriceFilter("any");
+                    setSort("auto");
                   }}
                   variant="outline"
                   className="w-full"
@@ -450,6 +562,104 @@ export default function Trips() {
                 </Button>
               </div>
             </div>
+            <div className="flex flex-wrap items-center gap-4 mt-4">
+              <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <MapPin className="h-4 w-4" />
+                <Select value={nearRadius} onValueChange={handleNearRadiusChange}>
+                  <SelectTrigger className="w-48" aria-label={t("pages:trips.filters.nearLabel")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t("pages:trips.filters.nearAny")}</SelectItem>
+                    {NEAR_RADIUS_OPTIONS.map((radius) => (
+                      <SelectItem key={radius} value={radius}>
+                        {t("pages:trips.filters.nearWithin", { radius })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <RouteIcon className="h-4 w-4" />
+                <Select value={distanceRange} onValueChange={setDistanceRange}>
+                  <SelectTrigger className="w-48" aria-label={t("pages:trips.filters.distanceLabel")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t("pages:trips.filters.distanceAny")}</SelectItem>
+                    {DISTANCE_RANGE_OPTIONS.map((range) => {
+                      const [min, max] = range.split("-");
+                      return (
+                        <SelectItem key={range} value={range}>
+                          {max
+                            ? t("pages:trips.filters.distanceBetween", { min, max })
+                            : t("pages:trips.filters.distanceOver", { min })}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <Wallet className="h-4 w-4" />
+                <Select value={priceFilter} onValueChange={setPriceFilter}>
+                  <SelectTrigger className="w-48" aria-label={t("pages:trips.filters.priceLabel")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t("pages:trips.filters.priceAny")}</SelectItem>
+                    <SelectItem value="free">{t("pages:trips.filters.priceFree")}</SelectItem>
+                    {PRICE_MAX_OPTIONS.map((max) => (
+                      <SelectItem key={max} value={max}>
+                        {t("pages:trips.filters.priceUpTo", { max })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {priceFilter !== "any" && priceFilter !== "free" && (
+                  <Select value={priceCurrency} onValueChange={setPriceCurrency}>
+                    <SelectTrigger className="w-24" aria-label={t("pages:trips.filters.priceCurrency")}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {currencyCodes.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <Select value={sort} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-48" aria-label={t("pages:trips.sort.label")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">{t(keyword ? "pages:trips.sort.relevance" : "pages:trips.sort.created")}</SelectItem>
+                  {SORT_OPTIONS.filter((option) => keyword || option !== "created" || sort === "created").map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {t(`pages:trips.sort.${option}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {totalTrips !== undefined && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {t("pages:trips.status.total", { count: totalTrips })}
+                </span>
+              )}
+              {user && (
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <Checkbox checked={forMe} onCheckedChange={(checked) => setForMe(checked === true)} />
+                  {t("pages:trips.filters.forMe")}
+                </label>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <Checkbox checked={hasSeats} onCheckedChange={(checked) => setHasSeats(checked === true)} />
+                {t("pages:trips.filters.hasSeats")}
+              </label>
+            </div>
           </CardContent>
         </Card>
 
@@ -520,7 +730,10 @@ export default function Trips() {
                       </Badge>
                       <Badge variant="secondary" className="flex items-center space-x-1 bg-white/90 backdrop-blur-sm px-2 py-1 rounded-md">
                         <MapPin className="h-4 w-4" />
-                        <span className="text-xs">{trip.city}</span>
+                        <span className="text-xs">
+                          {trip.city}
+                          {trip.nearDistanceKm != null && ` · ${t("pages:trips.cards.distanceKm", { distance: trip.nearDistanceKm.toFixed(1) })}`}
+                        </span>
                       </Badge>
                     </div>
                     {/* Heart — top right corner, closer to corner */}
@@ -540,7 +753,9 @@ export default function Trips() {
                   <CardContent className="pt-8 pb-4 flex flex-col min-h-[180px]">
                     <div>
                       <div className="flex items-center justify-between mb-1">
-                        <CardTitle className="text-lg font-bold text-gray-900 dark:text-white line-clamp-1">{trip.title}</CardTitle>
+                        <CardTitle className="text-lg font-bold text-gray-900 dark:text-white line-clamp-1">
+                          {trip.searchHeadline ? renderHighlighted(trip.searchHeadline.title) : trip.title}
+                        </CardTitle>
                       </div>
                       <div className="flex items-center text-sm text-gray-500 mb-2 gap-2">
                         <User className="h-4 w-4 mr-1" />
@@ -548,11 +763,25 @@ export default function Trips() {
                         <span className="ml-1 text-xs text-gray-400">{organizerLabel}</span>
                       </div>
                       {trip.description && (
-                        <p className="text-gray-600 dark:text-gray-400 text-sm mb-2 line-clamp-2">{trip.description}</p>
+                        <p className="text-gray-600 dark:text-gray-400 text-sm mb-2 line-clamp-2">
+                          {trip.searchHeadline?.description ? renderHighlighted(trip.searchHeadline.description) : trip.description}
+                        </p>
+                      )}
+                      {trip.distanceKm != null && (
+                        <div className="flex items-center text-xs text-gray-500 mb-2 gap-1">
+                          <RouteIcon className="h-3 w-3" />
+                          <span>{formatRouteMetrics(trip.distanceKm, trip.estimatedMinutes, t)}</span>
+                        </div>
+                      )}
+                      {formatTripCost(trip, t, resolvedLanguage) && (
+                        <div className="flex items-center text-xs text-gray-500 mb-2 gap-1">
+                          <Wallet className="h-3 w-3" />
+                          <span>{formatTripCost(trip, t, resolvedLanguage)}</span>
+                        </div>
                       )}
                     </div>
                     <div className="flex items-center justify-between text-sm text-gray-500 mt-auto">
-                      <span>{trip.date ? format(new Date(trip.date), "d MMMM yyyy", { locale: dateFnsLocale }) : genericAnyDate}</span>
+                      <span>{trip.date ? formatTripDates(trip.date, trip.endDate, dateFnsLocale) : genericAnyDate}</span>
                       <span>
                         <Users className="h-4 w-4 inline" /> {trip.participantsCount || 0}/{trip.maxParticipants}
                       </span>
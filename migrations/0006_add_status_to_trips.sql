@@ -0,0 +1,6 @@
+-- Trip lifecycle: draft, published, cancelled, completed
+ALTER TABLE trips ADD COLUMN status text NOT NULL DEFAULT 'published';
+
+-- Trips whose date has already passed are considered completed
+UPDATE trips SET status = 'completed'
+WHERE date IS NOT NULL AND (date + coalesce(time, time '23:59:59')) < now();
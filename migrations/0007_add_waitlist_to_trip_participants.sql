@@ -0,0 +1,2 @@
+-- Waitlist queue position for participants accepted while the trip was full
+ALTER TABLE trip_participants ADD COLUMN waitlist_position integer;
@@ -0,0 +1,3 @@
+-- Join policy: manual (creator reviews requests), auto (instant approval), invite_only
+ALTER TABLE trips ADD COLUMN join_policy text NOT NULL DEFAULT 'manual'
+  CHECK (join_policy IN ('manual', 'auto', 'invite_only'));
@@ -0,0 +1,3 @@
+-- Optional participant age range
+ALTER TABLE trips ADD COLUMN min_age integer;
+ALTER TABLE trips ADD COLUMN max_age integer;
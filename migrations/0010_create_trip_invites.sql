@@ -0,0 +1,13 @@
+-- Invite links for joining a trip directly as an approved participant
+CREATE TABLE IF NOT EXISTS trip_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  expires_at timestamp,
+  max_uses integer,
+  uses_count integer NOT NULL DEFAULT 0,
+  revoked_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_trip_invites_trip_id ON trip_invites(trip_id);
@@ -0,0 +1,5 @@
+-- Index trip start coordinates for the near/bbox filters
+CREATE INDEX IF NOT EXISTS "IDX_trips_location" ON trips (
+  ((location->>'lat')::double precision),
+  ((location->>'lng')::double precision)
+);
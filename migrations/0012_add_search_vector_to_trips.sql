@@ -0,0 +1,8 @@
+-- Full-text search over trip title and description (English and Russian)
+ALTER TABLE trips ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('russian', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('russian', coalesce(description, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS "IDX_trips_search" ON trips USING gin (search_vector);
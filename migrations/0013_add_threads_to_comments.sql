@@ -0,0 +1,5 @@
+-- Threaded replies and edit tracking for trip comments
+ALTER TABLE comments ADD COLUMN parent_id uuid REFERENCES comments(id) ON DELETE CASCADE;
+ALTER TABLE comments ADD COLUMN updated_at timestamp;
+CREATE INDEX IF NOT EXISTS idx_comments_trip_id ON comments(trip_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON comments(parent_id);
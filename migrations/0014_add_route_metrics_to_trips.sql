@@ -0,0 +1,46 @@
+-- Route length and duration estimate, kept up to date by the API on every trip save
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS distance_km double precision;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS estimated_minutes integer;
+CREATE INDEX IF NOT EXISTS "IDX_trips_distance_km" ON trips (distance_km);
+
+-- Backfill existing routes: haversine sum over consecutive points
+WITH points AS (
+  SELECT
+    t.id,
+    (p.value->>'lat')::double precision AS lat,
+    (p.value->>'lng')::double precision AS lng,
+    lag((p.value->>'lat')::double precision) OVER w AS prev_lat,
+    lag((p.value->>'lng')::double precision) OVER w AS prev_lng
+  FROM trips t
+  CROSS JOIN LATERAL jsonb_array_elements(t.route) WITH ORDINALITY AS p(value, ord)
+  WHERE jsonb_typeof(t.route) = 'array' AND jsonb_array_length(t.route) >= 2
+  WINDOW w AS (PARTITION BY t.id ORDER BY p.ord)
+),
+lengths AS (
+  SELECT id, sum(
+    2 * 6371 * asin(least(1, sqrt(
+      power(sin(radians(lat - prev_lat) / 2), 2) +
+      cos(radians(prev_lat)) * cos(radians(lat)) * power(sin(radians(lng - prev_lng) / 2), 2)
+    )))
+  ) AS km
+  FROM points
+  WHERE prev_lat IS NOT NULL
+  GROUP BY id
+)
+UPDATE trips SET distance_km = round(lengths.km::numeric, 2)::double precision
+FROM lengths
+WHERE trips.id = lengths.id;
+
+-- Same speeds (km/h) as TRIP_TYPE_SPEEDS_KMH in server/utils/route-geometry.ts; unknown types walk at 4.5
+UPDATE trips SET estimated_minutes = greatest(1, round(trips.distance_km / coalesce((
+  SELECT speeds.kmh
+  FROM (VALUES
+    ('walk', 4.5), ('bike', 15), ('car', 45), ('scooter', 15), ('monowheel', 18),
+    ('motorcycle', 50), ('public_transport', 20), ('train', 70), ('plane', 650),
+    ('boat', 20), ('sea', 20), ('mountains', 3), ('sights', 3), ('fest', 4),
+    ('picnic', 4), ('camping', 4), ('party', 4), ('retreat', 4), ('pets', 4),
+    ('other', 4.5)
+  ) AS speeds(type, kmh)
+  WHERE speeds.type = trips.type
+), 4.5) * 60))
+WHERE trips.distance_km IS NOT NULL;
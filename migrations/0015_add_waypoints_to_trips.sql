@@ -0,0 +1,2 @@
+-- Named waypoints along the route: [{ name, note, time, kind, routeIndex }]
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS waypoints jsonb;
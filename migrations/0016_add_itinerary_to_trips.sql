@@ -0,0 +1,3 @@
+-- Multi-day trips: inclusive last day and a per-day itinerary
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS end_date date;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS itinerary jsonb;
@@ -0,0 +1,12 @@
+-- Repeating trips: a recurrence rule shared by occurrences that are trips of their own
+CREATE TABLE IF NOT EXISTS trip_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  frequency text NOT NULL,
+  interval integer NOT NULL DEFAULT 1,
+  count integer,
+  until date,
+  created_at timestamp DEFAULT now()
+);
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES trip_series(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "IDX_trips_series_id" ON trips (series_id);
@@ -0,0 +1,6 @@
+-- Secret per-user tokens for the iCalendar trip feed
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamp DEFAULT now()
+);
@@ -0,0 +1,13 @@
+-- Cloned trips remember their source and credit the original author
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS cloned_from_id uuid REFERENCES trips(id) ON DELETE SET NULL;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS original_creator_id uuid REFERENCES users(id) ON DELETE SET NULL;
+
+-- Personal trip templates
+CREATE TABLE IF NOT EXISTS trip_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  data jsonb NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_trip_templates_user_id ON trip_templates(user_id);
@@ -0,0 +1,12 @@
+-- Co-organizers share request handling and trip editing with the creator
+ALTER TABLE trip_participants ADD COLUMN IF NOT EXISTS co_organizer boolean NOT NULL DEFAULT false;
+
+-- Ownership transfer offered to a participant, pending their acceptance
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS pending_owner_id uuid REFERENCES users(id) ON DELETE SET NULL;
+
+-- Public chat roles follow the trip: owner for the creator, admin for co-organizers
+UPDATE chat_participants cp
+SET role = 'owner'
+FROM chats c
+JOIN trips t ON t.id = c.trip_id
+WHERE cp.chat_id = c.id AND c.type = 'public' AND cp.user_id = t.creator_id;
@@ -0,0 +1,10 @@
+-- Participants removed from a trip with a ban cannot apply again
+CREATE TABLE IF NOT EXISTS trip_bans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  banned_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reason text,
+  created_at timestamp DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_trip_bans_trip_user" ON trip_bans (trip_id, user_id);
@@ -0,0 +1,4 @@
+-- Questions the creator asks applicants, answered when joining
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS questions jsonb;
+
+ALTER TABLE trip_participants ADD COLUMN IF NOT EXISTS answers jsonb;
@@ -0,0 +1,14 @@
+-- Reviews members of a completed trip leave for each other, with one reply by the reviewed user
+CREATE TABLE IF NOT EXISTS trip_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  reviewer_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reviewee_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  text text,
+  reply text,
+  replied_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_trip_reviews_trip_pair" ON trip_reviews (trip_id, reviewer_id, reviewee_id);
+CREATE INDEX IF NOT EXISTS "IDX_trip_reviews_reviewee" ON trip_reviews (reviewee_id);
@@ -0,0 +1,5 @@
+-- Attendance marked by organizers or self check-in, and the no-show limit for applicants
+ALTER TABLE trip_participants ADD COLUMN IF NOT EXISTS attendance text;
+ALTER TABLE trip_participants ADD COLUMN IF NOT EXISTS checked_in_at timestamp;
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS max_no_shows integer;
@@ -0,0 +1,25 @@
+-- Shared trip costs and the payments members make to settle them; amounts in minor units
+CREATE TABLE IF NOT EXISTS trip_expenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  payer_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  currency text NOT NULL,
+  shared_with uuid[] NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS "IDX_trip_expenses_trip" ON trip_expenses (trip_id);
+
+CREATE TABLE IF NOT EXISTS trip_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  from_user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  to_user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  currency text NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS "IDX_trip_settlements_trip" ON trip_settlements (trip_id);
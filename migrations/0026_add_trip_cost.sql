@@ -0,0 +1,4 @@
+-- Optional price per person: cost type, amount in minor units and ISO 4217 currency
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS cost_type text;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS cost_per_person integer;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS cost_currency text;
@@ -0,0 +1,30 @@
+-- Per-trip packing lists: group gear claimed by one member, personal items ticked by each member
+CREATE TABLE IF NOT EXISTS trip_checklist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  kind text NOT NULL DEFAULT 'personal',
+  position integer NOT NULL DEFAULT 0,
+  claimed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  claimed_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS "IDX_trip_checklist_items_trip" ON trip_checklist_items (trip_id);
+
+CREATE TABLE IF NOT EXISTS trip_checklist_ticks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id uuid NOT NULL REFERENCES trip_checklist_items(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamp DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_trip_checklist_ticks_item_user" ON trip_checklist_ticks (item_id, user_id);
+
+-- Lists admins offer for every trip of a type
+CREATE TABLE IF NOT EXISTS checklist_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type_id text NOT NULL REFERENCES trip_types(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  items jsonb NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS "IDX_checklist_templates_type" ON checklist_templates (type_id);
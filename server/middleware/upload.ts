@@ -40,6 +40,30 @@ export const uploadAvatar = multer({
   },
 });
 
+// Route files are recognised by extension: browsers send GPX/KML with inconsistent mimetypes
+const routeFileFilter = (
+  req: any,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback,
+) => {
+  const allowedExtensions = [".gpx", ".kml", ".geojson", ".json"];
+  if (allowedExtensions.includes(path.extname(file.originalname || "").toLowerCase())) {
+    cb(null, true);
+    return;
+  }
+
+  cb(Object.assign(new Error("Only GPX, KML and GeoJSON files are allowed"), { status: 400 }));
+};
+
+export const uploadRouteFile = multer({
+  storage: memoryStorage,
+  fileFilter: routeFileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit for route files
+    files: 1,
+  },
+});
+
 // Thumbnail для аватара — работаем с буфером
 export async function createAvatarThumbnailBuffer(
   buffer: Buffer,
@@ -0,0 +1,144 @@
+import {
+    checklistTemplates,
+    tripChecklistItems,
+    tripChecklistTicks,
+    users,
+    type ChecklistTemplate,
+    type InsertChecklistItem,
+    type InsertChecklistTemplate,
+    type TripChecklistEntry,
+    type TripChecklistItem,
+} from "@shared/schema";
+import { db } from "../db";
+import { and, asc, count, eq, inArray, isNull, max, sql } from "drizzle-orm";
+
+export class ChecklistRepository {
+    // Items in list order, with who brings each group item and what the user already packed
+    async getTripChecklist(tripId: string, userId: string): Promise<TripChecklistEntry[]> {
+        const rows = await db
+            .select({
+                item: tripChecklistItems,
+                claimer: {
+                    id: users.id,
+                    name: users.name,
+                    avatarUrl: users.avatarUrl,
+                    avatarThumbnailUrl: users.avatarThumbnailUrl,
+                },
+            })
+            .from(tripChecklistItems)
+            .leftJoin(users, eq(tripChecklistItems.claimedBy, users.id))
+            .where(eq(tripChecklistItems.tripId, tripId))
+            .orderBy(asc(tripChecklistItems.position), asc(tripChecklistItems.createdAt));
+        if (rows.length === 0) return [];
+
+        const ticks = await db
+            .select({
+                itemId: tripChecklistTicks.itemId,
+                tickCount: count(),
+                ticked: sql<boolean>`bool_or(${tripChecklistTicks.userId} = ${userId})`,
+            })
+            .from(tripChecklistTicks)
+            .where(inArray(tripChecklistTicks.itemId, rows.map((row) => row.item.id)))
+            .groupBy(tripChecklistTicks.itemId);
+        const ticksByItem = new Map(ticks.map((tick) => [tick.itemId, tick]));
+
+        return rows.map(({ item, claimer }) => ({
+            ...item,
+            claimedByUser: claimer?.id ? claimer : null,
+            ticked: ticksByItem.get(item.id)?.ticked ?? false,
+            tickCount: Number(ticksByItem.get(item.id)?.tickCount ?? 0),
+        }));
+    }
+
+    async countTripChecklistItems(tripId: string): Promise<number> {
+        const [row] = await db
+            .select({ value: count() })
+            .from(tripChecklistItems)
+            .where(eq(tripChecklistItems.tripId, tripId));
+        return Number(row?.value ?? 0);
+    }
+
+    // Appended to the end of the list in the given order
+    async createTripChecklistItems(tripId: string, items: InsertChecklistItem[]): Promise<TripChecklistItem[]> {
+        if (items.length === 0) return [];
+        const [last] = await db
+            .select({ position: max(tripChecklistItems.position) })
+            .from(tripChecklistItems)
+            .where(eq(tripChecklistItems.tripId, tripId));
+        const start = (last?.position ?? -1) + 1;
+
+        return await db
+            .insert(tripChecklistItems)
+            .values(items.map((item, index) => ({ tripId, title: item.title, kind: item.kind, position: start + index })))
+            .returning();
+    }
+
+    async getTripChecklistItem(itemId: string): Promise<TripChecklistItem | undefined> {
+        const [item] = await db.select().from(tripChecklistItems).where(eq(tripChecklistItems.id, itemId));
+        return item;
+    }
+
+    async deleteTripChecklistItem(itemId: string): Promise<void> {
+        await db.delete(tripChecklistItems).where(eq(tripChecklistItems.id, itemId));
+    }
+
+    // Only an unclaimed item can be claimed, so two members cannot both take the tent
+    async claimTripChecklistItem(itemId: string, userId: string): Promise<boolean> {
+        const claimed = await db
+            .update(tripChecklistItems)
+            .set({ claimedBy: userId, claimedAt: new Date() })
+            .where(and(eq(tripChecklistItems.id, itemId), isNull(tripChecklistItems.claimedBy)))
+            .returning({ id: tripChecklistItems.id });
+        return claimed.length > 0;
+    }
+
+    // The tick belonged to whoever brought the item, so it goes with the claim
+    async unclaimTripChecklistItem(itemId: string): Promise<void> {
+        await db.transaction(async (tx) => {
+            await tx
+                .update(tripChecklistItems)
+                .set({ claimedBy: null, claimedAt: null })
+                .where(eq(tripChecklistItems.id, itemId));
+            await tx.delete(tripChecklistTicks).where(eq(tripChecklistTicks.itemId, itemId));
+        });
+    }
+
+    async setChecklistTick(itemId: string, userId: string, ticked: boolean): Promise<void> {
+        if (ticked) {
+            await db.insert(tripChecklistTicks).values({ itemId, userId }).onConflictDoNothing();
+        } else {
+            await db
+                .delete(tripChecklistTicks)
+                .where(and(eq(tripChecklistTicks.itemId, itemId), eq(tripChecklistTicks.userId, userId)));
+        }
+    }
+
+    async getChecklistTemplates(typeId: string): Promise<ChecklistTemplate[]> {
+        return await db
+            .select()
+            .from(checklistTemplates)
+            .where(eq(checklistTemplates.typeId, typeId))
+            .orderBy(asc(checklistTemplates.name));
+    }
+
+    async getChecklistTemplate(templateId: string): Promise<ChecklistTemplate | undefined> {
+        const [template] = await db.select().from(checklistTemplates).where(eq(checklistTemplates.id, templateId));
+        return template;
+    }
+
+    async createChecklistTemplate(template: InsertChecklistTemplate): Promise<ChecklistTemplate> {
+        const [created] = await db
+            .insert(checklistTemplates)
+            .values({ typeId: template.typeId, name: template.name, items: template.items })
+            .returning();
+        return created;
+    }
+
+    async deleteChecklistTemplate(templateId: string): Promise<boolean> {
+        const deleted = await db
+            .delete(checklistTemplates)
+            .where(eq(checklistTemplates.id, templateId))
+            .returning({ id: checklistTemplates.id });
+        return deleted.length > 0;
+    }
+}
@@ -0,0 +1,116 @@
+import {
+    tripExpenses,
+    tripSettlements,
+    users,
+    type InsertTripExpense,
+    type InsertTripSettlement,
+    type TripExpense,
+    type TripLedger,
+    type TripSettlement,
+} from "@shared/schema";
+import { db } from "../db";
+import { asc, eq, inArray } from "drizzle-orm";
+import { ExpenseUtils } from "../utils/expenses";
+
+export class ExpenseRepository {
+    // Entries oldest first, with balances and the settle-up plan computed from them
+    async getTripLedger(tripId: string): Promise<TripLedger> {
+        const expenses = await db
+            .select()
+            .from(tripExpenses)
+            .where(eq(tripExpenses.tripId, tripId))
+            .orderBy(asc(tripExpenses.createdAt), asc(tripExpenses.id));
+        const settlements = await db
+            .select()
+            .from(tripSettlements)
+            .where(eq(tripSettlements.tripId, tripId))
+            .orderBy(asc(tripSettlements.createdAt), asc(tripSettlements.id));
+
+        const userIds = new Set<string>();
+        for (const expense of expenses) {
+            userIds.add(expense.payerId);
+            expense.sharedWith.forEach((userId) => userIds.add(userId));
+        }
+        for (const settlement of settlements) {
+            userIds.add(settlement.fromUserId);
+            userIds.add(settlement.toUserId);
+        }
+        const ledgerUsers = userIds.size === 0
+            ? []
+            : await db
+                .select({
+                    id: users.id,
+                    name: users.name,
+                    avatarUrl: users.avatarUrl,
+                    avatarThumbnailUrl: users.avatarThumbnailUrl,
+                })
+                .from(users)
+                .where(inArray(users.id, Array.from(userIds)));
+
+        const balances = ExpenseUtils.computeBalances(expenses, settlements);
+        return {
+            expenses,
+            settlements,
+            users: ledgerUsers,
+            balances,
+            transfers: ExpenseUtils.settleUp(balances),
+        };
+    }
+
+    async createTripExpense(
+        tripId: string,
+        createdBy: string,
+        expense: InsertTripExpense & { payerId: string },
+    ): Promise<TripExpense> {
+        const [created] = await db
+            .insert(tripExpenses)
+            .values({
+                tripId,
+                createdBy,
+                payerId: expense.payerId,
+                description: expense.description,
+                amount: expense.amount,
+                currency: expense.currency,
+                sharedWith: expense.sharedWith,
+            })
+            .returning();
+        return created;
+    }
+
+    async getTripExpense(expenseId: string): Promise<TripExpense | undefined> {
+        const [expense] = await db.select().from(tripExpenses).where(eq(tripExpenses.id, expenseId));
+        return expense;
+    }
+
+    async deleteTripExpense(expenseId: string): Promise<void> {
+        await db.delete(tripExpenses).where(eq(tripExpenses.id, expenseId));
+    }
+
+    async createTripSettlement(
+        tripId: string,
+        createdBy: string,
+        settlement: InsertTripSettlement & { fromUserId: string },
+    ): Promise<TripSettlement> {
+        const [created] = await db
+            .insert(tripSettlements)
+            .values({
+                tripId,
+                createdBy,
+                fromUserId: settlement.fromUserId,
+                toUserId: settlement.toUserId,
+                amount: settlement.amount,
+                currency: settlement.currency,
+            })
+            .returning();
+        return created;
+    }
+
+    async getTripSettlement(settlementId: string): Promise<TripSettlement | undefined> {
+        const [settlement] = await db.select().from(tripSettlements).where(eq(tripSettlements.id, settlementId));
+        return settlement;
+    }
+
+    async deleteTripSettlement(settlementId: string): Promise<void> {
+        await db.delete(tripSettlements).where(eq(tripSettlements.id, settlementId));
+    }
+}
@@ -4,6 +4,7 @@ import {
     chatMessages,
     users,
     trips,
+    tripParticipants,
     type ChatConversation,
     type ChatConversationSource,
     type ChatConversationBuckets,
@@ -222,6 +223,25 @@ export class MessageRepository {
         }
     }
 
+    // Public chat roles mirror the trip: owner for the creator, admin for co-organizers
+    async syncTripChatRoles(tripId: string): Promise<void> {
+        await db.execute(sql`
+            UPDATE ${chatParticipants} cp
+            SET role = CASE
+                WHEN cp.user_id = t.creator_id THEN 'owner'
+                WHEN EXISTS (
+                    SELECT 1 FROM ${tripParticipants} tp
+                    WHERE tp.trip_id = t.id AND tp.user_id = cp.user_id
+                      AND tp.status = 'approved' AND tp.co_organizer
+                ) THEN 'admin'
+                ELSE 'member'
+            END
+            FROM ${chats} c
+            JOIN ${trips} t ON t.id = c.trip_id
+            WHERE cp.chat_id = c.id AND c.type = 'public' AND c.trip_id = ${tripId}
+        `);
+    }
+
     private mapConversationRow(row: any): ChatConversation {
         const isPublic = row.chat_type === 'public';
         const source: ChatConversationSource = isPublic
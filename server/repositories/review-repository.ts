@@ -0,0 +1,108 @@
+import {
+    tripReviews,
+    trips,
+    users,
+    type InsertTripReview,
+    type TripReview,
+    type TripReviewWithUsers,
+    type UserRating,
+} from "@shared/schema";
+import { db } from "../db";
+import { alias } from "drizzle-orm/pg-core";
+import { and, desc, eq, getTableColumns, isNull, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+
+// Rating aggregates of the user in `userId` as correlated subqueries, usable in any select
+export function ratingColumns(userId: AnyPgColumn) {
+    return {
+        ratingAverage: sql<number | null>`(select round(avg(${tripReviews.rating}), 2)::float8 from ${tripReviews} where ${tripReviews.revieweeId} = ${userId})`,
+        ratingCount: sql<number>`(select cast(count(*) as integer) from ${tripReviews} where ${tripReviews.revieweeId} = ${userId})`,
+    };
+}
+
+const reviewees = alias(users, "reviewees");
+
+// Review plus the reviewer, reviewee and trip shown next to it
+const reviewWithUsersColumns = {
+    ...getTableColumns(tripReviews),
+    reviewer: {
+        id: users.id,
+        name: users.name,
+        avatarUrl: users.avatarUrl,
+        avatarThumbnailUrl: users.avatarThumbnailUrl,
+    },
+    reviewee: {
+        id: reviewees.id,
+        name: reviewees.name,
+    },
+    trip: {
+        id: trips.id,
+        title: trips.title,
+    },
+};
+
+export class ReviewRepository {
+    async getUserRating(userId: string): Promise<UserRating> {
+        const [row] = await db
+            .select({
+                average: sql<number | null>`round(avg(${tripReviews.rating}), 2)::float8`,
+                count: sql<number>`cast(count(*) as integer)`,
+            })
+            .from(tripReviews)
+            .where(eq(tripReviews.revieweeId, userId));
+        return { average: row?.average ?? null, count: row?.count ?? 0 };
+    }
+
+    // Null when the reviewer already reviewed this user on this trip
+    async createTripReview(tripId: string, reviewerId: string, review: InsertTripReview): Promise<TripReview | null> {
+        const [created] = await db
+            .insert(tripReviews)
+            .values({
+                tripId,
+                reviewerId,
+                revieweeId: review.revieweeId,
+                rating: review.rating,
+                text: review.text || null,
+            })
+            .onConflictDoNothing()
+            .returning();
+        return created ?? null;
+    }
+
+    async getTripReview(reviewId: string): Promise<TripReview | undefined> {
+        const [review] = await db.select().from(tripReviews).where(eq(tripReviews.id, reviewId));
+        return review;
+    }
+
+    // Newest first
+    async getTripReviews(tripId: string): Promise<TripReviewWithUsers[]> {
+        return await this.selectReviews(eq(tripReviews.tripId, tripId));
+    }
+
+    // Reviews the user received, newest first
+    async getUserReviews(userId: string, limit = 50): Promise<TripReviewWithUsers[]> {
+        return await this.selectReviews(eq(tripReviews.revieweeId, userId), limit);
+    }
+
+    // Null when the review already has a reply
+    async replyToTripReview(reviewId: string, reply: string): Promise<TripReview | null> {
+        const [updated] = await db
+            .update(tripReviews)
+            .set({ reply, repliedAt: new Date() })
+            .where(and(eq(tripReviews.id, reviewId), isNull(tripReviews.reply)))
+            .returning();
+        return updated ?? null;
+    }
+
+    private async selectReviews(where: SQL, limit?: number): Promise<TripReviewWithUsers[]> {
+        const query = db
+            .select(reviewWithUsersColumns)
+            .from(tripReviews)
+            .innerJoin(users, eq(tripReviews.reviewerId, users.id))
+            .innerJoin(reviewees, eq(tripReviews.revieweeId, reviewees.id))
+            .innerJoin(trips, eq(tripReviews.tripId, trips.id))
+            .where(where)
+            .orderBy(desc(tripReviews.createdAt), desc(tripReviews.id));
+        return limit ? await query.limit(limit) : await query;
+    }
+}
@@ -5,28 +5,355 @@ import {
     comments,
     favorites,
     tripTypes,
+    messages,
+    groupMessages,
+    chats,
+    chatParticipants,
+    chatMessages,
+    tripInvites,
+    tripSeries,
+    tripTemplates,
+    tripBans,
+    tripChecklistItems,
+    tripChecklistTicks,
     type Trip,
     type InsertTrip,
+    type UpdateTrip,
     type TripWithDetails,
     type TripFilters,
+    type TripSort,
+    type TripsPage,
+    encodeTripCursor,
     type UserProfile,
     type Comment,
     type InsertComment,
     type CommentWithUser,
+    type CommentsPage,
+    type CommentsQuery,
+    type UpdateComment,
+    encodeCommentCursor,
     type TripType,
+    type TripStatus,
+    type AcceptTripRequestResult,
+    type RedeemTripInviteResult,
+    type TripInvite,
+    type CreateTripInvite,
+    type ItineraryDay,
+    type TripSeriesWithOccurrences,
+    type TripTemplate,
+    type TripTemplateData,
+    type TripJoinRequest,
+    type TripAnswer,
+    type TripBanWithUser,
+    type TripAttendance,
+    CURRENCY_RATES_PER_EUR,
+    type AttendanceStatus,
 } from "@shared/schema";
+import { alias } from "drizzle-orm/pg-core";
+import crypto from "crypto";
 import { db } from "../db";
 import {
     eq,
     and,
+    or,
     gte,
     lte,
     desc,
     count,
     sql,
     asc,
+    isNull,
+    isNotNull,
+    ne,
+    lt,
+    max,
+    getTableColumns,
+    inArray,
+    arrayOverlaps,
+    type SQL,
 } from "drizzle-orm";
-import { UserRepository } from "./user-repository";
+import { UserRepository, noShowCountColumn } from "./user-repository";
+import { ratingColumns } from "./review-repository";
+import type { EligibilityProfile } from "../utils/eligibility";
+import { RouteGeometryUtils, type RouteMetrics } from "../utils/route-geometry";
+import { RecurrenceUtils } from "../utils/recurrence";
+
+// Per-trip aggregates as correlated subqueries, so list queries need no GROUP BY
+// and can filter and page on them in WHERE
+const approvedParticipantsCount = sql<number>`(select cast(count(*) as integer) from ${tripParticipants} where ${tripParticipants.tripId} = ${trips.id} and ${tripParticipants.status} = 'approved')`;
+const coOrganizerIds = sql<string[]>`(select coalesce(array_agg(${tripParticipants.userId}::text), '{}') from ${tripParticipants} where ${tripParticipants.tripId} = ${trips.id} and ${tripParticipants.status} = 'approved' and ${tripParticipants.coOrganizer})`;
+const pendingRequestsCount = sql<number>`(select cast(count(*) as integer) from ${tripParticipants} where ${tripParticipants.tripId} = ${trips.id} and ${tripParticipants.status} = 'pending')`;
+const creatorRating = ratingColumns(trips.creatorId);
+const favoritesCount = sql<number>`(select cast(count(*) as integer) from ${favorites} where ${favorites.tripId} = ${trips.id})`;
+
+// Trip columns exposed as `Trip` (everything but the full-text search vector)
+const { searchVector: _searchVector, ...tripColumns } = getTableColumns(trips);
+
+const originalCreators = alias(users, "original_creators");
+const originalCreatorName = sql<string | null>`(select ${originalCreators.name} from ${originalCreators} where ${originalCreators.id} = ${trips.originalCreatorId})`;
+
+// Columns selected for every TripWithDetails query: the trip itself,
+// its creator and participant/favorite aggregates
+const tripDetailsColumns = {
+    ...tripColumns,
+    creatorName: users.name,
+    creatorEmail: users.email,
+    creatorAge: users.age,
+    creatorBio: users.bio,
+    creatorCity: users.city,
+    creatorPhone: users.phone,
+    creatorLanguages: users.languages,
+    creatorMessengers: users.messengers,
+    creatorAvatarUrl: users.avatarUrl,
+    creatorAvatarThumbnailUrl: users.avatarThumbnailUrl,
+    creatorAdditionalPhotos: users.additionalPhotos,
+    creatorRatingAverage: creatorRating.ratingAverage,
+    creatorRatingCount: creatorRating.ratingCount,
+    originalCreatorName,
+    coOrganizerIds,
+    participantsCount: approvedParticipantsCount,
+    pendingRequestsCount,
+    favoritesCount,
+};
+
+// Comment plus the author fields shown next to it
+const commentWithUserColumns = {
+    ...getTableColumns(comments),
+    user: {
+        id: users.id,
+        name: users.name,
+        avatarUrl: users.avatarUrl,
+        avatarThumbnailUrl: users.avatarThumbnailUrl,
+    },
+};
+
+// Trip start point, matching the IDX_trips_location expression index
+const tripLat = sql<number>`((${trips.location}->>'lat')::double precision)`;
+const tripLng = sql<number>`((${trips.location}->>'lng')::double precision)`;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+// Great-circle (haversine) distance in km from a point to the trip start
+function distanceFromPoint(point: { lat: number; lng: number }) {
+    const lat = sql`${point.lat}::double precision`;
+    const lng = sql`${point.lng}::double precision`;
+    return sql<number>`(2 * ${sql.raw(String(EARTH_RADIUS_KM))} * asin(sqrt(
+        power(sin(radians(${tripLat} - ${lat}) / 2), 2) +
+        cos(radians(${lat})) * cos(radians(${tripLat})) * power(sin(radians(${tripLng} - ${lng}) / 2), 2)
+    )))`;
+}
+
+// Matches the query in either language; websearch syntax supports "quotes", OR and -exclusions
+function searchQuery(q: string) {
+    return sql`(websearch_to_tsquery('english', ${q}) || websearch_to_tsquery('russian', ${q}))`;
+}
+
+// The russian configuration stems ASCII words with the English stemmer, so it highlights both languages
+const HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=8";
+
+type BoundingBox = { minLng: number; minLat: number; maxLng: number; maxLat: number };
+
+function withinBoundingBox(box: BoundingBox) {
+    const lngClause = box.minLng <= box.maxLng
+        ? and(gte(tripLng, box.minLng), lte(tripLng, box.maxLng))!
+        : or(gte(tripLng, box.minLng), lte(tripLng, box.maxLng))!;
+    return and(gte(tripLat, box.minLat), lte(tripLat, box.maxLat), lngClause)!;
+}
+
+// Box around the search circle so the index can narrow rows before the exact distance check
+function radiusBoundingBox(point: { lat: number; lng: number }, radiusKm: number): BoundingBox | null {
+    const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+    const cosLat = Math.cos((point.lat * Math.PI) / 180);
+    const lngDelta = cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE_LAT * cosLat) : 180;
+    if (latDelta >= 90 || lngDelta >= 180) return null;
+
+    const wrapLng = (lng: number) => ((lng + 540) % 360) - 180;
+    return {
+        minLat: Math.max(point.lat - latDelta, -90),
+        maxLat: Math.min(point.lat + latDelta, 90),
+        minLng: wrapLng(point.lng - lngDelta),
+        maxLng: wrapLng(point.lng + lngDelta),
+    };
+}
+
+type TripDetailsRow = Trip & {
+    creatorName: string;
+    creatorEmail: string;
+    creatorAge: number | null;
+    creatorBio: string | null;
+    creatorCity: string | null;
+    creatorPhone: string | null;
+    creatorLanguages: string[] | null;
+    creatorMessengers: Record<string, string> | null;
+    creatorAvatarUrl: string | null;
+    creatorAvatarThumbnailUrl: string | null;
+    creatorAdditionalPhotos: string[] | null;
+    creatorRatingAverage: number | null;
+    creatorRatingCount: number;
+    originalCreatorName: string | null;
+    coOrganizerIds: string[] | null;
+    participantsCount: number;
+    pendingRequestsCount: number;
+    favoritesCount: number;
+    nearDistanceKm?: number | null;
+    searchRank?: number | null;
+    searchHeadlineTitle?: string | null;
+    searchHeadlineDescription?: string | null;
+    sortKey?: string | null;
+};
+
+function mapTripDetailsRow(row: TripDetailsRow): TripWithDetails {
+    const {
+        creatorName,
+        creatorEmail,
+        creatorAge,
+        creatorBio,
+        creatorCity,
+        creatorPhone,
+        creatorLanguages,
+        creatorMessengers,
+        creatorAvatarUrl,
+        creatorAvatarThumbnailUrl,
+        creatorAdditionalPhotos,
+        creatorRatingAverage,
+        creatorRatingCount,
+        originalCreatorName,
+        coOrganizerIds,
+        participantsCount,
+        pendingRequestsCount,
+        favoritesCount,
+        nearDistanceKm,
+        searchRank,
+        searchHeadlineTitle,
+        searchHeadlineDescription,
+        sortKey: _sortKey,
+        ...trip
+    } = row;
+
+    return {
+        ...trip,
+        creator: {
+            id: trip.creatorId,
+            name: creatorName,
+            email: creatorEmail,
+            age: creatorAge,
+            bio: creatorBio,
+            city: creatorCity,
+            phone: creatorPhone,
+            languages: creatorLanguages,
+            messengers: creatorMessengers,
+            avatarUrl: creatorAvatarUrl,
+            avatarThumbnailUrl: creatorAvatarThumbnailUrl,
+            additionalPhotos: creatorAdditionalPhotos,
+            rating: { average: creatorRatingAverage ?? null, count: creatorRatingCount || 0 },
+        },
+        originalCreator:
+            trip.originalCreatorId && originalCreatorName
+                ? { id: trip.originalCreatorId, name: originalCreatorName }
+                : null,
+        coOrganizerIds: coOrganizerIds ?? [],
+        participantsCount: participantsCount || 0,
+        pendingRequestsCount: pendingRequestsCount || 0,
+        favoritesCount: favoritesCount || 0,
+        ...(nearDistanceKm != null
+            ? { nearDistanceKm: Math.round(nearDistanceKm * 100) / 100 }
+            : {}),
+        ...(searchRank != null
+            ? {
+                searchRank,
+                searchHeadline: {
+                    title: searchHeadlineTitle ?? trip.title,
+                    description: searchHeadlineDescription ?? "",
+                },
+            }
+            : {}),
+    };
+}
+
+// A trip is upcoming while its date + time (end of day when time is unset) is in the future
+const tripStartsAt = sql`(${trips.date} + coalesce(${trips.time}, time '23:59:59'))`;
+// Single-day trips are over once they start, multi-day trips at the end of their last day
+const tripEndsAt = sql`(case when ${trips.endDate} is null then ${tripStartsAt} else ${trips.endDate} + time '23:59:59' end)`;
+
+// Cost per person in euro cents, converted with the hand-maintained rates table
+const costInEurCents = sql`(${trips.costPerPerson} / case ${trips.costCurrency} ${sql.join(
+    Object.entries(CURRENCY_RATES_PER_EUR).map(([code, rate]) => sql`when ${code} then ${rate}::float8`),
+    sql` `,
+)} end)`;
+
+// Content and settings carried over by clones and templates
+function copyableTripFields(source: Trip): TripTemplateData {
+    return {
+        title: source.title,
+        description: source.description ?? undefined,
+        type: source.type,
+        city: source.city,
+        location: source.location,
+        route: source.route ?? undefined,
+        waypoints: source.waypoints ?? undefined,
+        itinerary: source.itinerary ?? undefined,
+        questions: source.questions ?? undefined,
+        time: source.time,
+        maxParticipants: source.maxParticipants,
+        mainPhotoUrl: source.mainPhotoUrl,
+        additionalPhotos: source.additionalPhotos,
+        participantGender: source.participantGender as TripTemplateData["participantGender"],
+        minAge: source.minAge,
+        maxAge: source.maxAge,
+        joinPolicy: source.joinPolicy,
+        maxNoShows: source.maxNoShows,
+        costType: source.costType,
+        costPerPerson: source.costPerPerson,
+        costCurrency: source.costCurrency,
+    };
+}
+
+// Fills in the length of each day's route segment
+function withDayDistances(
+    itinerary: ItineraryDay[] | null | undefined,
+    route: { lat: number; lng: number }[] | null | undefined,
+): ItineraryDay[] | null | undefined {
+    return itinerary?.map((day) => ({
+        ...day,
+        distanceKm:
+            route && day.routeStart != null && day.routeEnd != null
+                ? RouteGeometryUtils.segmentLengthKm(route, day.routeStart, day.routeEnd)
+                : null,
+    }));
+}
+
+// Orderings for trip lists; the row id breaks ties so keyset pages never overlap.
+// Keys are non-null so a cursor can always be compared against them
+function tripSortSpec(
+    sort: TripSort,
+    expressions: { nearDistance?: SQL<number>; searchRank?: SQL<number> },
+): { key: SQL; direction: "asc" | "desc"; type: string } {
+    switch (sort) {
+        case "date":
+            return { key: sql`coalesce(${tripStartsAt}, 'infinity'::timestamp)`, direction: "asc", type: "timestamp" };
+        case "popularity":
+            return { key: sql`(${approvedParticipantsCount} + ${favoritesCount})`, direction: "desc", type: "integer" };
+        case "seats_left":
+            return { key: sql`(${trips.maxParticipants} - ${approvedParticipantsCount})`, direction: "desc", type: "integer" };
+        case "distance":
+            return { key: expressions.nearDistance!, direction: "asc", type: "double precision" };
+        case "relevance":
+            return { key: expressions.searchRank!, direction: "desc", type: "real" };
+        case "created":
+        default:
+            return { key: sql`coalesce(${trips.createdAt}, 'epoch'::timestamp)`, direction: "desc", type: "timestamp" };
+    }
+}
+
+// Invite is usable: not revoked, not expired and not used up
+const inviteIsActive = and(
+    isNull(tripInvites.revokedAt),
+    or(isNull(tripInvites.expiresAt), sql`${tripInvites.expiresAt} > now()`),
+    or(isNull(tripInvites.maxUses), lt(tripInvites.usesCount, tripInvites.maxUses)),
+)!;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export class TripRepository {
     private userRepo: UserRepository;
@@ -35,45 +362,30 @@ export class TripRepository {
         this.userRepo = new UserRepository();
     }
 
-    async getTrips(filters?: TripFilters): Promise<TripWithDetails[]> {
-        let query = db
-            .select({
-                id: trips.id,
-                title: trips.title,
-                description: trips.description,
-                type: trips.type,
-                city: trips.city,
-                location: trips.location,
-                route: trips.route,
-                date: trips.date,
-                time: trips.time,
-                maxParticipants: trips.maxParticipants,
-                creatorId: trips.creatorId,
-                mainPhotoUrl: trips.mainPhotoUrl,
-                additionalPhotos: trips.additionalPhotos,
-                createdAt: trips.createdAt,
-                updatedAt: trips.updatedAt,
-                creatorName: users.name,
-                creatorEmail: users.email,
-                creatorAge: users.age,
-                creatorBio: users.bio,
-                creatorCity: users.city,
-                creatorPhone: users.phone,
-                creatorLanguages: users.languages,
-                creatorMessengers: users.messengers,
-                creatorAvatarUrl: users.avatarUrl,
-                creatorAvatarThumbnailUrl: users.avatarThumbnailUrl,
-                creatorAdditionalPhotos: users.additionalPhotos,
-                participantsCount: sql<number>`cast(count(case when ${tripParticipants.status} = 'approved' then 1 end) as integer)`,
-                favoritesCount: sql<number>`cast(count(distinct case when ${favorites.tripId} is not null then ${favorites.userId} end) as integer)`,
-            })
-            .from(trips)
-            .innerJoin(users, eq(trips.creatorId, users.id))
-            .leftJoin(tripParticipants, eq(trips.id, tripParticipants.tripId))
-            .leftJoin(favorites, eq(trips.id, favorites.tripId));
+    async getTrips(
+        filters?: TripFilters,
+        eligibleFor?: EligibilityProfile,
+    ): Promise<TripsPage> {
+        const nearDistance = filters?.near ? distanceFromPoint(filters.near) : undefined;
+        const search = filters?.q ? searchQuery(filters.q) : undefined;
+        const searchRank = search
+            ? sql<number>`ts_rank_cd(${trips.searchVector}, ${search})`
+            : undefined;
+        const sort = filters?.sort ?? (search ? "relevance" : "created");
+        const { key: sortKey, direction, type: sortKeyType } = tripSortSpec(sort, { nearDistance, searchRank });
 
         // Filtering
         const whereClauses = [eq(users.status, "active")];
+
+        // By default only published trips that haven't started yet are listed, full ones
+        // included since their waitlist is still open
+        if (!filters?.status) {
+            whereClauses.push(eq(trips.status, "published"));
+            whereClauses.push(or(isNull(trips.date), sql`${tripStartsAt} >= now()`)!);
+        } else if (filters.status !== "any") {
+            whereClauses.push(eq(trips.status, filters.status));
+        }
+
         if (filters) {
             if (filters.city) {
                 whereClauses.push(eq(trips.city, filters.city));
@@ -82,7 +394,7 @@ export class TripRepository {
                 whereClauses.push(eq(trips.type, filters.type));
             }
             if (filters.date_from) {
-                whereClauses.push(gte(trips.date, filters.date_from));
+                whereClauses.push(gte(sql`coalesce(${trips.endDate}, ${trips.date})`, filters.date_from));
             }
             if (filters.date_to) {
                 whereClauses.push(lte(trips.date, filters.date_to));
@@ -90,167 +402,170 @@ export class TripRepository {
             if (filters.creatorId) {
                 whereClauses.push(eq(trips.creatorId, filters.creatorId));
             }
-        }
-        if (whereClauses.length > 0) {
-            query = query.where(and(...whereClauses));
+            if (search) {
+                whereClauses.push(sql`${trips.searchVector} @@ ${search}`);
+            }
+            if (filters.bbox) {
+                whereClauses.push(withinBoundingBox(filters.bbox));
+            }
+            if (filters.near && filters.radius_km && nearDistance) {
+                const box = radiusBoundingBox(filters.near, filters.radius_km);
+                if (box) {
+                    whereClauses.push(withinBoundingBox(box));
+                }
+                whereClauses.push(sql`${nearDistance} <= ${filters.radius_km}`);
+            }
+            if (filters.distance_min !== undefined) {
+                whereClauses.push(gte(trips.distanceKm, filters.distance_min));
+            }
+            if (filters.distance_max !== undefined) {
+                whereClauses.push(lte(trips.distanceKm, filters.distance_max));
+            }
+            if (filters.free_only) {
+                whereClauses.push(eq(trips.costType, "free"));
+            }
+            if (filters.has_seats) {
+                whereClauses.push(sql`${approvedParticipantsCount} < ${trips.maxParticipants}`);
+            }
+            if (filters.price_max !== undefined) {
+                const maxInEurCents = (filters.price_max * 100) / CURRENCY_RATES_PER_EUR[filters.currency ?? "EUR"];
+                whereClauses.push(or(eq(trips.costType, "free"), sql`${costInEurCents} <= ${maxInEurCents}`)!);
+            }
         }
 
-        if (filters?.limit) {
-            query = query.limit(filters.limit);
+        // Hide trips whose gender or age restrictions exclude the viewer
+        if (filters?.forMe && eligibleFor) {
+            whereClauses.push(
+                eligibleFor.gender
+                    ? or(
+                        eq(trips.participantGender, "any"),
+                        eq(trips.participantGender, eligibleFor.gender),
+                    )!
+                    : eq(trips.participantGender, "any"),
+            );
+            if (eligibleFor.age == null) {
+                whereClauses.push(and(isNull(trips.minAge), isNull(trips.maxAge))!);
+            } else {
+                whereClauses.push(or(isNull(trips.minAge), lte(trips.minAge, eligibleFor.age))!);
+                whereClauses.push(or(isNull(trips.maxAge), gte(trips.maxAge, eligibleFor.age))!);
+            }
         }
-        if (filters?.offset) {
-            query = query.offset(filters.offset);
+
+        const [{ value: total }] = await db
+            .select({ value: count() })
+            .from(trips)
+            .innerJoin(users, eq(trips.creatorId, users.id))
+            .where(and(...whereClauses));
+
+        // Continue strictly after the last row of the previous page
+        const pageClauses = [...whereClauses];
+        if (filters?.cursor) {
+            const castKey = sql`cast(${filters.cursor.key} as ${sql.raw(sortKeyType)})`;
+            const castId = sql`cast(${filters.cursor.id} as uuid)`;
+            pageClauses.push(
+                direction === "asc"
+                    ? sql`(${sortKey}, ${trips.id}) > (${castKey}, ${castId})`
+                    : sql`(${sortKey}, ${trips.id}) < (${castKey}, ${castId})`,
+            );
         }
 
-        query = query
-            .groupBy(trips.id, users.id)
-            .having(
-                sql`cast(count(case when ${tripParticipants.status} = 'approved' then 1 end) as integer) < ${trips.maxParticipants}`,
+        let query = db
+            .select({
+                ...tripDetailsColumns,
+                nearDistanceKm: nearDistance ?? sql<number | null>`null`,
+                searchRank: searchRank ?? sql<number | null>`null`,
+                searchHeadlineTitle: search
+                    ? sql<string>`ts_headline('russian', ${trips.title}, ${search}, 'HighlightAll=true')`
+                    : sql<string | null>`null`,
+                searchHeadlineDescription: search
+                    ? sql<string>`ts_headline('russian', coalesce(${trips.description}, ''), ${search}, ${HEADLINE_OPTIONS})`
+                    : sql<string | null>`null`,
+                sortKey: sql<string>`(${sortKey})::text`,
+            })
+            .from(trips)
+            .innerJoin(users, eq(trips.creatorId, users.id))
+            .where(and(...pageClauses))
+            .orderBy(
+                direction === "asc" ? asc(sortKey) : desc(sortKey),
+                direction === "asc" ? asc(trips.id) : desc(trips.id),
             )
-            .orderBy(desc(trips.createdAt));
-
-        const result = await query;
-
-        return result.map((row) => ({
-            id: row.id,
-            title: row.title,
-            description: row.description,
-            type: row.type,
-            city: row.city,
-            location: row.location,
-            route: row.route,
-            date: row.date,
-            time: row.time,
-            maxParticipants: row.maxParticipants,
-            creatorId: row.creatorId,
-            mainPhotoUrl: row.mainPhotoUrl,
-            additionalPhotos: row.additionalPhotos,
-            createdAt: row.createdAt,
-            updatedAt: row.updatedAt,
-            creator: {
-                id: row.creatorId,
-                name: row.creatorName,
-                email: row.creatorEmail,
-                age: row.creatorAge,
-                bio: row.creatorBio,
-                city: row.creatorCity,
-                phone: row.creatorPhone,
-                languages: row.creatorLanguages,
-                messengers: row.creatorMessengers,
-                avatarUrl: row.creatorAvatarUrl,
-                avatarThumbnailUrl: row.creatorAvatarThumbnailUrl,
-                additionalPhotos: row.creatorAdditionalPhotos,
-            },
-            participantsCount: row.participantsCount || 0,
-            favoritesCount: row.favoritesCount || 0,
-        }));
+            .$dynamic();
+
+        // One extra row tells whether another page follows
+        if (filters?.limit) {
+            query = query.limit(filters.limit + 1);
+        }
+
+        const rows = await query;
+        const hasMore = !!filters?.limit && rows.length > filters.limit;
+        const pageRows = hasMore ? rows.slice(0, filters!.limit) : rows;
+        const last = pageRows[pageRows.length - 1];
+
+        return {
+            items: pageRows.map(mapTripDetailsRow),
+            next_cursor: hasMore && last
+                ? encodeTripCursor({ sort, key: last.sortKey, id: last.id })
+                : null,
+            total,
+        };
     }
 
     async getTripById(id: string): Promise<TripWithDetails | undefined> {
-        const result = await db
-            .select({
-                id: trips.id,
-                title: trips.title,
-                description: trips.description,
-                type: trips.type,
-                city: trips.city,
-                location: trips.location,
-                route: trips.route,
-                date: trips.date,
-                time: trips.time,
-                maxParticipants: trips.maxParticipants,
-                creatorId: trips.creatorId,
-                mainPhotoUrl: trips.mainPhotoUrl,
-                additionalPhotos: trips.additionalPhotos,
-                createdAt: trips.createdAt,
-                updatedAt: trips.updatedAt,
-                creatorName: users.name,
-                creatorEmail: users.email,
-                creatorAge: users.age,
-                creatorBio: users.bio,
-                creatorCity: users.city,
-                creatorPhone: users.phone,
-                creatorLanguages: users.languages,
-                creatorMessengers: users.messengers,
-                creatorAvatarUrl: users.avatarUrl,
-                creatorAvatarThumbnailUrl: users.avatarThumbnailUrl,
-                creatorAdditionalPhotos: users.additionalPhotos,
-                participantsCount: sql<number>`cast(count(case when ${tripParticipants.status} = 'approved' then 1 end) as integer)`,
-                favoritesCount: sql<number>`cast(count(distinct case when ${favorites.tripId} is not null then ${favorites.userId} end) as integer)`,
-            })
+        const [row] = await db
+            .select(tripDetailsColumns)
             .from(trips)
             .innerJoin(users, eq(trips.creatorId, users.id))
-            .leftJoin(tripParticipants, eq(trips.id, tripParticipants.tripId))
-            .leftJoin(favorites, eq(trips.id, favorites.tripId))
-            .where(and(eq(trips.id, id), eq(users.status, "active")))
-            .groupBy(
-                trips.id,
-                users.id,
-                users.name,
-                users.email,
-                users.age,
-                users.bio,
-                users.city,
-                users.phone,
-                users.languages,
-                users.messengers,
-                users.avatarUrl,
-                users.avatarThumbnailUrl,
-                users.additionalPhotos,
-            );
+            .where(and(eq(trips.id, id), eq(users.status, "active")));
 
-        const [row] = result;
         if (!row) return undefined;
 
-        return {
-            id: row.id,
-            title: row.title,
-            description: row.description,
-            type: row.type,
-            city: row.city,
-            location: row.location,
-            route: row.route,
-            date: row.date,
-            time: row.time,
-            maxParticipants: row.maxParticipants,
-            creatorId: row.creatorId,
-            mainPhotoUrl: row.mainPhotoUrl,
-            additionalPhotos: row.additionalPhotos,
-            createdAt: row.createdAt,
-            updatedAt: row.updatedAt,
-            creator: {
-                id: row.creatorId,
-                name: row.creatorName,
-                email: row.creatorEmail,
-                age: row.creatorAge,
-                bio: row.creatorBio,
-                city: row.creatorCity,
-                phone: row.creatorPhone,
-                languages: row.creatorLanguages,
-                messengers: row.creatorMessengers,
-                avatarUrl: row.creatorAvatarUrl,
-                avatarThumbnailUrl: row.creatorAvatarThumbnailUrl,
-                additionalPhotos: row.creatorAdditionalPhotos,
-            },
-            participantsCount: row.participantsCount || 0,
-            favoritesCount: row.favoritesCount || 0,
-        };
+        return mapTripDetailsRow(row);
     }
 
-    async createTrip(trip: InsertTrip, creatorId: string): Promise<Trip> {
-        // Exclude service field that doesn't exist in table
-        const { creatorParticipates = true, ...tripData } = trip as any;
+    // Other people's trips the user is approved for or applied to, in any lifecycle state, newest first
+    async getJoinedTrips(userId: string): Promise<TripWithDetails[]> {
+        // Aliased so the participant subqueries in the details columns
+        // do not correlate with the user's own row
+        const memberships = alias(tripParticipants, "memberships");
+        const rows = await db
+            .select(tripDetailsColumns)
+            .from(memberships)
+            .innerJoin(trips, eq(memberships.tripId, trips.id))
+            .innerJoin(users, eq(trips.creatorId, users.id))
+            .where(
+                and(
+                    eq(memberships.userId, userId),
+                    inArray(memberships.status, ["approved", "pending"]),
+                    ne(trips.creatorId, userId),
+                    eq(users.status, "active"),
+                ),
+            )
+            .orderBy(desc(trips.createdAt), desc(trips.id));
+
+        return rows.map(mapTripDetailsRow);
+    }
+
+    async createTrip(
+        trip: InsertTrip,
+        creatorId: string,
+        links: Partial<Pick<Trip, "seriesId" | "clonedFromId" | "originalCreatorId">> = {},
+    ): Promise<Trip> {
+        // Exclude service fields that don't exist in table
+        const { creatorParticipates = true, recurrence: _recurrence, ...tripData } = trip as any;
 
         // Create the route itself
         const [newTrip] = await db
             .insert(trips)
             .values({
                 ...tripData,
+                ...RouteGeometryUtils.computeMetrics(trip.type, trip.route),
+                itinerary: withDayDistances(trip.itinerary, trip.route) ?? null,
                 date: trip.date ?? null,
                 time: trip.time ?? null,
                 creatorId,
+                ...links,
             })
-            .returning();
+            .returning(tripColumns);
 
         // By default, consider that creator automatically participates in trip
         if (creatorParticipates) {
@@ -260,11 +575,263 @@ export class TripRepository {
         return newTrip;
     }
 
-    async joinTrip(tripId: string, userId: string): Promise<void> {
+    // One trip per start date, multi-day occurrences keep the length of the first one
+    async createTripSeries(trip: InsertTrip, creatorId: string, dates: string[]): Promise<Trip[]> {
+        const rule = trip.recurrence!;
+        const [series] = await db
+            .insert(tripSeries)
+            .values({
+                creatorId,
+                frequency: rule.frequency,
+                interval: rule.interval ?? 1,
+                count: rule.count ?? null,
+                until: rule.until ?? null,
+            })
+            .returning();
+
+        const occurrences: Trip[] = [];
+        for (const date of dates) {
+            const endDate = trip.endDate && trip.date ? RecurrenceUtils.shiftDate(trip.endDate, trip.date, date) : null;
+            occurrences.push(await this.createTrip({ ...trip, date, endDate }, creatorId, { seriesId: series.id }));
+        }
+        return occurrences;
+    }
+
+    // New draft with the source's content and settings; dates, series and participants are not copied
+    async cloneTrip(source: Trip, creatorId: string): Promise<Trip> {
+        const credited = source.creatorId !== creatorId || source.originalCreatorId != null;
+        return this.createTrip(
+            {
+                ...copyableTripFields(source),
+                date: null,
+                endDate: null,
+                status: "draft",
+                creatorParticipates: true,
+            } as InsertTrip,
+            creatorId,
+            {
+                clonedFromId: source.id,
+                originalCreatorId: credited ? source.originalCreatorId ?? source.creatorId : null,
+            },
+        );
+    }
+
+    async getTripTemplates(userId: string): Promise<TripTemplate[]> {
+        return await db
+            .select()
+            .from(tripTemplates)
+            .where(eq(tripTemplates.userId, userId))
+            .orderBy(desc(tripTemplates.createdAt));
+    }
+
+    async countTripTemplates(userId: string): Promise<number> {
+        const [row] = await db
+            .select({ total: count() })
+            .from(tripTemplates)
+            .where(eq(tripTemplates.userId, userId));
+        return row?.total ?? 0;
+    }
+
+    async createTripTemplate(userId: string, name: string, data: TripTemplateData): Promise<TripTemplate> {
+        const [template] = await db.insert(tripTemplates).values({ userId, name, data }).returning();
+        return template;
+    }
+
+    async createTripTemplateFromTrip(userId: string, name: string, source: Trip): Promise<TripTemplate> {
+        return this.createTripTemplate(userId, name, copyableTripFields(source));
+    }
+
+    async deleteTripTemplate(userId: string, templateId: string): Promise<TripTemplate | undefined> {
+        const [template] = await db
+            .delete(tripTemplates)
+            .where(and(eq(tripTemplates.id, templateId), eq(tripTemplates.userId, userId)))
+            .returning();
+        return template || undefined;
+    }
+
+    async getTripSeries(seriesId: string): Promise<TripSeriesWithOccurrences | undefined> {
+        const [series] = await db.select().from(tripSeries).where(eq(tripSeries.id, seriesId));
+        if (!series) return undefined;
+
+        const occurrences = await db
+            .select(tripColumns)
+            .from(trips)
+            .where(eq(trips.seriesId, seriesId))
+            .orderBy(asc(trips.date), asc(trips.createdAt));
+
+        return { ...series, occurrences };
+    }
+
+    // Occurrences a series-wide edit applies to: not started, not cancelled or completed
+    async getUpcomingSeriesTrips(seriesId: string): Promise<TripWithDetails[]> {
+        const rows = await db
+            .select(tripDetailsColumns)
+            .from(trips)
+            .innerJoin(users, eq(trips.creatorId, users.id))
+            .where(
+                and(
+                    eq(trips.seriesId, seriesId),
+                    inArray(trips.status, ["draft", "published"]),
+                    or(isNull(trips.date), sql`${tripStartsAt} > now()`),
+                ),
+            )
+            .orderBy(asc(trips.date));
+
+        return rows.map(mapTripDetailsRow);
+    }
+
+    // Occurrences, clones and templates share photo URLs, so objects are only deleted
+    // once nothing refers to them
+    async getPhotoUrlsInUse(urls: string[]): Promise<Set<string>> {
+        if (urls.length === 0) return new Set();
+
+        const tripRows = await db
+            .select({ mainPhotoUrl: trips.mainPhotoUrl, additionalPhotos: trips.additionalPhotos })
+            .from(trips)
+            .where(or(inArray(trips.mainPhotoUrl, urls), arrayOverlaps(trips.additionalPhotos, urls)));
+        const templateRows = await db
+            .select({ data: tripTemplates.data })
+            .from(tripTemplates)
+            .where(
+                or(
+                    inArray(sql`${tripTemplates.data}->>'mainPhotoUrl'`, urls),
+                    sql`${tripTemplates.data}->'additionalPhotos' ?| ${sql`array[${sql.join(urls.map((url) => sql`${url}`), sql`, `)}]::text[]`}`,
+                ),
+            );
+
+        const requested = new Set(urls);
+        return new Set(
+            [
+                ...tripRows,
+                ...templateRows.map((row) => ({
+                    mainPhotoUrl: row.data.mainPhotoUrl,
+                    additionalPhotos: row.data.additionalPhotos,
+                })),
+            ]
+                .flatMap((row) => [row.mainPhotoUrl, ...(row.additionalPhotos ?? [])])
+                .filter((url): url is string => !!url && requested.has(url)),
+        );
+    }
+
+    // Dated trips the user created or is approved for, from a month back on; drafts stay private
+    async getCalendarTrips(userId: string): Promise<Trip[]> {
+        return await db
+            .select(tripColumns)
+            .from(trips)
+            .where(
+                and(
+                    ne(trips.status, "draft"),
+                    isNotNull(trips.date),
+                    sql`coalesce(${trips.endDate}, ${trips.date}) >= current_date - 30`,
+                    or(
+                        eq(trips.creatorId, userId),
+                        inArray(
+                            trips.id,
+                            db
+                                .select({ tripId: tripParticipants.tripId })
+                                .from(tripParticipants)
+                                .where(
+                                    and(
+                                        eq(tripParticipants.userId, userId),
+                                        eq(tripParticipants.status, "approved"),
+                                    ),
+                                ),
+                        ),
+                    ),
+                ),
+            )
+            .orderBy(asc(trips.date));
+    }
+
+    async updateTrip(id: string, data: UpdateTrip): Promise<Trip | undefined> {
+        // Route metrics depend on the route and the trip type, day distances on the route
+        let metrics: RouteMetrics | undefined;
+        let itinerary: ItineraryDay[] | null | undefined;
+        if (data.route !== undefined || data.type !== undefined || data.itinerary !== undefined) {
+            const [current] = await db
+                .select({ type: trips.type, route: trips.route, itinerary: trips.itinerary })
+                .from(trips)
+                .where(eq(trips.id, id));
+            if (current) {
+                const route = data.route !== undefined ? data.route : current.route;
+                metrics = RouteGeometryUtils.computeMetrics(data.type ?? current.type, route);
+                itinerary = withDayDistances(
+                    data.itinerary !== undefined ? data.itinerary : current.itinerary,
+                    route,
+                );
+            }
+        }
+
+        const [updatedTrip] = await db
+            .update(trips)
+            .set({
+                ...data,
+                ...metrics,
+                ...(itinerary !== undefined ? { itinerary } : {}),
+                updatedAt: new Date(),
+            })
+            .where(eq(trips.id, id))
+            .returning(tripColumns);
+
+        return updatedTrip || undefined;
+    }
+
+    async deleteTrip(id: string): Promise<void> {
+        await db.transaction(async (tx) => {
+            // 1) Clean dependent tables
+            await tx.delete(tripParticipants).where(eq(tripParticipants.tripId, id));
+            await tx.delete(comments).where(eq(comments.tripId, id));
+            await tx.delete(favorites).where(eq(favorites.tripId, id));
+            await tx.delete(messages).where(eq(messages.tripId, id));
+            await tx.delete(groupMessages).where(eq(groupMessages.tripId, id));
+            await tx.delete(tripInvites).where(eq(tripInvites.tripId, id));
+
+            // 2) Remove trip chats (participants and messages cascade) and
+            // system/request messages left in private chats
+            await tx.delete(chatMessages).where(eq(chatMessages.tripId, id));
+            await tx.delete(chats).where(eq(chats.tripId, id));
+
+            // 3) Finally remove the trip itself
+            await tx.delete(trips).where(eq(trips.id, id));
+        });
+    }
+
+    async updateTripStatus(
+        id: string,
+        status: TripStatus,
+    ): Promise<Trip | undefined> {
+        const [updatedTrip] = await db
+            .update(trips)
+            .set({ status, updatedAt: new Date() })
+            .where(eq(trips.id, id))
+            .returning(tripColumns);
+
+        return updatedTrip || undefined;
+    }
+
+    // Mark published trips whose start has passed as completed
+    async completePastTrips(): Promise<number> {
+        const completed = await db
+            .update(trips)
+            .set({ status: "completed", updatedAt: new Date() })
+            .where(
+                and(
+                    eq(trips.status, "published"),
+                    sql`${trips.date} is not null`,
+                    sql`${tripEndsAt} < now()`,
+                ),
+            )
+            .returning({ id: trips.id });
+
+        return completed.length;
+    }
+
+    async joinTrip(tripId: string, userId: string, answers: TripAnswer[] = []): Promise<void> {
         await db.insert(tripParticipants).values({
             tripId,
             userId,
             status: "pending",
+            answers: answers.length > 0 ? answers : null,
         });
     }
 
@@ -294,6 +861,58 @@ export class TripRepository {
         return participant.length > 0 ? participant[0].status : null;
     }
 
+    async getJoinAnswers(tripId: string, userId: string): Promise<TripAnswer[] | null> {
+        const [participant] = await db
+            .select({ answers: tripParticipants.answers })
+            .from(tripParticipants)
+            .where(and(eq(tripParticipants.tripId, tripId), eq(tripParticipants.userId, userId)))
+            .limit(1);
+
+        return participant?.answers ?? null;
+    }
+
+    // Approved participants in the order they joined; the creator is not marked
+    async getTripAttendance(tripId: string): Promise<TripAttendance[]> {
+        return await db
+            .select({
+                id: users.id,
+                name: users.name,
+                avatarUrl: users.avatarUrl,
+                avatarThumbnailUrl: users.avatarThumbnailUrl,
+                attendance: tripParticipants.attendance,
+                checkedInAt: tripParticipants.checkedInAt,
+            })
+            .from(tripParticipants)
+            .innerJoin(users, eq(tripParticipants.userId, users.id))
+            .where(and(eq(tripParticipants.tripId, tripId), eq(tripParticipants.status, "approved")))
+            .orderBy(asc(tripParticipants.joinedAt));
+    }
+
+    // False when the user is not an approved participant. Self check-in stamps checkedInAt;
+    // an organizer marking "present" keeps an earlier stamp, any other mark drops it
+    async setAttendance(
+        tripId: string,
+        userId: string,
+        attendance: AttendanceStatus | null,
+        options: { checkIn?: boolean } = {},
+    ): Promise<boolean> {
+        const updated = await db
+            .update(tripParticipants)
+            .set({
+                attendance,
+                ...(options.checkIn ? { checkedInAt: new Date() } : attendance === "present" ? {} : { checkedInAt: null }),
+            })
+            .where(
+                and(
+                    eq(tripParticipants.tripId, tripId),
+                    eq(tripParticipants.userId, userId),
+                    eq(tripParticipants.status, "approved"),
+                ),
+            )
+            .returning({ id: tripParticipants.id });
+        return updated.length > 0;
+    }
+
     async leaveTrip(tripId: string, userId: string): Promise<void> {
         await db
             .delete(tripParticipants)
@@ -303,6 +922,31 @@ export class TripRepository {
                     eq(tripParticipants.userId, userId),
                 ),
             );
+        await this.withdrawOwnershipOffer(tripId, userId);
+        await this.releaseChecklist(tripId, userId);
+    }
+
+    // An ownership offer lapses once its recipient is no longer a participant
+    private async withdrawOwnershipOffer(tripId: string, userId: string): Promise<void> {
+        await db
+            .update(trips)
+            .set({ pendingOwnerId: null })
+            .where(and(eq(trips.id, tripId), eq(trips.pendingOwnerId, userId)));
+    }
+
+    // Group items a former member was bringing are up for grabs again; their ticks go too
+    private async releaseChecklist(tripId: string, userId: string): Promise<void> {
+        const tripItemIds = db
+            .select({ id: tripChecklistItems.id })
+            .from(tripChecklistItems)
+            .where(eq(tripChecklistItems.tripId, tripId));
+        await db
+            .update(tripChecklistItems)
+            .set({ claimedBy: null, claimedAt: null })
+            .where(and(eq(tripChecklistItems.tripId, tripId), eq(tripChecklistItems.claimedBy, userId)));
+        await db
+            .delete(tripChecklistTicks)
+            .where(and(eq(tripChecklistTicks.userId, userId), inArray(tripChecklistTicks.itemId, tripItemIds)));
     }
 
     async getTripParticipants(tripId: string): Promise<UserProfile[]> {
@@ -373,32 +1017,64 @@ export class TripRepository {
         return participant.length > 0;
     }
 
-    async getTripComments(tripId: string): Promise<CommentWithUser[]> {
-        const result = await db
-            .select({
-                id: comments.id,
-                tripId: comments.tripId,
-                userId: comments.userId,
-                text: comments.text,
-                createdAt: comments.createdAt,
-                user: {
-                    id: users.id,
-                    name: users.name,
-                },
-            })
+    // Top-level comments newest first, each with all of its replies
+    async getTripComments(tripId: string, options: CommentsQuery): Promise<CommentsPage> {
+        const topLevel = and(eq(comments.tripId, tripId), isNull(comments.parentId))!;
+        const createdAtKey = sql`coalesce(${comments.createdAt}, 'epoch'::timestamp)`;
+
+        const [{ value: total }] = await db
+            .select({ value: count() })
+            .from(comments)
+            .where(topLevel);
+
+        const pageClauses = [topLevel];
+        if (options.cursor) {
+            pageClauses.push(
+                sql`(${createdAtKey}, ${comments.id}) < (cast(${options.cursor.key} as timestamp), cast(${options.cursor.id} as uuid))`,
+            );
+        }
+
+        // One extra row tells whether another page follows
+        const rows = await db
+            .select({ ...commentWithUserColumns, sortKey: sql<string>`(${createdAtKey})::text` })
             .from(comments)
             .innerJoin(users, eq(comments.userId, users.id))
-            .where(eq(comments.tripId, tripId))
-            .orderBy(desc(comments.createdAt));
+            .where(and(...pageClauses))
+            .orderBy(desc(createdAtKey), desc(comments.id))
+            .limit(options.limit + 1);
+
+        const hasMore = rows.length > options.limit;
+        const pageRows = hasMore ? rows.slice(0, options.limit) : rows;
+        const last = pageRows[pageRows.length - 1];
+
+        const replies = pageRows.length > 0
+            ? await db
+                .select(commentWithUserColumns)
+                .from(comments)
+                .innerJoin(users, eq(comments.userId, users.id))
+                .where(inArray(comments.parentId, pageRows.map((row) => row.id)))
+                .orderBy(asc(comments.createdAt), asc(comments.id))
+            : [];
 
-        return result.map((row) => ({
-            id: row.id,
-            tripId: row.tripId,
-            userId: row.userId,
-            text: row.text,
-            createdAt: row.createdAt,
-            user: row.user!,
-        }));
+        return {
+            items: pageRows.map(({ sortKey: _sortKey, ...comment }) => ({
+                ...comment,
+                replies: replies.filter((reply) => reply.parentId === comment.id),
+            })),
+            next_cursor: hasMore && last
+                ? encodeCommentCursor({ key: last.sortKey, id: last.id })
+                : null,
+            total,
+        };
+    }
+
+    async getCommentById(id: string): Promise<CommentWithUser | undefined> {
+        const [comment] = await db
+            .select(commentWithUserColumns)
+            .from(comments)
+            .innerJoin(users, eq(comments.userId, users.id))
+            .where(eq(comments.id, id));
+        return comment;
     }
 
     async createComment(
@@ -410,11 +1086,29 @@ export class TripRepository {
                 tripId: comment.tripId,
                 text: comment.text,
                 userId: comment.userId,
+                parentId: comment.parentId ?? null,
             })
             .returning();
         return newComment;
     }
 
+    async updateComment(id: string, data: UpdateComment): Promise<Comment | undefined> {
+        const [updatedComment] = await db
+            .update(comments)
+            .set({ text: data.text, updatedAt: new Date() })
+            .where(eq(comments.id, id))
+            .returning();
+        return updatedComment;
+    }
+
+    // Replies go along with their parent
+    async deleteComment(id: string): Promise<void> {
+        await db.transaction(async (tx) => {
+            await tx.delete(comments).where(eq(comments.parentId, id));
+            await tx.delete(comments).where(eq(comments.id, id));
+        });
+    }
+
     async getTripTypes(): Promise<TripType[]> {
         return await db
             .select({
@@ -454,28 +1148,426 @@ export class TripRepository {
         }
     }
 
-    async acceptTripRequest(tripId: string, userId: string): Promise<void> {
-        await db
-            .update(tripParticipants)
-            .set({ status: "approved" })
+    // Approves the request if a seat is free, otherwise queues the user on the waitlist.
+    // The trip row is locked so concurrent accepts cannot overbook it.
+    async acceptTripRequest(
+        tripId: string,
+        userId: string,
+    ): Promise<AcceptTripRequestResult> {
+        return await db.transaction(async (tx) => {
+            const hasFreeSeat = await this.lockFreeSeat(tx, tripId, userId);
+            return await this.placeParticipant(tx, tripId, userId, hasFreeSeat);
+        });
+    }
+
+    // Joins through an invite in one transaction, so the use is only counted when the user gets in.
+    // Pending or waitlisted applicants are placed like an accepted request; newcomers need a free seat
+    async redeemTripInvite(
+        inviteId: string,
+        tripId: string,
+        userId: string,
+    ): Promise<RedeemTripInviteResult> {
+        return await db.transaction(async (tx) => {
+            const hasFreeSeat = await this.lockFreeSeat(tx, tripId, userId);
+            const [existing] = await tx
+                .select({ id: tripParticipants.id })
+                .from(tripParticipants)
+                .where(and(eq(tripParticipants.tripId, tripId), eq(tripParticipants.userId, userId)))
+                .limit(1);
+            if (!existing && !hasFreeSeat) {
+                return { status: "full" };
+            }
+
+            const consumed = await tx
+                .update(tripInvites)
+                .set({ usesCount: sql`${tripInvites.usesCount} + 1` })
+                .where(and(eq(tripInvites.id, inviteId), inviteIsActive))
+                .returning({ id: tripInvites.id });
+            if (consumed.length === 0) {
+                return { status: "invite_inactive" };
+            }
+
+            if (!existing) {
+                await tx.insert(tripParticipants).values({ tripId, userId, status: "approved" });
+                return { status: "approved" };
+            }
+            return await this.placeParticipant(tx, tripId, userId, hasFreeSeat);
+        });
+    }
+
+    // Locks the trip row so concurrent approvals wait for each other, then checks
+    // whether a seat is left besides the one the user may already hold
+    private async lockFreeSeat(tx: Transaction, tripId: string, userId: string): Promise<boolean> {
+        const [trip] = await tx
+            .select({ maxParticipants: trips.maxParticipants })
+            .from(trips)
+            .where(eq(trips.id, tripId))
+            .for("update");
+
+        const [{ value: approvedCount }] = await tx
+            .select({ value: count() })
+            .from(tripParticipants)
+            .where(
+                and(
+                    eq(tripParticipants.tripId, tripId),
+                    eq(tripParticipants.status, "approved"),
+                    ne(tripParticipants.userId, userId),
+                ),
+            );
+
+        return !trip || approvedCount < trip.maxParticipants;
+    }
+
+    // Approves an existing participant row, or keeps / gives it a place on the waitlist when the trip is full
+    private async placeParticipant(
+        tx: Transaction,
+        tripId: string,
+        userId: string,
+        hasFreeSeat: boolean,
+    ): Promise<AcceptTripRequestResult> {
+        const participantWhere = and(
+            eq(tripParticipants.tripId, tripId),
+            eq(tripParticipants.userId, userId),
+        );
+
+        if (hasFreeSeat) {
+            await tx
+                .update(tripParticipants)
+                .set({ status: "approved", waitlistPosition: null })
+                .where(participantWhere);
+            return { status: "approved" };
+        }
+
+        const [current] = await tx
+            .select({ waitlistPosition: tripParticipants.waitlistPosition })
+            .from(tripParticipants)
+            .where(participantWhere)
+            .limit(1);
+
+        let waitlistPosition = current?.waitlistPosition ?? null;
+        if (waitlistPosition === null) {
+            const [{ value: lastPosition }] = await tx
+                .select({ value: max(tripParticipants.waitlistPosition) })
+                .from(tripParticipants)
+                .where(eq(tripParticipants.tripId, tripId));
+            waitlistPosition = (lastPosition ?? 0) + 1;
+
+            await tx
+                .update(tripParticipants)
+                .set({ status: "waitlisted", waitlistPosition })
+                .where(participantWhere);
+        }
+
+        const [{ value: ahead }] = await tx
+            .select({ value: count() })
+            .from(tripParticipants)
+            .where(
+                and(
+                    eq(tripParticipants.tripId, tripId),
+                    eq(tripParticipants.status, "waitlisted"),
+                    lt(tripParticipants.waitlistPosition, waitlistPosition),
+                ),
+            );
+
+        return { status: "waitlisted", position: ahead + 1 };
+    }
+
+    // 1-based place in the trip's waitlist, or null if the user is not waitlisted
+    async getWaitlistPosition(
+        tripId: string,
+        userId: string,
+    ): Promise<number | null> {
+        const [entry] = await db
+            .select({ waitlistPosition: tripParticipants.waitlistPosition })
+            .from(tripParticipants)
             .where(
                 and(
                     eq(tripParticipants.tripId, tripId),
                     eq(tripParticipants.userId, userId),
+                    eq(tripParticipants.status, "waitlisted"),
+                    isNotNull(tripParticipants.waitlistPosition),
+                ),
+            )
+            .limit(1);
+        if (!entry) return null;
+
+        const [{ value: ahead }] = await db
+            .select({ value: count() })
+            .from(tripParticipants)
+            .where(
+                and(
+                    eq(tripParticipants.tripId, tripId),
+                    eq(tripParticipants.status, "waitlisted"),
+                    lt(tripParticipants.waitlistPosition, entry.waitlistPosition!),
                 ),
             );
+
+        return ahead + 1;
+    }
+
+    // Gives a free seat of a published trip to the first waitlisted user.
+    // Returns the promoted user's id, or null if there is no free seat or nobody is waiting.
+    async promoteFromWaitlist(tripId: string): Promise<string | null> {
+        return await db.transaction(async (tx) => {
+            const [trip] = await tx
+                .select({
+                    maxParticipants: trips.maxParticipants,
+                    status: trips.status,
+                })
+                .from(trips)
+                .where(eq(trips.id, tripId))
+                .for("update");
+            if (!trip || trip.status !== "published") return null;
+
+            const [{ value: approvedCount }] = await tx
+                .select({ value: count() })
+                .from(tripParticipants)
+                .where(
+                    and(
+                        eq(tripParticipants.tripId, tripId),
+                        eq(tripParticipants.status, "approved"),
+                    ),
+                );
+            if (approvedCount >= trip.maxParticipants) return null;
+
+            const [next] = await tx
+                .select({
+                    id: tripParticipants.id,
+                    userId: tripParticipants.userId,
+                })
+                .from(tripParticipants)
+                .where(
+                    and(
+                        eq(tripParticipants.tripId, tripId),
+                        eq(tripParticipants.status, "waitlisted"),
+                    ),
+                )
+                .orderBy(
+                    asc(tripParticipants.waitlistPosition),
+                    asc(tripParticipants.joinedAt),
+                )
+                .limit(1);
+            if (!next) return null;
+
+            await tx
+                .update(tripParticipants)
+                .set({ status: "approved", waitlistPosition: null })
+                .where(eq(tripParticipants.id, next.id));
+
+            return next.userId;
+        });
     }
 
     async rejectTripRequest(tripId: string, userId: string): Promise<void> {
         await db
             .update(tripParticipants)
-            .set({ status: "rejected" })
+            .set({ status: "rejected", waitlistPosition: null, coOrganizer: false })
             .where(
                 and(
                     eq(tripParticipants.tripId, tripId),
                     eq(tripParticipants.userId, userId),
                 ),
             );
+        await this.withdrawOwnershipOffer(tripId, userId);
+        await this.releaseChecklist(tripId, userId);
+    }
+
+    // Oldest requests first, the order they were sent in
+    async getPendingJoinRequests(tripId: string): Promise<TripJoinRequest[]> {
+        return await db
+            .select({
+                id: users.id,
+                name: users.name,
+                age: users.age,
+                city: users.city,
+                avatarUrl: users.avatarUrl,
+                avatarThumbnailUrl: users.avatarThumbnailUrl,
+                requestedAt: tripParticipants.joinedAt,
+                answers: tripParticipants.answers,
+                noShowCount: noShowCountColumn(users.id),
+            })
+            .from(tripParticipants)
+            .innerJoin(users, eq(tripParticipants.userId, users.id))
+            .where(and(eq(tripParticipants.tripId, tripId), eq(tripParticipants.status, "pending")))
+            .orderBy(asc(tripParticipants.joinedAt));
+    }
+
+    // Drops the user from the trip and its public chat; with `ban` they cannot apply again
+    async removeTripParticipant(
+        tripId: string,
+        userId: string,
+        options: { ban: boolean; reason?: string | null; bannedBy: string },
+    ): Promise<void> {
+        await db.transaction(async (tx) => {
+            await tx
+                .delete(tripParticipants)
+                .where(and(eq(tripParticipants.tripId, tripId), eq(tripParticipants.userId, userId)));
+            await tx
+                .update(trips)
+                .set({ pendingOwnerId: null })
+                .where(and(eq(trips.id, tripId), eq(trips.pendingOwnerId, userId)));
+            await tx
+                .delete(chatParticipants)
+                .where(
+                    and(
+                        eq(chatParticipants.userId, userId),
+                        inArray(
+                            chatParticipants.chatId,
+                            tx
+                                .select({ id: chats.id })
+                                .from(chats)
+                                .where(and(eq(chats.type, "public"), eq(chats.tripId, tripId))),
+                        ),
+                    ),
+                );
+
+            if (options.ban) {
+                await tx
+                    .insert(tripBans)
+                    .values({ tripId, userId, bannedBy: options.bannedBy, reason: options.reason ?? null })
+                    .onConflictDoNothing();
+            }
+        });
+        await this.releaseChecklist(tripId, userId);
+    }
+
+    async isBannedFromTrip(tripId: string, userId: string): Promise<boolean> {
+        const [ban] = await db
+            .select({ id: tripBans.id })
+            .from(tripBans)
+            .where(and(eq(tripBans.tripId, tripId), eq(tripBans.userId, userId)))
+            .limit(1);
+        return !!ban;
+    }
+
+    async getTripBans(tripId: string): Promise<TripBanWithUser[]> {
+        return await db
+            .select({
+                ...getTableColumns(tripBans),
+                user: {
+                    id: users.id,
+                    name: users.name,
+                    avatarUrl: users.avatarUrl,
+                    avatarThumbnailUrl: users.avatarThumbnailUrl,
+                },
+            })
+            .from(tripBans)
+            .innerJoin(users, eq(tripBans.userId, users.id))
+            .where(eq(tripBans.tripId, tripId))
+            .orderBy(desc(tripBans.createdAt));
+    }
+
+    async unbanFromTrip(tripId: string, userId: string): Promise<boolean> {
+        const removed = await db
+            .delete(tripBans)
+            .where(and(eq(tripBans.tripId, tripId), eq(tripBans.userId, userId)))
+            .returning({ id: tripBans.id });
+        return removed.length > 0;
+    }
+
+    // Only approved participants can be co-organizers; false when the user is not one
+    async setCoOrganizer(tripId: string, userId: string, coOrganizer: boolean): Promise<boolean> {
+        const updated = await db
+            .update(tripParticipants)
+            .set({ coOrganizer })
+            .where(
+                and(
+                    eq(tripParticipants.tripId, tripId),
+                    eq(tripParticipants.userId, userId),
+                    eq(tripParticipants.status, "approved"),
+                ),
+            )
+            .returning({ id: tripParticipants.id });
+        return updated.length > 0;
+    }
+
+    async setPendingOwner(tripId: string, userId: string | null): Promise<void> {
+        await db.update(trips).set({ pendingOwnerId: userId, updatedAt: new Date() }).where(eq(trips.id, tripId));
+    }
+
+    // Hands the trip to the pending owner; the previous owner stays on as a co-organizer
+    // if they take part in the trip. Returns false when the offer is no longer pending
+    async acceptOwnershipTransfer(tripId: string, userId: string): Promise<boolean> {
+        return await db.transaction(async (tx) => {
+            const [trip] = await tx
+                .select({ creatorId: trips.creatorId, pendingOwnerId: trips.pendingOwnerId })
+                .from(trips)
+                .where(eq(trips.id, tripId))
+                .for("update");
+            if (!trip || trip.pendingOwnerId !== userId) return false;
+
+            await tx
+                .update(trips)
+                .set({ creatorId: userId, pendingOwnerId: null, updatedAt: new Date() })
+                .where(eq(trips.id, tripId));
+            await tx
+                .update(tripParticipants)
+                .set({ coOrganizer: false })
+                .where(and(eq(tripParticipants.tripId, tripId), eq(tripParticipants.userId, userId)));
+            await tx
+                .update(tripParticipants)
+                .set({ coOrganizer: true })
+                .where(
+                    and(
+                        eq(tripParticipants.tripId, tripId),
+                        eq(tripParticipants.userId, trip.creatorId),
+                        eq(tripParticipants.status, "approved"),
+                    ),
+                );
+            return true;
+        });
+    }
+
+    async createTripInvite(
+        tripId: string,
+        createdBy: string,
+        options: CreateTripInvite,
+    ): Promise<TripInvite> {
+        const [invite] = await db
+            .insert(tripInvites)
+            .values({
+                tripId,
+                createdBy,
+                token: crypto.randomBytes(18).toString("base64url"),
+                expiresAt: options.expiresInHours
+                    ? new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000)
+                    : null,
+                maxUses: options.maxUses ?? null,
+            })
+            .returning();
+        return invite;
+    }
+
+    async getActiveTripInvites(tripId: string): Promise<TripInvite[]> {
+        return await db
+            .select()
+            .from(tripInvites)
+            .where(and(eq(tripInvites.tripId, tripId), inviteIsActive))
+            .orderBy(desc(tripInvites.createdAt));
+    }
+
+    async getTripInviteByToken(token: string): Promise<TripInvite | undefined> {
+        const [invite] = await db
+            .select()
+            .from(tripInvites)
+            .where(eq(tripInvites.token, token))
+            .limit(1);
+        return invite;
+    }
+
+    async revokeTripInvite(tripId: string, inviteId: string): Promise<boolean> {
+        const revoked = await db
+            .update(tripInvites)
+            .set({ revokedAt: new Date() })
+            .where(
+                and(
+                    eq(tripInvites.id, inviteId),
+                    eq(tripInvites.tripId, tripId),
+                    isNull(tripInvites.revokedAt),
+                ),
+            )
+            .returning({ id: tripInvites.id });
+        return revoked.length > 0;
     }
 
     async addToFavorites(tripId: string, userId: string): Promise<void> {
@@ -495,78 +1587,18 @@ export class TripRepository {
     }
 
     async getUserFavorites(userId: string): Promise<TripWithDetails[]> {
+        // Aliased so the favorites count subquery in the details columns
+        // does not correlate with the user's own row
+        const userFavorites = alias(favorites, "user_favorites");
         const result = await db
-            .select({
-                id: trips.id,
-                title: trips.title,
-                description: trips.description,
-                type: trips.type,
-                city: trips.city,
-                location: trips.location,
-                route: trips.route,
-                date: trips.date,
-                time: trips.time,
-                maxParticipants: trips.maxParticipants,
-                creatorId: trips.creatorId,
-                mainPhotoUrl: trips.mainPhotoUrl,
-                additionalPhotos: trips.additionalPhotos,
-                createdAt: trips.createdAt,
-                updatedAt: trips.updatedAt,
-                creatorName: users.name,
-                creatorEmail: users.email,
-                creatorAge: users.age,
-                creatorBio: users.bio,
-                creatorCity: users.city,
-                creatorPhone: users.phone,
-                creatorLanguages: users.languages,
-                creatorMessengers: users.messengers,
-                creatorAvatarUrl: users.avatarUrl,
-                creatorAvatarThumbnailUrl: users.avatarThumbnailUrl,
-                creatorAdditionalPhotos: users.additionalPhotos,
-                participantsCount: sql<number>`cast(count(case when ${tripParticipants.status} = 'approved' then 1 end) as integer)`,
-                favoritesCount: sql<number>`cast(count(distinct case when ${favorites.tripId} is not null then ${favorites.userId} end) as integer)`,
-            })
-            .from(favorites)
-            .innerJoin(trips, eq(favorites.tripId, trips.id))
+            .select(tripDetailsColumns)
+            .from(userFavorites)
+            .innerJoin(trips, eq(userFavorites.tripId, trips.id))
             .innerJoin(users, eq(trips.creatorId, users.id))
-            .leftJoin(tripParticipants, eq(trips.id, tripParticipants.tripId))
-            .where(eq(favorites.userId, userId))
-            .groupBy(trips.id, users.id, favorites.createdAt)
-            .orderBy(desc(favorites.createdAt));
-
-        return result.map((row) => ({
-            id: row.id,
-            title: row.title,
-            description: row.description,
-            type: row.type,
-            city: row.city,
-            location: row.location,
-            route: row.route,
-            date: row.date,
-            time: row.time,
-            maxParticipants: row.maxParticipants,
-            creatorId: row.creatorId,
-            mainPhotoUrl: row.mainPhotoUrl,
-            additionalPhotos: row.additionalPhotos,
-            createdAt: row.createdAt,
-            updatedAt: row.updatedAt,
-            creator: {
-                id: row.creatorId,
-                name: row.creatorName,
-                email: row.creatorEmail,
-                age: row.creatorAge,
-                bio: row.creatorBio,
-                city: row.creatorCity,
-                phone: row.creatorPhone,
-                languages: row.creatorLanguages,
-                messengers: row.creatorMessengers,
-                avatarUrl: row.creatorAvatarUrl,
-                avatarThumbnailUrl: row.creatorAvatarThumbnailUrl,
-                additionalPhotos: row.creatorAdditionalPhotos,
-            },
-            participantsCount: row.participantsCount || 0,
-            favoritesCount: row.favoritesCount || 0,
-        }));
+            .where(eq(userFavorites.userId, userId))
+            .orderBy(desc(userFavorites.createdAt));
+
+        return result.map(mapTripDetailsRow);
     }
 
     async isFavorite(tripId: string, userId: string): Promise<boolean> {
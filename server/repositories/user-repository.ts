@@ -5,13 +5,21 @@ import {
     comments,
     favorites,
     messages,
+    calendarFeeds,
     type User,
     type InsertUser,
     type UserProfile,
     type UpdateUserProfile,
 } from "@shared/schema";
+import crypto from "crypto";
 import { db } from "../db";
-import { eq, inArray, or } from "drizzle-orm";
+import { and, eq, inArray, or, sql } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+
+// Trips the user in `userId` was marked absent from, as a correlated subquery
+export function noShowCountColumn(userId: AnyPgColumn) {
+    return sql<number>`(select cast(count(*) as integer) from ${tripParticipants} where ${tripParticipants.userId} = ${userId} and ${tripParticipants.attendance} = 'no_show')`;
+}
 
 export class UserRepository {
     async getUser(id: string): Promise<User | undefined> {
@@ -97,6 +105,52 @@ export class UserRepository {
             .where(eq(users.id, userId));
     }
 
+    async getNoShowCount(userId: string): Promise<number> {
+        const [row] = await db
+            .select({ count: sql<number>`cast(count(*) as integer)` })
+            .from(tripParticipants)
+            .where(and(eq(tripParticipants.userId, userId), eq(tripParticipants.attendance, "no_show")));
+        return row?.count ?? 0;
+    }
+
+    // The feed token is created on first use
+    async getCalendarToken(userId: string): Promise<string> {
+        const [feed] = await db
+            .insert(calendarFeeds)
+            .values({ userId, token: newCalendarToken() })
+            .onConflictDoNothing({ target: calendarFeeds.userId })
+            .returning({ token: calendarFeeds.token });
+        if (feed) return feed.token;
+
+        const [existing] = await db
+            .select({ token: calendarFeeds.token })
+            .from(calendarFeeds)
+            .where(eq(calendarFeeds.userId, userId));
+        return existing.token;
+    }
+
+    // Invalidates the old feed URL
+    async rotateCalendarToken(userId: string): Promise<string> {
+        const token = newCalendarToken();
+        await db
+            .insert(calendarFeeds)
+            .values({ userId, token })
+            .onConflictDoUpdate({
+                target: calendarFeeds.userId,
+                set: { token, createdAt: new Date() },
+            });
+        return token;
+    }
+
+    async getUserIdByCalendarToken(token: string): Promise<string | undefined> {
+        const [feed] = await db
+            .select({ userId: calendarFeeds.userId })
+            .from(calendarFeeds)
+            .innerJoin(users, eq(calendarFeeds.userId, users.id))
+            .where(and(eq(calendarFeeds.token, token), eq(users.status, "active")));
+        return feed?.userId;
+    }
+
     async deleteUserCascade(userId: string): Promise<void> {
         await db.transaction(async (tx) => {
             // 1) Collect their routes
@@ -140,3 +194,7 @@ export class UserRepository {
         });
     }
 }
+
+function newCalendarToken(): string {
+    return crypto.randomBytes(24).toString("base64url");
+}
@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { ICalUtils } from "../utils/ical";
+
+const router = Router();
+
+// Personal trip feed; the token in the URL is the only credential, calendar apps can't send headers
+router.get("/:token.ics", async (req, res) => {
+    try {
+        const userId = await storage.getUserIdByCalendarToken(req.params.token);
+        if (!userId) {
+            return res.status(404).json({ message: "Calendar not found" });
+        }
+
+        const trips = await storage.getCalendarTrips(userId);
+        const origin = `${req.protocol}://${req.get("host")}`;
+        const body = ICalUtils.toCalendar(trips, {
+            name: "Wayzer trips",
+            tripUrl: (id) => `${origin}/trips/${id}`,
+        });
+
+        res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+        res.setHeader("Cache-Control", "private, max-age=300");
+        res.send(body);
+    } catch (error) {
+        console.error("Calendar feed error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+export default router;
@@ -7,11 +7,17 @@ import { PasswordUtils } from "../utils/password";
 import { requireAdmin } from "../middleware/admin";
 import { authenticateToken, type AuthenticatedRequest } from "../middleware/auth";
 import { JWTUtils } from "../utils/jwt";
+import { TripQuestionUtils } from "../utils/trip-questions";
+import { validateBody } from "../middleware/validation";
+import { joinTripSchema, insertChecklistTemplateSchema, type JoinTrip, type InsertChecklistTemplate } from "@shared/schema";
 // Import routers
 import authRouter from "./auth";
 import usersRouter from "./users";
-import tripsRouter from "./trips";
+import tripsRouter, { approveJoinRequest, fillSeatsFromWaitlist, canManageTrip, getJoinRejection } from "./trips";
 import messagesRouter, { connectedClients, messages2Router } from "./messages";
+import calendarRouter from "./calendar";
+
+const TRIP_COMPLETION_INTERVAL_MS = 5 * 60 * 1000;
 
 export async function registerRoutes(app: Express): Promise<Server> {
     // Create necessary columns/tables
@@ -38,12 +44,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Initialize trip types on startup
     await storage.initializeTripTypes();
 
+    // Complete trips whose date has passed, now and periodically
+    const completePastTrips = async () => {
+        try {
+            await storage.completePastTrips();
+        } catch (error) {
+            console.error("Complete past trips error:", error);
+        }
+    };
+    await completePastTrips();
+    setInterval(completePastTrips, TRIP_COMPLETION_INTERVAL_MS);
+
     // Mount routers
     app.use("/api/auth", authRouter);
     app.use("/api/users", usersRouter);
     app.use("/api/trips", tripsRouter);
     app.use("/api/messages", messagesRouter); // Note: messagesRouter handles /conversations2, /mark-read
     app.use("/api/messages2", messages2Router); // messages2Router handles POST /messages2 and GET /messages2/:chatId
+    app.use("/api/calendar", calendarRouter);
 
     // Legacy/Mixed routes that need to be properly refactored or moved later
 
@@ -58,10 +76,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
     });
 
+    // Checklist templates organizers can copy into trips of this type
+    app.get("/api/trip-types/:id/checklist-templates", async (req, res) => {
+        try {
+            const templates = await storage.getChecklistTemplates(req.params.id);
+            res.json(templates);
+        } catch (error) {
+            console.error("Get checklist templates error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    });
+
     // 🧭 Trip Routes (Legacy / Special)
     app.post(
         "/api/trips2/:id/join",
         authenticateToken,
+        validateBody(joinTripSchema as any),
         async (req: AuthenticatedRequest, res) => {
             try {
                 const tripId = req.params.id;
@@ -71,9 +101,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 const trip = await storage.getTripById(tripId);
                 if (!trip) return res.status(404).json({ message: "Trip not found" });
 
-                // Creator cannot join themselves
-                if (trip.creatorId === userId)
-                    return res.status(409).json({ message: "Cannot join your own trip" });
+                // Status, bans, restrictions and no-shows are checked the same way for invite links
+                const rejection = await getJoinRejection(trip, userId);
+                if (rejection)
+                    return res.status(rejection.status).json(rejection.body);
+
+                if (trip.joinPolicy === "invite_only")
+                    return res.status(403).json({ message: "This trip can only be joined by invitation" });
 
                 // Check status
                 const existingStatus = await storage.getUserTripStatus(tripId, userId);
@@ -86,8 +120,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
                         });
                 }
 
+                // Every application question needs an answer
+                const matched = TripQuestionUtils.matchAnswers(trip.questions, (req.body as JoinTrip).answers);
+                if ("message" in matched)
+                    return res.status(400).json(matched);
+
                 // Add participation request (pending)
-                await storage.joinTrip(tripId, userId);
+                await storage.joinTrip(tripId, userId, matched.answers);
+
+                // Open trips approve the request right away, as if the creator accepted it
+                if (trip.joinPolicy === "auto") {
+                    const result = await approveJoinRequest(trip, userId);
+                    if (result.status === "waitlisted") {
+                        return res.json({
+                            message: "Trip is full, request waitlisted",
+                            status: "waitlisted",
+                            position: result.position,
+                        });
+                    }
+                    return res.json({
+                        message: "Joined the trip",
+                        status: "approved",
+                    });
+                }
 
                 // No longer create any chats as part of join
                 return res.json({
@@ -109,9 +164,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         chatParticipants,
         chatMessages,
         users,
-        tripParticipants,
     } = await import("@shared/schema");
-    const { sendWS, sendConversationsUpdate, markChatAsReadForUser } = await import("./messages");
+    const {
+        sendWS,
+        sendConversationsUpdate,
+        markChatAsReadForUser,
+    } = await import("./messages");
     const { JWTUtils } = await import("../utils/jwt");
 
     type QueryResultLike<T> = T[] | { rows: T[] };
@@ -133,219 +191,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 const currentUserId = req.user!.userId;
                 const { tripId, userId } = req.params;
 
-                // Check if current user is the trip creator
+                // Check if current user organizes the trip
                 const trip = await storage.getTripById(tripId);
-                if (!trip || trip.creatorId !== currentUserId) {
+                if (!trip || !canManageTrip(trip, currentUserId)) {
                     res
                         .status(403)
-                        .json({ message: "Only trip creator can accept requests" });
+                        .json({ message: "Only trip organizers can accept requests" });
                     return;
                 }
-
-                // Get user information
-                const creator = await storage.getUser(currentUserId);
-                const participant = await storage.getUser(userId);
-
-                // Accept request
-                await storage.acceptTripRequest(tripId, userId);
-
-                // Update private chat status to active
-                const chatResAcc = await db.execute<{ id: string }>(sql`
-        SELECT c.id FROM chats c
-        JOIN chat_participants p1 ON p1.chat_id = c.id AND p1.user_id = ${currentUserId}
-        JOIN chat_participants p2 ON p2.chat_id = c.id AND p2.user_id = ${userId}
-        WHERE c.type = 'private'
-        LIMIT 1
-      `);
-                const chatRowsAcc: { id: string }[] = extractRows(chatResAcc as any);
-                if (chatRowsAcc.length > 0) {
-                    await db
-                        .update(chats)
-                        .set({ status: "active" })
-                        .where(eq(chats.id, chatRowsAcc[0].id));
+                if (trip.status !== "published") {
+                    res
+                        .status(409)
+                        .json({ message: "Trip is not open for joining", status: trip.status });
+                    return;
                 }
 
-                // Record system message in chat_messages (green)
-                if (chatRowsAcc.length > 0) {
-                    const chatId = chatRowsAcc[0].id;
-                    const [sysMsg] = await resolveReturning(
-                        db
-                            .insert(chatMessages)
-                            .values({
-                                chatId,
-                                senderId: null,
-                                text: "Request accepted",
-                                type: "green",
-                                tripId,
-                            })
-                            .returning(),
-                    );
-
-                    // Creator already knows about their action, mark chat as read for them
-                    await markChatAsReadForUser(chatId, currentUserId);
-
-                    // WS notification to participant who should see it as unread
-                    sendWS(userId, {
-                        type: "new_message",
-                        chatId,
-                        message: sysMsg,
+                // Accept request (or queue it when the trip is full)
+                const result = await approveJoinRequest(trip, userId);
+                if (result.status === "waitlisted") {
+                    return res.json({
+                        message: "Trip is full, request waitlisted",
+                        status: "waitlisted",
+                        position: result.position,
                     });
                 }
 
-                // If this is a group route (3+ participants), add message about route chat availability
-                if (trip.maxParticipants >= 3 && chatRowsAcc.length > 0) {
-                    const [chatAvailableMsg] = await resolveReturning(
-                        db
-                            .insert(chatMessages)
-                            .values({
-                                chatId: chatRowsAcc[0].id,
-                                senderId: null,
-                                text: "Trip chat is available",
-                                type: "yellow",
-                                tripId,
-                            })
-                            .returning(),
-                    );
-
-                    // WS notifications to both participants
-                    sendWS(userId, {
-                        type: "new_message",
-                        chatId: chatRowsAcc[0].id,
-                        message: chatAvailableMsg,
-                    });
-                    sendWS(currentUserId, {
-                        type: "new_message",
-                        chatId: chatRowsAcc[0].id,
-                        message: chatAvailableMsg,
-                    });
-                }
-
-                // If this is a group route (3+ participants)
-                if (trip.maxParticipants >= 3) {
-                    // Check if there's already a public chat for this route
-                    const existingPublicChat = await db
-                        .select({ id: chats.id })
-                        .from(chats)
-                        .where(and(eq(chats.type, "public"), eq(chats.tripId, tripId)))
-                        .limit(1);
-
-                    let publicChatId: string;
-                    const isNewChat = existingPublicChat.length === 0;
-
-                    if (isNewChat) {
-                        // Create new public chat for route
-                        const [newPublicChat] = await resolveReturning(
-                            db
-                                .insert(chats)
-                                .values({ type: "public", tripId, status: "active" })
-                                .returning(),
-                        );
-                        publicChatId = newPublicChat.id;
-                    } else {
-                        publicChatId = existingPublicChat[0].id;
-                    }
-
-                    // Get all approved route participants
-                    const participants = await storage.getTripParticipants(tripId);
-
-                    // Add all participants to public chat if not already there
-                    for (const participant of participants) {
-                        const existingParticipant = await db
-                            .select()
-                            .from(chatParticipants)
-                            .where(
-                                and(
-                                    eq(chatParticipants.chatId, publicChatId),
-                                    eq(chatParticipants.userId, participant.id),
-                                ),
-                            )
-                            .limit(1);
-
-                        if (existingParticipant.length === 0) {
-                            await db
-                                .insert(chatParticipants)
-                                .values({ chatId: publicChatId, userId: participant.id });
-                        }
-                    }
-
-                    // Add system messages to public chat
-                    if (isNewChat) {
-                        // If chat was just created, add two messages
-                        const [creatorMsg] = await resolveReturning(
-                            db
-                                .insert(chatMessages)
-                                .values({
-                                    chatId: publicChatId,
-                                    senderId: null,
-                                    text: `Route creator: ${creator?.name || "Unknown"}`,
-                                    type: "yellow",
-                                    tripId,
-                                })
-                                .returning(),
-                        );
-
-                        const [participantMsg] = await resolveReturning(
-                            db
-                                .insert(chatMessages)
-                                .values({
-                                    chatId: publicChatId,
-                                    senderId: null,
-                                    text: `Participant joined: ${participant?.name || "Unknown"}`,
-                                    type: "yellow",
-                                    tripId,
-                                })
-                                .returning(),
-                        );
-
-                        // WS notifications to all participants
-                        for (const p of participants) {
-                            sendWS(p.id, {
-                                type: "new_message",
-                                chatId: publicChatId,
-                                message: creatorMsg,
-                            });
-                            sendWS(p.id, {
-                                type: "new_message",
-                                chatId: publicChatId,
-                                message: participantMsg,
-                            });
-                        }
-                    } else {
-                        // If chat already exists, add only message about new participant
-                        const [participantMsg] = await resolveReturning(
-                            db
-                                .insert(chatMessages)
-                                .values({
-                                    chatId: publicChatId,
-                                    senderId: null,
-                                    text: `Participant joined: ${participant?.name || "Unknown"}`,
-                                    type: "yellow",
-                                    tripId,
-                                })
-                                .returning(),
-                        );
-
-                        // WS notifications to all participants
-                        for (const p of participants) {
-                            sendWS(p.id, {
-                                type: "new_message",
-                                chatId: publicChatId,
-                                message: participantMsg,
-                            });
-                        }
-                    }
-
-                    // Update chat lists for all participants
-                    for (const p of participants) {
-                        await sendConversationsUpdate(p.id);
-                    }
-                } else {
-                    // For regular route update lists only for creator and new participant
-                    await sendConversationsUpdate(userId);
-                    await sendConversationsUpdate(currentUserId);
-                }
-
-                res.json({ message: "Request accepted" });
+                res.json({ message: "Request accepted", status: "approved" });
             } catch (error) {
                 console.error("Accept trip request error:", error);
                 res.status(500).json({ message: "Internal server error" });
@@ -362,21 +233,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 const currentUserId = req.user!.userId;
                 const { tripId, userId } = req.params;
 
-                // Check if current user is the trip creator
+                // Check if current user organizes the trip
                 const trip = await storage.getTripById(tripId);
-                if (!trip || trip.creatorId !== currentUserId) {
+                if (!trip || !canManageTrip(trip, currentUserId)) {
                     res
                         .status(403)
-                        .json({ message: "Only trip creator can reject requests" });
+                        .json({ message: "Only trip organizers can reject requests" });
                     return;
                 }
 
+                const previousStatus = await storage.getUserTripStatus(tripId, userId);
                 await storage.rejectTripRequest(tripId, userId);
 
-                // Update private chat status to active
+                // Update private chat status to active; requests always go to the creator
                 const chatResRej = await db.execute<{ id: string }>(sql`
         SELECT c.id FROM chats c
-        JOIN chat_participants p1 ON p1.chat_id = c.id AND p1.user_id = ${currentUserId}
+        JOIN chat_participants p1 ON p1.chat_id = c.id AND p1.user_id = ${trip.creatorId}
         JOIN chat_participants p2 ON p2.chat_id = c.id AND p2.user_id = ${userId}
         WHERE c.type = 'private'
         LIMIT 1
@@ -415,7 +287,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
                 // Update chat list for both users
                 await sendConversationsUpdate(userId);
-                await sendConversationsUpdate(currentUserId);
+                await sendConversationsUpdate(trip.creatorId);
+
+                // Rejecting an approved participant frees a seat for the waitlist
+                if (previousStatus === "approved") {
+                    await fillSeatsFromWaitlist(tripId);
+                }
 
                 res.json({ message: "Request rejected" });
             } catch (error) {
@@ -504,18 +381,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         authenticateToken,
         async (req: AuthenticatedRequest, res) => {
             try {
-                const userId = req.user!.userId;
-                // Get ids of all routes where user is approved or pending participant
-                const tripIdsRows = await db
-                    .select({ tripId: tripParticipants.tripId, status: tripParticipants.status })
-                    .from(tripParticipants)
-                    .where(eq(tripParticipants.userId, userId));
-                const tripIds = tripIdsRows.map(r => r.tripId);
-                if (tripIds.length === 0) return res.json([]);
-                // Get the routes themselves
-                const trips = await storage.getTrips({});
-                // Keep only those where user is not creator and status is approved or pending
-                const myTrips = trips.filter(t => tripIdsRows.some(r => r.tripId === t.id && (r.status === 'approved' || r.status === 'pending')) && t.creatorId !== userId);
+                // Trips the user is approved for or applied to, their own excluded
+                const myTrips = await storage.getJoinedTrips(req.user!.userId);
                 res.json(myTrips);
             } catch (error) {
                 console.error('Get my-trips error:', error);
@@ -579,6 +446,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
     );
 
+    app.post(
+        "/api/admin/checklist-templates",
+        authenticateToken,
+        requireAdmin,
+        validateBody(insertChecklistTemplateSchema as any),
+        async (req: AuthenticatedRequest, res) => {
+            try {
+                const template = req.body as InsertChecklistTemplate;
+                const tripTypes = await storage.getTripTypes();
+                if (!tripTypes.some((type) => type.id === template.typeId)) {
+                    return res.status(400).json({ message: "Unknown trip type" });
+                }
+
+                const created = await storage.createChecklistTemplate(template);
+                res.status(201).json(created);
+            } catch (err) {
+                console.error("Admin create checklist template error:", err);
+                res.status(500).json({ message: "Internal server error" });
+            }
+        },
+    );
+
+    app.delete(
+        "/api/admin/checklist-templates/:templateId",
+        authenticateToken,
+        requireAdmin,
+        async (req: AuthenticatedRequest, res) => {
+            try {
+                if (!(await storage.deleteChecklistTemplate(req.params.templateId))) {
+                    return res.status(404).json({ message: "Checklist template not found" });
+                }
+                res.json({ message: "Checklist template deleted" });
+            } catch (err) {
+                console.error("Admin delete checklist template error:", err);
+                res.status(500).json({ message: "Internal server error" });
+            }
+        },
+    );
+
     app.patch(
         "/api/admin/users/:userId/status",
         authenticateToken,
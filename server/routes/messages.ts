@@ -57,6 +57,285 @@ const resolveReturning = async <T>(
     return extractRows(result);
 };
 
+// Record a system message in the trip's public chat (if it exists) and push it to chat members
+export async function sendTripChatSystemMessage(
+    tripId: string,
+    text: string,
+    type: "red" | "green" | "yellow" = "yellow",
+) {
+    const [publicChat] = await db
+        .select({ id: chats.id })
+        .from(chats)
+        .where(and(eq(chats.type, "public"), eq(chats.tripId, tripId)))
+        .limit(1);
+    if (!publicChat) return null;
+
+    const [sysMsg] = await resolveReturning(
+        db
+            .insert(chatMessages)
+            .values({
+                chatId: publicChat.id,
+                senderId: null,
+                text,
+                type,
+                tripId,
+            })
+            .returning(),
+    );
+
+    const members = await db
+        .select({ userId: chatParticipants.userId })
+        .from(chatParticipants)
+        .where(eq(chatParticipants.chatId, publicChat.id));
+
+    for (const member of members) {
+        sendWS(member.userId, {
+            type: "new_message",
+            chatId: publicChat.id,
+            message: sysMsg,
+        });
+    }
+
+    return sysMsg;
+}
+
+// Record a system message in the private chat between two users (if it exists)
+// and push it to the receiver; the sender's side is marked as read
+export async function sendPrivateChatSystemMessage(
+    fromUserId: string,
+    toUserId: string,
+    tripId: string,
+    text: string,
+    type: "red" | "green" | "yellow" = "yellow",
+) {
+    const chatRes = await db.execute<{ id: string }>(sql`
+      SELECT c.id FROM chats c
+      JOIN chat_participants p1 ON p1.chat_id = c.id AND p1.user_id = ${fromUserId}
+      JOIN chat_participants p2 ON p2.chat_id = c.id AND p2.user_id = ${toUserId}
+      WHERE c.type = 'private'
+      LIMIT 1
+    `);
+    const [chat] = extractRows<{ id: string }>(chatRes as any);
+    if (!chat) return null;
+
+    const [sysMsg] = await resolveReturning(
+        db
+            .insert(chatMessages)
+            .values({
+                chatId: chat.id,
+                senderId: null,
+                text,
+                type,
+                tripId,
+            })
+            .returning(),
+    );
+
+    await markChatAsReadForUser(chat.id, fromUserId);
+
+    sendWS(toUserId, {
+        type: "new_message",
+        chatId: chat.id,
+        message: sysMsg,
+    });
+
+    return sysMsg;
+}
+
+// Public chat of a group trip with every approved participant in it, created on first use
+async function openTripPublicChat(
+    tripId: string,
+    participants: { id: string }[],
+): Promise<{ chatId: string; isNewChat: boolean }> {
+    // Check if there's already a public chat for this route
+    const existingPublicChat = await db
+        .select({ id: chats.id })
+        .from(chats)
+        .where(and(eq(chats.type, "public"), eq(chats.tripId, tripId)))
+        .limit(1);
+
+    let publicChatId: string;
+    const isNewChat = existingPublicChat.length === 0;
+
+    if (isNewChat) {
+        // Create new public chat for route
+        const [newPublicChat] = await resolveReturning(
+            db
+                .insert(chats)
+                .values({ type: "public", tripId, status: "active" })
+                .returning(),
+        );
+        publicChatId = newPublicChat.id;
+    } else {
+        publicChatId = existingPublicChat[0].id;
+    }
+
+    // Add all participants to public chat if not already there
+    for (const p of participants) {
+        const existingParticipant = await db
+            .select()
+            .from(chatParticipants)
+            .where(
+                and(
+                    eq(chatParticipants.chatId, publicChatId),
+                    eq(chatParticipants.userId, p.id),
+                ),
+            )
+            .limit(1);
+
+        if (existingParticipant.length === 0) {
+            await db
+                .insert(chatParticipants)
+                .values({ chatId: publicChatId, userId: p.id });
+        }
+    }
+    await storage.syncTripChatRoles(tripId);
+
+    return { chatId: publicChatId, isNewChat };
+}
+
+// Keep the public chat in step with the trip's capacity after an edit. Crossing up to 3+ seats
+// opens it for the approved participants; dropping below empties it, keeping the history
+// in case the trip grows again
+export async function syncTripPublicChat(trip: { id: string; creatorId: string; maxParticipants: number }) {
+    const participants = await storage.getTripParticipants(trip.id);
+
+    if (trip.maxParticipants < 3) {
+        const [publicChat] = await db
+            .select({ id: chats.id })
+            .from(chats)
+            .where(and(eq(chats.type, "public"), eq(chats.tripId, trip.id)))
+            .limit(1);
+        if (!publicChat) return;
+
+        const removed = await resolveReturning(
+            db
+                .delete(chatParticipants)
+                .where(eq(chatParticipants.chatId, publicChat.id))
+                .returning({ userId: chatParticipants.userId }),
+        );
+        for (const member of removed) {
+            await sendConversationsUpdate(member.userId);
+        }
+        return;
+    }
+
+    // Like on approval, the chat only opens once someone besides the creator has joined
+    if (!participants.some((p) => p.id !== trip.creatorId)) return;
+
+    await openTripPublicChat(trip.id, participants);
+    for (const p of participants) {
+        await sendConversationsUpdate(p.id);
+    }
+}
+
+// Announce a newly approved participant: a green confirmation in their private chat with
+// the creator and, for group trips (3+ seats), membership in the trip's public chat
+export async function announceApprovedParticipant(
+    trip: { id: string; creatorId: string; maxParticipants: number },
+    participantId: string,
+    text = "Request accepted",
+) {
+    const tripId = trip.id;
+    const creatorId = trip.creatorId;
+    const creator = await storage.getUser(creatorId);
+    const participant = await storage.getUser(participantId);
+
+    // Update private chat status to active
+    const chatRes = await db.execute<{ id: string }>(sql`
+      SELECT c.id FROM chats c
+      JOIN chat_participants p1 ON p1.chat_id = c.id AND p1.user_id = ${creatorId}
+      JOIN chat_participants p2 ON p2.chat_id = c.id AND p2.user_id = ${participantId}
+      WHERE c.type = 'private'
+      LIMIT 1
+    `);
+    const [privateChat] = extractRows<{ id: string }>(chatRes as any);
+    if (privateChat) {
+        await db
+            .update(chats)
+            .set({ status: "active" })
+            .where(eq(chats.id, privateChat.id));
+
+        await sendPrivateChatSystemMessage(creatorId, participantId, tripId, text, "green");
+
+        // If this is a group route (3+ participants), add message about route chat availability
+        if (trip.maxParticipants >= 3) {
+            const [chatAvailableMsg] = await resolveReturning(
+                db
+                    .insert(chatMessages)
+                    .values({
+                        chatId: privateChat.id,
+                        senderId: null,
+                        text: "Trip chat is available",
+                        type: "yellow",
+                        tripId,
+                    })
+                    .returning(),
+            );
+
+            // WS notifications to both participants
+            sendWS(participantId, {
+                type: "new_message",
+                chatId: privateChat.id,
+                message: chatAvailableMsg,
+            });
+            sendWS(creatorId, {
+                type: "new_message",
+                chatId: privateChat.id,
+                message: chatAvailableMsg,
+            });
+        }
+    }
+
+    if (trip.maxParticipants < 3) {
+        // For regular route update lists only for creator and new participant
+        await sendConversationsUpdate(participantId);
+        await sendConversationsUpdate(creatorId);
+        return;
+    }
+
+    // Get all approved route participants
+    const participants = await storage.getTripParticipants(tripId);
+    const { chatId: publicChatId, isNewChat } = await openTripPublicChat(tripId, participants);
+
+    // If chat was just created, introduce the creator first
+    const texts = isNewChat
+        ? [
+            `Route creator: ${creator?.name || "Unknown"}`,
+            `Participant joined: ${participant?.name || "Unknown"}`,
+        ]
+        : [`Participant joined: ${participant?.name || "Unknown"}`];
+
+    for (const messageText of texts) {
+        const [sysMsg] = await resolveReturning(
+            db
+                .insert(chatMessages)
+                .values({
+                    chatId: publicChatId,
+                    senderId: null,
+                    text: messageText,
+                    type: "yellow",
+                    tripId,
+                })
+                .returning(),
+        );
+
+        // WS notifications to all participants
+        for (const p of participants) {
+            sendWS(p.id, {
+                type: "new_message",
+                chatId: publicChatId,
+                message: sysMsg,
+            });
+        }
+    }
+
+    // Update chat lists for all participants
+    for (const p of participants) {
+        await sendConversationsUpdate(p.id);
+    }
+}
+
 const router = Router();
 const messages2Router = Router();
 
@@ -1,42 +1,509 @@
-import { Router } from "express";
+import { Router, type Response, type NextFunction } from "express";
 import path from "path";
 import crypto from "crypto";
 import { sql, eq } from "drizzle-orm";
 import { storage } from "../storage";
 import { db } from "../db";
-import { trips } from "@shared/schema";
+import { trips, tripParticipants } from "@shared/schema";
 import { authenticateToken, type AuthenticatedRequest } from "../middleware/auth";
+import { JWTUtils } from "../utils/jwt";
 import { validateBody, validateQuery } from "../middleware/validation";
-import { uploadPhoto } from "../middleware/upload";
-import { uploadToR2 } from "../r2";
+import { uploadPhoto, uploadRouteFile, deletePhotoFile } from "../middleware/upload";
+import { uploadToR2, extractR2KeyFromUrl } from "../r2";
+import { EligibilityUtils } from "../utils/eligibility";
+import { RouteFileUtils } from "../utils/route-files";
+import { RecurrenceUtils } from "../utils/recurrence";
+import { ICalUtils } from "../utils/ical";
+import { CheckInUtils } from "../utils/check-in";
+import { ExpenseUtils } from "../utils/expenses";
+import {
+    sendWS,
+    sendConversationsUpdate,
+    sendTripChatSystemMessage,
+    sendPrivateChatSystemMessage,
+    announceApprovedParticipant,
+    syncTripPublicChat,
+} from "./messages";
 import {
     insertTripSchema,
+    updateTripSchema,
+    tripUpdateScopeSchema,
     tripFiltersSchema,
+    createTripInviteSchema,
+    insertCommentSchema,
+    updateCommentSchema,
+    commentsQuerySchema,
+    insertTripTemplateSchema,
+    tripOwnershipTransferSchema,
+    removeTripParticipantSchema,
+    insertTripReviewSchema,
+    tripReviewReplySchema,
+    setAttendanceSchema,
+    checkInSchema,
+    insertTripExpenseSchema,
+    insertTripSettlementSchema,
+    insertChecklistItemSchema,
+    checklistTickSchema,
+    MAX_CHECKLIST_ITEMS,
+    MAX_TRIP_DAYS,
+    MAX_TRIP_TEMPLATES,
+    MAX_SERIES_OCCURRENCES,
     type TripFilters,
+    type TripStatus,
+    type TripCostType,
+    type UpdateTrip,
+    type TripUpdateScope,
+    type Trip,
+    type TripWithDetails,
+    type AcceptTripRequestResult,
+    type TripInvite,
+    type CreateTripInvite,
+    type TripWaypoint,
+    type ItineraryDay,
+    type InsertComment,
+    type UpdateComment,
+    type CommentsQuery,
+    type InsertTripTemplate,
+    type TripOwnershipTransfer,
+    type RemoveTripParticipant,
+    type InsertTripReview,
+    type TripReviewReply,
+    type SetAttendance,
+    type CheckIn,
+    type InsertTripExpense,
+    type InsertTripSettlement,
+    type InsertChecklistItem,
+    type ChecklistTick,
 } from "@shared/schema";
 
 const router = Router();
 
+// Allowed trip lifecycle transitions
+const TRIP_STATUS_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+    draft: ["published"],
+    published: ["cancelled", "completed"],
+    cancelled: [],
+    completed: [],
+};
+
+// Delete trip photo objects from R2 (fire-and-forget, like user photos).
+// Photos still attached to another trip, e.g. a sibling occurrence, are kept
+async function deleteTripPhotos(urls: (string | null | undefined)[]) {
+    const candidates = urls.filter((url): url is string => !!url);
+    const inUse = await storage.getPhotoUrlsInUse(candidates);
+    for (const url of candidates) {
+        if (inUse.has(url)) continue;
+        const filename = extractR2KeyFromUrl(url)?.split("/").pop();
+        if (filename) {
+            deletePhotoFile(filename);
+        }
+    }
+}
+
+// The creator and co-organizers manage join requests and edit the trip
+export const canManageTrip = (trip: TripWithDetails, userId: string) =>
+    trip.creatorId === userId || trip.coOrganizerIds.includes(userId);
+
+// Gates every way into a trip shares, the join request as well as the invite link;
+// null when the user may join
+export async function getJoinRejection(
+    trip: TripWithDetails,
+    userId: string,
+): Promise<{ status: number; body: object } | null> {
+    if (trip.status !== "published") {
+        return { status: 409, body: { message: "Trip is not open for joining", status: trip.status } };
+    }
+    if (trip.creatorId === userId) {
+        return { status: 409, body: { message: "Cannot join your own trip" } };
+    }
+
+    // Users removed with a ban cannot come back
+    if (await storage.isBannedFromTrip(trip.id, userId)) {
+        return { status: 403, body: { message: "You were removed from this trip and cannot join it again" } };
+    }
+
+    // Gender and age restrictions set by the creator
+    const applicant = await storage.getUser(userId);
+    const restriction = applicant && EligibilityUtils.getJoinRestriction(trip, applicant);
+    if (restriction) {
+        return { status: 403, body: restriction };
+    }
+
+    // Organizers may turn away applicants who missed too many trips
+    if (trip.maxNoShows != null && (await storage.getNoShowCount(userId)) > trip.maxNoShows) {
+        return {
+            status: 403,
+            body: {
+                reason: "no_shows",
+                message: `This trip does not accept participants with more than ${trip.maxNoShows} no-shows`,
+            },
+        };
+    }
+    return null;
+}
+
+// Approve a join request, or queue it when the trip is full, and notify both sides
+export async function approveJoinRequest(
+    trip: TripWithDetails,
+    userId: string,
+    acceptedText?: string,
+): Promise<AcceptTripRequestResult> {
+    const result = await storage.acceptTripRequest(trip.id, userId);
+    await announcePlacement(trip, userId, result, acceptedText);
+    return result;
+}
+
+// Tells a waitlisted user their place, or welcomes an approved one
+async function announcePlacement(
+    trip: TripWithDetails,
+    userId: string,
+    result: AcceptTripRequestResult,
+    acceptedText?: string,
+) {
+    if (result.status === "waitlisted") {
+        await sendPrivateChatSystemMessage(
+            trip.creatorId,
+            userId,
+            trip.id,
+            `Trip is full. You are #${result.position} on the waitlist`,
+            "yellow",
+        );
+        await sendConversationsUpdate(userId);
+        await sendConversationsUpdate(trip.creatorId);
+    } else {
+        await announceApprovedParticipant(trip, userId, acceptedText);
+    }
+}
+
+// Hand free seats to waitlisted users in queue order and welcome each of them
+export async function fillSeatsFromWaitlist(tripId: string) {
+    const trip = await storage.getTripById(tripId);
+    if (!trip) return;
+
+    let promotedUserId = await storage.promoteFromWaitlist(tripId);
+    while (promotedUserId) {
+        await announceApprovedParticipant(
+            trip,
+            promotedUserId,
+            "A seat became available: you are now a trip participant",
+        );
+        promotedUserId = await storage.promoteFromWaitlist(tripId);
+    }
+}
+
+// Listings are public, but forMe=true needs to know who is asking
+const authenticateForPersonalFilters = (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+) => {
+    if ((req.query as unknown as TripFilters).forMe) {
+        return authenticateToken(req, res, next);
+    }
+    next();
+};
+
+// Public trip pages are anonymous, but a signed-in creator still sees their own drafts.
+// An expired or malformed token, or a blocked account, just leaves the caller anonymous
+const authenticateIfPresent = async (
+    req: AuthenticatedRequest,
+    _res: Response,
+    next: NextFunction,
+) => {
+    const token = req.headers.authorization?.split(" ")[1];
+    if (token) {
+        try {
+            const payload = JWTUtils.verifyToken(token);
+            const user = await storage.getUser(payload.userId);
+            if (user?.status === "active") {
+                req.user = { userId: user.id, email: user.email, status: user.status };
+            }
+        } catch {
+            // Treated as no token at all
+        }
+    }
+    next();
+};
+
+// Drafts exist only for their creator; everyone else gets a 404 as if there were no trip
+const isHiddenDraft = (trip: Pick<Trip, "status" | "creatorId">, userId?: string) =>
+    trip.status === "draft" && trip.creatorId !== userId;
+
+// Filter combinations the schema alone can't reject
+const getTripListError = (filters: TripFilters): string | null => {
+    if (filters.radius_km && !filters.near) return "radius_km requires near";
+    if (filters.sort === "distance" && !filters.near) return "sort=distance requires near";
+    if (filters.sort === "relevance" && !filters.q) return "sort=relevance requires q";
+    if (
+        filters.distance_min !== undefined &&
+        filters.distance_max !== undefined &&
+        filters.distance_min > filters.distance_max
+    ) {
+        return "distance_min cannot exceed distance_max";
+    }
+
+    const sort = filters.sort ?? (filters.q ? "relevance" : "created");
+    if (filters.cursor && filters.cursor.sort !== sort) return "Cursor belongs to a different sort";
+    return null;
+};
+
+// Every waypoint has to point at an existing route point
+const getWaypointsError = (
+    waypoints: TripWaypoint[] | null | undefined,
+    route: { lat: number; lng: number }[] | null | undefined,
+): string | null => {
+    const routeLength = route?.length ?? 0;
+    if (waypoints?.some((waypoint) => waypoint.routeIndex >= routeLength)) {
+        return "Waypoint routeIndex is outside the route";
+    }
+    return null;
+};
+
+// Itinerary days must fit between date and endDate and cut valid segments out of the route
+const getScheduleError = (schedule: {
+    date: string | null | undefined;
+    endDate: string | null | undefined;
+    itinerary: ItineraryDay[] | null | undefined;
+    route: { lat: number; lng: number }[] | null | undefined;
+}): string | null => {
+    const { date, endDate, itinerary, route } = schedule;
+    if (endDate && !date) return "endDate requires date";
+
+    let tripDays = 1;
+    if (date && endDate) {
+        const start = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+        const end = Date.parse(`${endDate.slice(0, 10)}T00:00:00Z`);
+        if (end < start) return "endDate cannot be before date";
+        tripDays = Math.round((end - start) / 86_400_000) + 1;
+        if (tripDays > MAX_TRIP_DAYS) return `A trip cannot last more than ${MAX_TRIP_DAYS} days`;
+    }
+
+    const seenDays = new Set<number>();
+    for (const day of itinerary ?? []) {
+        if (day.day > tripDays) return `Itinerary day ${day.day} is outside the trip dates`;
+        if (seenDays.has(day.day)) return `Itinerary day ${day.day} is listed twice`;
+        seenDays.add(day.day);
+
+        if ((day.routeStart == null) !== (day.routeEnd == null)) {
+            return "routeStart and routeEnd must be set together";
+        }
+        if (day.routeStart != null && day.routeEnd != null) {
+            if (day.routeStart > day.routeEnd) return "routeStart cannot be after routeEnd";
+            if (day.routeEnd >= (route?.length ?? 0)) return "Itinerary segment is outside the route";
+        }
+    }
+    return null;
+};
+
+// Split and fixed costs need an amount and a currency; free trips and trips without a cost have neither
+const getCostError = (cost: {
+    costType: TripCostType | null | undefined;
+    costPerPerson: number | null | undefined;
+    costCurrency: string | null | undefined;
+}): string | null => {
+    const hasAmount = cost.costPerPerson != null || cost.costCurrency != null;
+    if (!cost.costType) return hasAmount ? "costType is required when a cost is set" : null;
+    if (cost.costType === "free") return hasAmount ? "A free trip cannot have a cost per person" : null;
+    if (cost.costPerPerson == null || cost.costCurrency == null) {
+        return "costPerPerson and costCurrency are required for split and fixed costs";
+    }
+    return null;
+};
+
+// Checks an update against one trip and fills in what follows from it (pruned waypoints and segments)
+const planTripUpdate = (
+    trip: TripWithDetails,
+    input: UpdateTrip,
+): { updates: UpdateTrip } | { status: number; error: string } => {
+    const updates: UpdateTrip = { ...input };
+
+    const minAge = updates.minAge !== undefined ? updates.minAge : trip.minAge;
+    const maxAge = updates.maxAge !== undefined ? updates.maxAge : trip.maxAge;
+    if (minAge != null && maxAge != null && minAge > maxAge) {
+        return { status: 400, error: "minAge cannot be greater than maxAge" };
+    }
+
+    if (updates.waypoints !== undefined) {
+        const waypointsError = getWaypointsError(
+            updates.waypoints,
+            updates.route !== undefined ? updates.route : trip.route,
+        );
+        if (waypointsError) {
+            return { status: 400, error: waypointsError };
+        }
+    } else if (updates.route !== undefined && trip.waypoints?.length) {
+        // A shorter route drops the waypoints pinned to removed points
+        const routeLength = updates.route?.length ?? 0;
+        const keptWaypoints = trip.waypoints.filter((waypoint) => waypoint.routeIndex < routeLength);
+        if (keptWaypoints.length !== trip.waypoints.length) {
+            updates.waypoints = keptWaypoints;
+        }
+    }
+
+    // Same for day segments: the days stay, the segments past the new route end are dropped
+    if (updates.route !== undefined && updates.itinerary === undefined && trip.itinerary?.length) {
+        const routeLength = updates.route?.length ?? 0;
+        if (trip.itinerary.some((day) => day.routeEnd != null && day.routeEnd >= routeLength)) {
+            updates.itinerary = trip.itinerary.map((day) =>
+                day.routeEnd != null && day.routeEnd >= routeLength
+                    ? { ...day, routeStart: null, routeEnd: null }
+                    : day,
+            );
+        }
+    }
+
+    if (
+        updates.date !== undefined ||
+        updates.endDate !== undefined ||
+        updates.itinerary !== undefined ||
+        updates.route !== undefined
+    ) {
+        const scheduleError = getScheduleError({
+            date: updates.date !== undefined ? updates.date : trip.date,
+            endDate: updates.endDate !== undefined ? updates.endDate : trip.endDate,
+            itinerary: updates.itinerary !== undefined ? updates.itinerary : trip.itinerary,
+            route: updates.route !== undefined ? updates.route : trip.route,
+        });
+        if (scheduleError) {
+            return { status: 400, error: scheduleError };
+        }
+    }
+
+    // Switching to free or to no cost at all drops the amount
+    if (updates.costType !== undefined && updates.costType !== "split" && updates.costType !== "fixed") {
+        updates.costPerPerson ??= null;
+        updates.costCurrency ??= null;
+    }
+    if (updates.costType !== undefined || updates.costPerPerson !== undefined || updates.costCurrency !== undefined) {
+        const costError = getCostError({
+            costType: updates.costType !== undefined ? updates.costType : trip.costType,
+            costPerPerson: updates.costPerPerson !== undefined ? updates.costPerPerson : trip.costPerPerson,
+            costCurrency: updates.costCurrency !== undefined ? updates.costCurrency : trip.costCurrency,
+        });
+        if (costError) {
+            return { status: 400, error: costError };
+        }
+    }
+
+    if (
+        updates.maxParticipants !== undefined &&
+        updates.maxParticipants < trip.participantsCount
+    ) {
+        return {
+            status: 409,
+            error: "maxParticipants cannot be lower than the number of approved participants",
+        };
+    }
+
+    return { updates };
+};
+
+// Saves the update and tells the trip chat what changed
+const applyTripUpdate = async (trip: TripWithDetails, updates: UpdateTrip): Promise<Trip | undefined> => {
+    const tripId = trip.id;
+
+    // Collect fields that actually change, for the chat notification
+    const changedFields = (Object.keys(updates) as (keyof UpdateTrip)[]).filter(
+        (key) =>
+            JSON.stringify(updates[key] ?? null) !==
+            JSON.stringify((trip as Record<string, unknown>)[key] ?? null),
+    );
+
+    const updatedTrip = await storage.updateTrip(tripId, updates);
+    if (!updatedTrip) return undefined;
+
+    // Remove photos that are no longer attached to the trip
+    const keptPhotos = new Set([
+        updatedTrip.mainPhotoUrl,
+        ...(updatedTrip.additionalPhotos || []),
+    ]);
+    await deleteTripPhotos(
+        [trip.mainPhotoUrl, ...(trip.additionalPhotos || [])].filter(
+            (url) => !keptPhotos.has(url),
+        ),
+    );
+
+    // Crossing the group trip threshold opens or empties the public chat
+    if ((updatedTrip.maxParticipants >= 3) !== (trip.maxParticipants >= 3)) {
+        await syncTripPublicChat(updatedTrip);
+    }
+
+    if (changedFields.length > 0) {
+        await sendTripChatSystemMessage(
+            tripId,
+            `Trip updated: ${changedFields.join(", ")}`,
+            "yellow",
+        );
+
+        const participants = await storage.getTripParticipants(tripId);
+        for (const p of participants) {
+            await sendConversationsUpdate(p.id);
+        }
+    }
+
+    if (updatedTrip.maxParticipants > trip.maxParticipants) {
+        await fillSeatsFromWaitlist(tripId);
+    }
+
+    return updatedTrip;
+};
+
 // Get trips with optional filtering
 router.get(
     "/",
     validateQuery(tripFiltersSchema as any),
-    async (req, res) => {
+    authenticateForPersonalFilters,
+    async (req: AuthenticatedRequest, res) => {
         try {
-            const filters = req.query as TripFilters;
-            const trips = await storage.getTrips(filters);
+            const filters = req.query as unknown as TripFilters;
+
+            // Drafts are only listed to their creator through /mine
+            if (filters.status === "draft" || filters.status === "any") {
+                return res.status(403).json({ message: "Drafts are only visible to their creator" });
+            }
+            const filterError = getTripListError(filters);
+            if (filterError) {
+                return res.status(400).json({ message: filterError });
+            }
 
-            // 1) Keep only routes where there are still free spots
-            // Now handled in SQL
-            const availableTrips = trips;
+            // forMe filters by the viewer's gender and age
+            const viewer = req.user ? await storage.getUser(req.user.userId) : undefined;
+            const page = await storage.getTrips(filters, viewer);
 
-            res.json(availableTrips);
+            res.json(page);
         } catch (error) {
             console.error("Get trips error:", error);
             res.status(500).json({ message: "Internal server error" });
         }
     });
 
+// Get trips created by the current user, in any lifecycle state
+router.get(
+    "/mine",
+    authenticateToken,
+    validateQuery(tripFiltersSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const filters = req.query as unknown as TripFilters;
+            const filterError = getTripListError(filters);
+            if (filterError) {
+                return res.status(400).json({ message: filterError });
+            }
+
+            const page = await storage.getTrips({
+                ...filters,
+                status: filters.status ?? "any",
+                creatorId: req.user!.userId,
+            });
+
+            res.json(page);
+        } catch (error) {
+            console.error("Get my trips error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
 // Upload main photo for trip
 router.post(
     "/upload-main-photo",
@@ -121,6 +588,31 @@ router.post(
     },
 );
 
+// Parse an uploaded GPX/KML/GeoJSON file into a simplified route for the trip form
+router.post(
+    "/route/import",
+    authenticateToken,
+    uploadRouteFile.single("file"),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const file = req.file;
+            if (!file || !file.buffer) {
+                return res.status(400).json({ message: "No file uploaded" });
+            }
+
+            const imported = RouteFileUtils.parse(file.originalname || "", file.buffer.toString("utf8"));
+            if (!imported) {
+                return res.status(400).json({ message: "No route points found in the file" });
+            }
+
+            res.json(imported);
+        } catch (error) {
+            console.error("Route import error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
 // Upload additional photos for specific trip
 router.post(
     "/:tripId/photos",
@@ -135,13 +627,13 @@ router.post(
             const { tripId } = req.params;
             const userId = req.user.userId;
 
-            // Check if trip exists and user is creator
+            // Check if trip exists and user organizes it
             const trip = await storage.getTripById(tripId);
             if (!trip) {
                 return res.status(404).json({ message: "Trip not found" });
             }
-            if (trip.creatorId !== userId) {
-                return res.status(403).json({ message: "Only trip creator can add photos" });
+            if (!canManageTrip(trip, userId)) {
+                return res.status(403).json({ message: "Only trip organizers can add photos" });
             }
 
             if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
@@ -199,6 +691,41 @@ router.post(
             const userId = req.user!.userId;
             const tripData = req.body;
 
+            if (tripData.minAge != null && tripData.maxAge != null && tripData.minAge > tripData.maxAge) {
+                return res.status(400).json({ message: "minAge cannot be greater than maxAge" });
+            }
+            const waypointsError = getWaypointsError(tripData.waypoints, tripData.route);
+            if (waypointsError) {
+                return res.status(400).json({ message: waypointsError });
+            }
+            const scheduleError = getScheduleError(tripData);
+            if (scheduleError) {
+                return res.status(400).json({ message: scheduleError });
+            }
+            const costError = getCostError(tripData);
+            if (costError) {
+                return res.status(400).json({ message: costError });
+            }
+
+            if (tripData.recurrence) {
+                if (!tripData.date) {
+                    return res.status(400).json({ message: "A repeating trip needs a date" });
+                }
+                if (tripData.recurrence.until && tripData.recurrence.until < tripData.date) {
+                    return res.status(400).json({ message: "until cannot be before date" });
+                }
+                const dates = RecurrenceUtils.occurrenceDates(tripData.date, tripData.recurrence);
+                if (dates.length > MAX_SERIES_OCCURRENCES) {
+                    return res.status(400).json({
+                        message: `A series cannot have more than ${MAX_SERIES_OCCURRENCES} occurrences`,
+                    });
+                }
+
+                // The first occurrence stands for the created trip
+                const [firstOccurrence] = await storage.createTripSeries(tripData, userId, dates);
+                return res.status(201).json(firstOccurrence);
+            }
+
             // Create route
             const trip = await storage.createTrip(tripData, userId);
 
@@ -210,11 +737,90 @@ router.post(
     },
 );
 
+// Get the current user's trip templates, newest first
+router.get("/templates", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+        const templates = await storage.getTripTemplates(req.user!.userId);
+        res.json(templates);
+    } catch (error) {
+        console.error("Get trip templates error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+// Save a template from the create form or from a trip the user can see
+router.post(
+    "/templates",
+    authenticateToken,
+    validateBody(insertTripTemplateSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const { name, tripId, data } = req.body as InsertTripTemplate;
+
+            if ((await storage.countTripTemplates(userId)) >= MAX_TRIP_TEMPLATES) {
+                return res.status(409).json({
+                    message: `You cannot have more than ${MAX_TRIP_TEMPLATES} templates`,
+                });
+            }
+
+            if (tripId) {
+                const trip = await storage.getTripById(tripId);
+                if (!trip || (trip.status === "draft" && trip.creatorId !== userId)) {
+                    return res.status(404).json({ message: "Trip not found" });
+                }
+                const template = await storage.createTripTemplateFromTrip(userId, name, trip);
+                return res.status(201).json(template);
+            }
+
+            const template = await storage.createTripTemplate(userId, name, data!);
+            res.status(201).json(template);
+        } catch (error) {
+            console.error("Create trip template error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Delete one of the current user's templates
+router.delete("/templates/:templateId", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+        const template = await storage.deleteTripTemplate(req.user!.userId, req.params.templateId);
+        if (!template) {
+            return res.status(404).json({ message: "Template not found" });
+        }
+
+        // Photos only the template referred to are no longer needed
+        await deleteTripPhotos([template.data.mainPhotoUrl, ...(template.data.additionalPhotos || [])]);
+
+        res.json({ message: "Template deleted" });
+    } catch (error) {
+        console.error("Delete trip template error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+// Get a repeating trip's rule and all of its occurrences
+router.get("/series/:seriesId", authenticateIfPresent, async (req: AuthenticatedRequest, res) => {
+    try {
+        const series = await storage.getTripSeries(req.params.seriesId);
+        const occurrences = series?.occurrences.filter((occurrence) => !isHiddenDraft(occurrence, req.user?.userId));
+        if (!series || !occurrences?.length) {
+            return res.status(404).json({ message: "Series not found" });
+        }
+
+        res.json({ ...series, occurrences });
+    } catch (error) {
+        console.error("Get trip series error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
 // Get single trip
-router.get("/:id", async (req, res) => {
+router.get("/:id", authenticateIfPresent, async (req: AuthenticatedRequest, res) => {
     try {
         const trip = await storage.getTripById(req.params.id);
-        if (!trip) {
+        if (!trip || isHiddenDraft(trip, req.user?.userId)) {
             res.status(404).json({ message: "Trip not found" });
             return;
         }
@@ -226,86 +832,1663 @@ router.get("/:id", async (req, res) => {
     }
 });
 
-// Get trip status for current user
-router.get(
-    "/:id/status",
-    authenticateToken,
-    async (req: AuthenticatedRequest, res) => {
+// Copy a trip into a new draft of the current user; copies of other users' trips credit the original creator
+router.post("/:id/clone", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+        const userId = req.user!.userId;
+        const trip = await storage.getTripById(req.params.id);
+        if (!trip || (trip.status === "draft" && trip.creatorId !== userId)) {
+            return res.status(404).json({ message: "Trip not found" });
+        }
+
+        const clone = await storage.cloneTrip(trip, userId);
+
+        res.status(201).json(clone);
+    } catch (error) {
+        console.error("Clone trip error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+// Download name from the trip title, with an ASCII fallback for old clients
+const attachmentDisposition = (title: string, fallback: string, extension: string) => {
+    const filename = title.replace(/[\s\\/:*?"<>|]+/g, "-").replace(/^-+|-+$/g, "") || fallback;
+    return `attachment; filename="${fallback}.${extension}"; filename*=UTF-8''${encodeURIComponent(filename)}.${extension}`;
+};
+
+// Export trip route as GPX or KML
+const exportRoute = (format: "gpx" | "kml") =>
+    async (req: AuthenticatedRequest, res: Response) => {
         try {
-            const tripId = req.params.id;
-            const userId = req.user!.userId;
-            const status = await storage.getUserTripStatus(tripId, userId);
-            res.json({ status });
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip || isHiddenDraft(trip, req.user?.userId)) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+
+            const body = format === "gpx" ? RouteFileUtils.toGpx(trip) : RouteFileUtils.toKml(trip);
+            const contentType = format === "gpx" ? "application/gpx+xml" : "application/vnd.google-earth.kml+xml";
+
+            res.setHeader("Content-Type", `${contentType}; charset=utf-8`);
+            res.setHeader("Content-Disposition", attachmentDisposition(trip.title, "route", format));
+            res.send(body);
         } catch (error) {
-            console.error("Error fetching trip status:", error);
-            res.status(500).json({ message: "Failed to fetch trip status" });
+            console.error("Export route error:", error);
+            res.status(500).json({ message: "Internal server error" });
         }
-    },
-);
+    };
 
-// Get trip status for specific user
-router.get(
-    "/:tripId/status/:userId",
+router.get("/:id/route.gpx", authenticateIfPresent, exportRoute("gpx"));
+router.get("/:id/route.kml", authenticateIfPresent, exportRoute("kml"));
+
+// Single-event iCalendar file for adding a trip to a calendar
+router.get("/:id/event.ics", authenticateIfPresent, async (req: AuthenticatedRequest, res) => {
+    try {
+        const trip = await storage.getTripById(req.params.id);
+        if (!trip || isHiddenDraft(trip, req.user?.userId)) {
+            return res.status(404).json({ message: "Trip not found" });
+        }
+        if (!trip.date) {
+            return res.status(409).json({ message: "Trip has no date" });
+        }
+
+        const origin = `${req.protocol}://${req.get("host")}`;
+        const body = ICalUtils.toCalendar([trip], {
+            name: trip.title,
+            tripUrl: (id) => `${origin}/trips/${id}`,
+        });
+
+        res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+        res.setHeader("Content-Disposition", attachmentDisposition(trip.title, "event", "ics"));
+        res.send(body);
+    } catch (error) {
+        console.error("Export event error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+// Update trip (creator only)
+router.patch(
+    "/:id",
     authenticateToken,
+    validateQuery(tripUpdateScopeSchema as any),
+    validateBody(updateTripSchema as any),
     async (req: AuthenticatedRequest, res) => {
         try {
-            const { tripId, userId } = req.params;
-            const currentUserId = req.user!.userId;
+            const tripId = req.params.id;
+            const userId = req.user!.userId;
+            const updates: UpdateTrip = req.body;
 
-            // Check if current user is the trip creator OR checking their own status
             const trip = await storage.getTripById(tripId);
             if (!trip) {
                 return res.status(404).json({ message: "Trip not found" });
             }
+            if (!canManageTrip(trip, userId)) {
+                return res.status(403).json({ message: "Only trip organizers can edit the trip" });
+            }
+            if (trip.status === "cancelled" || trip.status === "completed") {
+                return res.status(409).json({ message: `Cannot edit a ${trip.status} trip` });
+            }
 
-            // Allow if user is trip creator or checking their own status
-            if (trip.creatorId !== currentUserId && userId !== currentUserId) {
-                return res.status(403).json({ message: "You can only check your own status or participants status if you are the trip creator" });
+            const { scope } = req.query as { scope: TripUpdateScope };
+            let targets: TripWithDetails[] = [trip];
+            if (scope === "series") {
+                // Co-organizers are added per occurrence, so only the creator edits the whole series
+                if (trip.creatorId !== userId) {
+                    return res.status(403).json({ message: "Only trip creator can edit the whole series" });
+                }
+                if (!trip.seriesId) {
+                    return res.status(400).json({ message: "Trip is not part of a series" });
+                }
+                if (updates.date !== undefined || updates.endDate !== undefined || updates.itinerary !== undefined) {
+                    return res.status(400).json({ message: "Dates can only be changed for a single occurrence" });
+                }
+                // The opened occurrence first, then every other upcoming one
+                const upcoming = await storage.getUpcomingSeriesTrips(trip.seriesId);
+                targets = [trip, ...upcoming.filter((occurrence) => occurrence.id !== trip.id)];
             }
 
-            const status = await storage.getUserTripStatus(tripId, userId);
-            res.json({ status });
+            // Validate every target before changing any of them
+            const plannedUpdates: UpdateTrip[] = [];
+            for (const target of targets) {
+                const planned = planTripUpdate(target, updates);
+                if ("error" in planned) {
+                    return res.status(planned.status).json({ message: planned.error });
+                }
+                plannedUpdates.push(planned.updates);
+            }
+
+            let updatedTrip: Trip | undefined;
+            for (let i = 0; i < targets.length; i++) {
+                const result = await applyTripUpdate(targets[i], plannedUpdates[i]);
+                if (i === 0) updatedTrip = result;
+            }
+            if (!updatedTrip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+
+            res.json(updatedTrip);
         } catch (error) {
-            console.error("Error fetching user trip status:", error);
-            res.status(500).json({ message: "Failed to fetch user trip status" });
+            console.error("Update trip error:", error);
+            res.status(500).json({ message: "Internal server error" });
         }
     },
 );
 
-// Leave trip
+// Delete trip (creator only)
 router.delete(
-    "/:id/leave",
+    "/:id",
     authenticateToken,
     async (req: AuthenticatedRequest, res) => {
         try {
             const tripId = req.params.id;
             const userId = req.user!.userId;
 
-            // Check if user is a participant
-            const isParticipant = await storage.isUserParticipant(tripId, userId);
-            if (!isParticipant) {
-                res.status(409).json({ message: "Not a participant of this trip" });
-                return;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.creatorId !== userId) {
+                return res.status(403).json({ message: "Only trip creator can delete the trip" });
             }
 
-            await storage.leaveTrip(tripId, userId);
-            res.json({ message: "Successfully left trip" });
+            // Everyone who applied should get a fresh chat list once the trip chats are gone
+            const participantRows = await db
+                .select({ userId: tripParticipants.userId })
+                .from(tripParticipants)
+                .where(eq(tripParticipants.tripId, tripId));
+            const affectedUserIds = new Set([
+                trip.creatorId,
+                ...participantRows.map((r) => r.userId),
+            ]);
+
+            await storage.deleteTrip(tripId);
+            await deleteTripPhotos([trip.mainPhotoUrl, ...(trip.additionalPhotos || [])]);
+
+            for (const affectedUserId of Array.from(affectedUserIds)) {
+                await sendConversationsUpdate(affectedUserId);
+            }
+
+            res.json({ message: "Trip deleted" });
         } catch (error) {
-            console.error("Leave trip error:", error);
+            console.error("Delete trip error:", error);
             res.status(500).json({ message: "Internal server error" });
         }
     },
 );
 
-// Get trip participants
-router.get("/:id/participants", async (req, res) => {
-    try {
-        const participants = await storage.getTripParticipants(req.params.id);
-        res.json(participants);
-    } catch (error) {
-        console.error("Get participants error:", error);
-        res.status(500).json({ message: "Internal server error" });
-    }
-});
+// Move a trip to another lifecycle state (creator only)
+const changeTripStatus = (nextStatus: TripStatus) =>
+    async (req: AuthenticatedRequest, res: Response) => {
+        try {
+            const tripId = req.params.id;
+            const userId = req.user!.userId;
+
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.creatorId !== userId) {
+                return res.status(403).json({ message: "Only trip creator can change trip status" });
+            }
+            if (!TRIP_STATUS_TRANSITIONS[trip.status].includes(nextStatus)) {
+                return res.status(409).json({
+                    message: `Cannot change trip status from ${trip.status} to ${nextStatus}`,
+                    status: trip.status,
+                });
+            }
+
+            const updatedTrip = await storage.updateTripStatus(tripId, nextStatus);
+
+            if (nextStatus === "cancelled") {
+                const reason =
+                    typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+                const text = reason ? `Trip cancelled: ${reason}` : "Trip cancelled";
+
+                // Notify everyone who applied, was approved or is waiting for a seat
+                const participantRows = await db
+                    .select({
+                        userId: tripParticipants.userId,
+                        status: tripParticipants.status,
+                    })
+                    .from(tripParticipants)
+                    .where(eq(tripParticipants.tripId, tripId));
+                const notifiedUserIds = participantRows
+                    .filter(
+                        (r) =>
+                            r.userId !== userId &&
+                            ["approved", "pending", "waitlisted"].includes(r.status),
+                    )
+                    .map((r) => r.userId);
+
+                await sendTripChatSystemMessage(tripId, text, "red");
+                for (const participantId of notifiedUserIds) {
+                    await sendPrivateChatSystemMessage(userId, participantId, tripId, text, "red");
+                    sendWS(participantId, {
+                        type: "trip_status",
+                        tripId,
+                        status: nextStatus,
+                    });
+                    await sendConversationsUpdate(participantId);
+                }
+                await sendConversationsUpdate(userId);
+            } else if (nextStatus === "completed") {
+                await sendTripChatSystemMessage(tripId, "Trip completed", "green");
+            }
+
+            res.json(updatedTrip);
+        } catch (error) {
+            console.error(`Change trip status (${nextStatus}) error:`, error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    };
+
+router.post("/:id/publish", authenticateToken, changeTripStatus("published"));
+router.post("/:id/cancel", authenticateToken, changeTripStatus("cancelled"));
+router.post("/:id/complete", authenticateToken, changeTripStatus("completed"));
+
+// ===== Invite links =====
+
+const isInviteActive = (invite: TripInvite) =>
+    !invite.revokedAt &&
+    (!invite.expiresAt || invite.expiresAt.getTime() > Date.now()) &&
+    (invite.maxUses === null || invite.usesCount < invite.maxUses);
+
+// Preview the trip behind an invite link (public, so the link works before logging in)
+router.get("/invites/:token", async (req, res) => {
+    try {
+        const invite = await storage.getTripInviteByToken(req.params.token);
+        if (!invite) {
+            return res.status(404).json({ message: "Invite not found" });
+        }
+        if (!isInviteActive(invite)) {
+            return res.status(410).json({ message: "Invite has expired or was revoked" });
+        }
+
+        const trip = await storage.getTripById(invite.tripId);
+        if (!trip) {
+            return res.status(404).json({ message: "Trip not found" });
+        }
+
+        res.json({
+            trip,
+            expiresAt: invite.expiresAt,
+            maxUses: invite.maxUses,
+            usesCount: invite.usesCount,
+        });
+    } catch (error) {
+        console.error("Get invite error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+// Join a trip through an invite link, skipping the join request
+router.post(
+    "/invites/:token/redeem",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+
+            const invite = await storage.getTripInviteByToken(req.params.token);
+            if (!invite) {
+                return res.status(404).json({ message: "Invite not found" });
+            }
+            if (!isInviteActive(invite)) {
+                return res.status(410).json({ message: "Invite has expired or was revoked" });
+            }
+
+            const trip = await storage.getTripById(invite.tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            const rejection = await getJoinRejection(trip, userId);
+            if (rejection) {
+                return res.status(rejection.status).json(rejection.body);
+            }
+
+            const existingStatus = await storage.getUserTripStatus(trip.id, userId);
+            if (existingStatus === "approved") {
+                return res.status(409).json({ message: "You are already a participant", status: existingStatus });
+            }
+            if (existingStatus === "rejected") {
+                return res.status(403).json({ message: "Your request for this trip was rejected" });
+            }
+
+            // Pending or waitlisted applicants are promoted (or keep waiting), everyone else joins directly
+            const result = await storage.redeemTripInvite(invite.id, trip.id, userId);
+            if (result.status === "full") {
+                return res.status(409).json({ message: "Trip is full" });
+            }
+            if (result.status === "invite_inactive") {
+                return res.status(410).json({ message: "Invite has expired or was revoked" });
+            }
+            await announcePlacement(trip, userId, result, "Joined via invite link");
+
+            if (result.status === "waitlisted") {
+                return res.json({ message: "Trip is full, you are on the waitlist", ...result, tripId: trip.id });
+            }
+            res.json({ message: "Joined the trip", status: "approved", tripId: trip.id });
+        } catch (error) {
+            console.error("Redeem invite error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Create an invite link (creator only)
+router.post(
+    "/:id/invites",
+    authenticateToken,
+    validateBody(createTripInviteSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const tripId = req.params.id;
+            const userId = req.user!.userId;
+
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.creatorId !== userId) {
+                return res.status(403).json({ message: "Only trip creator can create invites" });
+            }
+            if (trip.status === "cancelled" || trip.status === "completed") {
+                return res.status(409).json({ message: `Cannot invite to a ${trip.status} trip` });
+            }
+
+            const invite = await storage.createTripInvite(tripId, userId, req.body as CreateTripInvite);
+            res.status(201).json(invite);
+        } catch (error) {
+            console.error("Create invite error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// List outstanding invite links (creator only)
+router.get(
+    "/:id/invites",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const tripId = req.params.id;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.creatorId !== req.user!.userId) {
+                return res.status(403).json({ message: "Only trip creator can view invites" });
+            }
+
+            const invites = await storage.getActiveTripInvites(tripId);
+            res.json(invites);
+        } catch (error) {
+            console.error("Get invites error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Revoke an invite link (creator only)
+router.delete(
+    "/:id/invites/:inviteId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const { id: tripId, inviteId } = req.params;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.creatorId !== req.user!.userId) {
+                return res.status(403).json({ message: "Only trip creator can revoke invites" });
+            }
+
+            const revoked = await storage.revokeTripInvite(tripId, inviteId);
+            if (!revoked) {
+                return res.status(404).json({ message: "Invite not found" });
+            }
+
+            res.json({ message: "Invite revoked" });
+        } catch (error) {
+            console.error("Revoke invite error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Pending join requests, for the creator and co-organizers
+router.get(
+    "/:id/requests",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, req.user!.userId)) {
+                return res.status(403).json({ message: "Only trip organizers can view requests" });
+            }
+
+            const requests = await storage.getPendingJoinRequests(trip.id);
+            res.json(requests);
+        } catch (error) {
+            console.error("Get join requests error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Make an approved participant a co-organizer (creator only)
+router.put(
+    "/:id/co-organizers/:userId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const { id: tripId, userId } = req.params;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.creatorId !== req.user!.userId) {
+                return res.status(403).json({ message: "Only trip creator can add co-organizers" });
+            }
+            if (userId === trip.creatorId) {
+                return res.status(400).json({ message: "The creator already organizes the trip" });
+            }
+            if (trip.coOrganizerIds.includes(userId)) {
+                return res.json({ message: "Co-organizer added" });
+            }
+
+            const updated = await storage.setCoOrganizer(tripId, userId, true);
+            if (!updated) {
+                return res.status(409).json({ message: "Only approved participants can be co-organizers" });
+            }
+
+            const coOrganizer = await storage.getUser(userId);
+            await storage.syncTripChatRoles(tripId);
+            await sendTripChatSystemMessage(tripId, `Co-organizer added: ${coOrganizer?.name || "Unknown"}`, "yellow");
+            sendWS(userId, { type: "trip_role_changed", tripId, tripTitle: trip.title, role: "co_organizer" });
+
+            res.json({ message: "Co-organizer added" });
+        } catch (error) {
+            console.error("Add co-organizer error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Remove a co-organizer; the creator removes anyone, a co-organizer can step down
+router.delete(
+    "/:id/co-organizers/:userId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const { id: tripId, userId } = req.params;
+            const currentUserId = req.user!.userId;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.creatorId !== currentUserId && userId !== currentUserId) {
+                return res.status(403).json({ message: "Only trip creator can remove co-organizers" });
+            }
+            if (!trip.coOrganizerIds.includes(userId)) {
+                return res.status(404).json({ message: "Co-organizer not found" });
+            }
+
+            await storage.setCoOrganizer(tripId, userId, false);
+
+            const coOrganizer = await storage.getUser(userId);
+            await storage.syncTripChatRoles(tripId);
+            await sendTripChatSystemMessage(tripId, `Co-organizer removed: ${coOrganizer?.name || "Unknown"}`, "yellow");
+            if (userId !== currentUserId) {
+                sendWS(userId, { type: "trip_role_changed", tripId, tripTitle: trip.title, role: "member" });
+            }
+
+            res.json({ message: "Co-organizer removed" });
+        } catch (error) {
+            console.error("Remove co-organizer error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Offer the trip to an approved participant; ownership moves once they accept
+router.post(
+    "/:id/transfer",
+    authenticateToken,
+    validateBody(tripOwnershipTransferSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const tripId = req.params.id;
+            const { userId } = req.body as TripOwnershipTransfer;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.creatorId !== req.user!.userId) {
+                return res.status(403).json({ message: "Only trip creator can transfer the trip" });
+            }
+            if (trip.status === "cancelled" || trip.status === "completed") {
+                return res.status(409).json({ message: `Cannot transfer a ${trip.status} trip` });
+            }
+            if (userId === trip.creatorId) {
+                return res.status(400).json({ message: "You already own this trip" });
+            }
+            if ((await storage.getUserTripStatus(tripId, userId)) !== "approved") {
+                return res.status(409).json({ message: "The trip can only be transferred to an approved participant" });
+            }
+
+            await storage.setPendingOwner(tripId, userId);
+            sendWS(userId, {
+                type: "trip_transfer_offered",
+                tripId,
+                tripTitle: trip.title,
+                fromUserId: trip.creatorId,
+            });
+
+            res.json({ message: "Transfer offered", pendingOwnerId: userId });
+        } catch (error) {
+            console.error("Offer trip transfer error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Withdraw a transfer offer: the creator cancels it or the recipient declines
+router.delete(
+    "/:id/transfer",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const tripId = req.params.id;
+            const currentUserId = req.user!.userId;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!trip.pendingOwnerId) {
+                return res.status(404).json({ message: "No pending transfer" });
+            }
+            if (currentUserId !== trip.creatorId && currentUserId !== trip.pendingOwnerId) {
+                return res.status(403).json({ message: "Only the creator or the recipient can withdraw a transfer" });
+            }
+
+            await storage.setPendingOwner(tripId, null);
+            const notifyUserId = currentUserId === trip.creatorId ? trip.pendingOwnerId : trip.creatorId;
+            sendWS(notifyUserId, {
+                type: currentUserId === trip.creatorId ? "trip_transfer_cancelled" : "trip_transfer_declined",
+                tripId,
+                tripTitle: trip.title,
+            });
+
+            res.json({ message: "Transfer withdrawn" });
+        } catch (error) {
+            console.error("Withdraw trip transfer error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Accept a transfer offer and become the trip creator
+router.post(
+    "/:id/transfer/accept",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const tripId = req.params.id;
+            const userId = req.user!.userId;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.pendingOwnerId !== userId) {
+                return res.status(403).json({ message: "The trip was not offered to you" });
+            }
+
+            const accepted = await storage.acceptOwnershipTransfer(tripId, userId);
+            if (!accepted) {
+                return res.status(409).json({ message: "The transfer is no longer pending" });
+            }
+
+            const newOwner = await storage.getUser(userId);
+            await storage.syncTripChatRoles(tripId);
+            await sendTripChatSystemMessage(tripId, `Trip organizer is now ${newOwner?.name || "Unknown"}`, "yellow");
+            sendWS(trip.creatorId, { type: "trip_transfer_accepted", tripId, tripTitle: trip.title });
+
+            const updatedTrip = await storage.getTripById(tripId);
+            res.json(updatedTrip);
+        } catch (error) {
+            console.error("Accept trip transfer error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Get trip status for current user
+router.get(
+    "/:id/status",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const tripId = req.params.id;
+            const userId = req.user!.userId;
+            const status = await storage.getUserTripStatus(tripId, userId);
+            if (status === "waitlisted") {
+                const position = await storage.getWaitlistPosition(tripId, userId);
+                return res.json({ status, position });
+            }
+            res.json({ status });
+        } catch (error) {
+            console.error("Error fetching trip status:", error);
+            res.status(500).json({ message: "Failed to fetch trip status" });
+        }
+    },
+);
+
+// Get trip status for specific user
+router.get(
+    "/:tripId/status/:userId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const { tripId, userId } = req.params;
+            const currentUserId = req.user!.userId;
+
+            // Check if current user is the trip creator OR checking their own status
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+
+            // Allow if user organizes the trip or is checking their own status
+            if (!canManageTrip(trip, currentUserId) && userId !== currentUserId) {
+                return res.status(403).json({ message: "You can only check your own status or participants status if you organize the trip" });
+            }
+
+            const status = await storage.getUserTripStatus(tripId, userId);
+            // Answers to the application questions, shown next to the request
+            const answers = status ? await storage.getJoinAnswers(tripId, userId) : null;
+            if (status === "waitlisted") {
+                const position = await storage.getWaitlistPosition(tripId, userId);
+                return res.json({ status, position, answers });
+            }
+            res.json({ status, answers });
+        } catch (error) {
+            console.error("Error fetching user trip status:", error);
+            res.status(500).json({ message: "Failed to fetch user trip status" });
+        }
+    },
+);
+
+// Leave trip
+router.delete(
+    "/:id/leave",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const tripId = req.params.id;
+            const userId = req.user!.userId;
+
+            // Check if user is a participant (waitlisted users may leave the queue too)
+            const status = await storage.getUserTripStatus(tripId, userId);
+            const isParticipant = await storage.isUserParticipant(tripId, userId);
+            if (!isParticipant && status !== "waitlisted") {
+                res.status(409).json({ message: "Not a participant of this trip" });
+                return;
+            }
+
+            await storage.leaveTrip(tripId, userId);
+
+            // A freed seat goes to the first user on the waitlist
+            if (status === "approved") {
+                await fillSeatsFromWaitlist(tripId);
+            }
+
+            res.json({ message: "Successfully left trip" });
+        } catch (error) {
+            console.error("Leave trip error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Get trip participants
+router.get("/:id/participants", authenticateIfPresent, async (req: AuthenticatedRequest, res) => {
+    try {
+        const trip = await storage.getTripById(req.params.id);
+        if (!trip || isHiddenDraft(trip, req.user?.userId)) {
+            return res.status(404).json({ message: "Trip not found" });
+        }
+
+        const participants = await storage.getTripParticipants(req.params.id);
+        res.json(participants);
+    } catch (error) {
+        console.error("Get participants error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
+// Remove a participant (or a waitlisted / pending user); organizers only.
+// Co-organizers cannot remove each other, and nobody can remove the creator
+router.delete(
+    "/:id/participants/:userId",
+    authenticateToken,
+    validateBody(removeTripParticipantSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const { id: tripId, userId } = req.params;
+            const currentUserId = req.user!.userId;
+            const { reason, ban } = req.body as RemoveTripParticipant;
+
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, currentUserId)) {
+                return res.status(403).json({ message: "Only trip organizers can remove participants" });
+            }
+            if (userId === trip.creatorId) {
+                return res.status(400).json({ message: "The trip creator cannot be removed" });
+            }
+            if (userId === currentUserId) {
+                return res.status(400).json({ message: "Use leave to quit the trip yourself" });
+            }
+            if (trip.coOrganizerIds.includes(userId) && trip.creatorId !== currentUserId) {
+                return res.status(403).json({ message: "Only trip creator can remove a co-organizer" });
+            }
+
+            const previousStatus = await storage.getUserTripStatus(tripId, userId);
+            if (!previousStatus && !ban) {
+                return res.status(404).json({ message: "Participant not found" });
+            }
+
+            // A ban is recorded even for users who never applied, so the user has to exist
+            const removedUser = await storage.getUser(userId);
+            if (!removedUser) {
+                return res.status(404).json({ message: "User not found" });
+            }
+            await storage.removeTripParticipant(tripId, userId, { ban, reason, bannedBy: currentUserId });
+
+            if (previousStatus === "approved") {
+                await sendTripChatSystemMessage(tripId, `Participant removed: ${removedUser.name || "Unknown"}`, "red");
+                await storage.syncTripChatRoles(tripId);
+            }
+            if (previousStatus) {
+                const notice = ban ? "You were removed from the trip and cannot join it again" : "You were removed from the trip";
+                await sendPrivateChatSystemMessage(
+                    trip.creatorId,
+                    userId,
+                    tripId,
+                    reason ? `${notice}. Reason: ${reason}` : notice,
+                    "red",
+                );
+            }
+            sendWS(userId, {
+                type: "trip_participant_removed",
+                tripId,
+                tripTitle: trip.title,
+                reason: reason ?? null,
+                banned: ban,
+            });
+
+            await sendConversationsUpdate(userId);
+            const participants = await storage.getTripParticipants(tripId);
+            for (const p of participants) {
+                await sendConversationsUpdate(p.id);
+            }
+
+            // A freed seat goes to the first user on the waitlist
+            if (previousStatus === "approved") {
+                await fillSeatsFromWaitlist(tripId);
+            }
+
+            res.json({ message: ban ? "Participant removed and banned" : "Participant removed" });
+        } catch (error) {
+            console.error("Remove participant error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Users banned from the trip, newest first; organizers only
+router.get(
+    "/:id/bans",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, req.user!.userId)) {
+                return res.status(403).json({ message: "Only trip organizers can view the ban list" });
+            }
+
+            const bans = await storage.getTripBans(trip.id);
+            res.json(bans);
+        } catch (error) {
+            console.error("Get trip bans error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Lift a ban so the user can apply again; organizers only
+router.delete(
+    "/:id/bans/:userId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const { id: tripId, userId } = req.params;
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, req.user!.userId)) {
+                return res.status(403).json({ message: "Only trip organizers can lift bans" });
+            }
+
+            const removed = await storage.unbanFromTrip(tripId, userId);
+            if (!removed) {
+                return res.status(404).json({ message: "Ban not found" });
+            }
+
+            res.json({ message: "Ban lifted" });
+        } catch (error) {
+            console.error("Lift trip ban error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// ===== Attendance =====
+
+// Attendance is taken on published trips and kept once they are completed
+const tracksAttendance = (trip: TripWithDetails) => trip.status === "published" || trip.status === "completed";
+
+// Attendance of the approved participants; visible to organizers and participants
+router.get(
+    "/:id/attendance",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!(await storage.isUserParticipant(trip.id, req.user!.userId))) {
+                return res.status(403).json({ message: "Only trip members can view attendance" });
+            }
+
+            const attendance = await storage.getTripAttendance(trip.id);
+            res.json(attendance);
+        } catch (error) {
+            console.error("Get trip attendance error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Organizers mark a participant present or absent once the trip has started; null clears the mark
+router.put(
+    "/:id/attendance/:userId",
+    authenticateToken,
+    validateBody(setAttendanceSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const { id: tripId, userId } = req.params;
+            const { attendance } = req.body as SetAttendance;
+
+            const trip = await storage.getTripById(tripId);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, req.user!.userId)) {
+                return res.status(403).json({ message: "Only trip organizers can mark attendance" });
+            }
+            if (!tracksAttendance(trip) || CheckInUtils.checkInWindow(trip) === "before") {
+                return res.status(409).json({ message: "Attendance can be marked once the trip starts", status: trip.status });
+            }
+
+            const updated = await storage.setAttendance(tripId, userId, attendance);
+            if (!updated) {
+                return res.status(404).json({ message: "User is not an approved participant of this trip" });
+            }
+
+            res.json({ userId, attendance });
+        } catch (error) {
+            console.error("Set attendance error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Rotating code the organizer shows to participants checking in; changes every minute
+router.get(
+    "/:id/check-in/code",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, req.user!.userId)) {
+                return res.status(403).json({ message: "Only trip organizers can show the check-in code" });
+            }
+            if (!tracksAttendance(trip) || CheckInUtils.checkInWindow(trip) !== "open") {
+                return res.status(409).json({ message: "Check-in is open only on the trip days", status: trip.status });
+            }
+
+            res.json(CheckInUtils.currentCode(trip.id));
+        } catch (error) {
+            console.error("Get check-in code error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Approved participants check themselves in with the organizer's current code
+router.post(
+    "/:id/check-in",
+    authenticateToken,
+    validateBody(checkInSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const { code } = req.body as CheckIn;
+
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if ((await storage.getUserTripStatus(trip.id, userId)) !== "approved") {
+                return res.status(403).json({ message: "Only approved participants can check in" });
+            }
+            if (!tracksAttendance(trip) || CheckInUtils.checkInWindow(trip) !== "open") {
+                return res.status(409).json({ message: "Check-in is open only on the trip days", status: trip.status });
+            }
+            if (CheckInUtils.isThrottled(userId)) {
+                return res.status(429).json({ message: "Too many wrong check-in codes, try again later" });
+            }
+            if (!CheckInUtils.verifyCode(trip.id, code)) {
+                CheckInUtils.recordFailedAttempt(userId);
+                return res.status(400).json({ message: "Invalid or expired check-in code" });
+            }
+            CheckInUtils.clearFailedAttempts(userId);
+
+            await storage.setAttendance(trip.id, userId, "present", { checkIn: true });
+            res.json({ userId, attendance: "present" });
+        } catch (error) {
+            console.error("Check-in error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// ===== Comments =====
+
+// Public comment threads, newest first
+router.get(
+    "/:id/comments",
+    authenticateIfPresent,
+    validateQuery(commentsQuerySchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip || isHiddenDraft(trip, req.user?.userId)) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+
+            const page = await storage.getTripComments(trip.id, req.query as unknown as CommentsQuery);
+            res.json(page);
+        } catch (error) {
+            console.error("Get comments error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Comment on a trip or reply to a comment; the trip creator is notified over WebSocket
+router.post(
+    "/:id/comments",
+    authenticateToken,
+    validateBody(insertCommentSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const body = req.body as InsertComment;
+
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip || isHiddenDraft(trip, userId)) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+
+            // Replies to replies join the top-level thread
+            let parentId: string | undefined;
+            if (body.parentId) {
+                const parent = await storage.getCommentById(body.parentId);
+                if (!parent || parent.tripId !== trip.id) {
+                    return res.status(404).json({ message: "Parent comment not found" });
+                }
+                parentId = parent.parentId ?? parent.id;
+            }
+
+            const created = await storage.createComment({
+                text: body.text,
+                parentId,
+                tripId: trip.id,
+                userId,
+            });
+            const comment = await storage.getCommentById(created.id);
+
+            if (trip.creatorId !== userId) {
+                sendWS(trip.creatorId, {
+                    type: "trip_comment",
+                    tripId: trip.id,
+                    tripTitle: trip.title,
+                    comment,
+                });
+            }
+
+            res.status(201).json(comment);
+        } catch (error) {
+            console.error("Create comment error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Edit a comment (author only)
+router.patch(
+    "/:id/comments/:commentId",
+    authenticateToken,
+    validateBody(updateCommentSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip || isHiddenDraft(trip, req.user!.userId)) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            const comment = await storage.getCommentById(req.params.commentId);
+            if (!comment || comment.tripId !== trip.id) {
+                return res.status(404).json({ message: "Comment not found" });
+            }
+            if (comment.userId !== req.user!.userId) {
+                return res.status(403).json({ message: "Only the author can edit this comment" });
+            }
+
+            await storage.updateComment(comment.id, req.body as UpdateComment);
+            res.json(await storage.getCommentById(comment.id));
+        } catch (error) {
+            console.error("Update comment error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Delete a comment with its replies (author, trip creator or admin)
+router.delete(
+    "/:id/comments/:commentId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip || isHiddenDraft(trip, userId)) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            const comment = await storage.getCommentById(req.params.commentId);
+            if (!comment || comment.tripId !== trip.id) {
+                return res.status(404).json({ message: "Comment not found" });
+            }
+
+            if (comment.userId !== userId) {
+                const user = await storage.getUser(userId);
+                if (trip.creatorId !== userId && user?.role !== "admin") {
+                    return res.status(403).json({ message: "Not allowed to delete this comment" });
+                }
+            }
+
+            await storage.deleteComment(comment.id);
+            res.json({ message: "Comment deleted" });
+        } catch (error) {
+            console.error("Delete comment error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// ===== Reviews =====
+
+// Public reviews of a trip, newest first
+router.get(
+    "/:id/reviews",
+    authenticateIfPresent,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip || isHiddenDraft(trip, req.user?.userId)) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+
+            const reviews = await storage.getTripReviews(trip.id);
+            res.json(reviews);
+        } catch (error) {
+            console.error("Get trip reviews error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Members of a completed trip (creator and approved participants) review each other, once per pair
+router.post(
+    "/:id/reviews",
+    authenticateToken,
+    validateBody(insertTripReviewSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const reviewerId = req.user!.userId;
+            const review = req.body as InsertTripReview;
+
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (trip.status !== "completed") {
+                return res.status(409).json({ message: "Reviews open once the trip is completed", status: trip.status });
+            }
+            if (!(await storage.isUserParticipant(trip.id, reviewerId))) {
+                return res.status(403).json({ message: "Only trip members can leave reviews" });
+            }
+            if (review.revieweeId === reviewerId) {
+                return res.status(400).json({ message: "You cannot review yourself" });
+            }
+            if (!(await storage.isUserParticipant(trip.id, review.revieweeId))) {
+                return res.status(400).json({ message: "Reviewed user is not a member of this trip" });
+            }
+
+            const created = await storage.createTripReview(trip.id, reviewerId, review);
+            if (!created) {
+                return res.status(409).json({ message: "You have already reviewed this user for this trip" });
+            }
+
+            sendWS(review.revieweeId, {
+                type: "trip_review_received",
+                tripId: trip.id,
+                tripTitle: trip.title,
+                reviewId: created.id,
+                rating: created.rating,
+            });
+
+            res.status(201).json(created);
+        } catch (error) {
+            console.error("Create trip review error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// The reviewed user answers a review, once
+router.post(
+    "/:id/reviews/:reviewId/reply",
+    authenticateToken,
+    validateBody(tripReviewReplySchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const review = await storage.getTripReview(req.params.reviewId);
+            if (!review || review.tripId !== req.params.id) {
+                return res.status(404).json({ message: "Review not found" });
+            }
+            if (review.revieweeId !== req.user!.userId) {
+                return res.status(403).json({ message: "Only the reviewed user can reply" });
+            }
+
+            const updated = await storage.replyToTripReview(review.id, (req.body as TripReviewReply).reply);
+            if (!updated) {
+                return res.status(409).json({ message: "This review already has a reply" });
+            }
+
+            res.json(updated);
+        } catch (error) {
+            console.error("Reply to trip review error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// ===== Expenses =====
+
+// Ids of the creator and approved participants, the people who can share costs
+const getTripMemberIds = async (tripId: string) =>
+    new Set((await storage.getTripParticipants(tripId)).map((member) => member.id));
+
+// Expenses, payments, balances and the settle-up plan; trip members only
+router.get(
+    "/:id/expenses",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!(await storage.isUserParticipant(trip.id, req.user!.userId))) {
+                return res.status(403).json({ message: "Only trip members can view expenses" });
+            }
+
+            const ledger = await storage.getTripLedger(trip.id);
+            res.json(ledger);
+        } catch (error) {
+            console.error("Get trip expenses error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// The ledger as a spreadsheet; trip members only
+router.get(
+    "/:id/expenses.csv",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!(await storage.isUserParticipant(trip.id, req.user!.userId))) {
+                return res.status(403).json({ message: "Only trip members can export expenses" });
+            }
+
+            const ledger = await storage.getTripLedger(trip.id);
+            res.setHeader("Content-Type", "text/csv; charset=utf-8");
+            res.setHeader("Content-Disposition", attachmentDisposition(trip.title, "expenses", "csv"));
+            res.send(ExpenseUtils.toCsv(ledger.expenses, ledger.settlements, ledger.users));
+        } catch (error) {
+            console.error("Export trip expenses error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// A member logs a cost paid by any member and split evenly between the members sharing it
+router.post(
+    "/:id/expenses",
+    authenticateToken,
+    validateBody(insertTripExpenseSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const expense = req.body as InsertTripExpense;
+
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            const memberIds = await getTripMemberIds(trip.id);
+            if (!memberIds.has(userId)) {
+                return res.status(403).json({ message: "Only trip members can log expenses" });
+            }
+            const payerId = expense.payerId ?? userId;
+            if (![payerId, ...expense.sharedWith].every((id) => memberIds.has(id))) {
+                return res.status(400).json({ message: "The payer and everyone sharing the expense must be trip members" });
+            }
+
+            const created = await storage.createTripExpense(trip.id, userId, { ...expense, payerId });
+            res.status(201).json(created);
+        } catch (error) {
+            console.error("Create trip expense error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Whoever logged or paid the expense removes it, as do trip organizers
+router.delete(
+    "/:id/expenses/:expenseId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            const expense = await storage.getTripExpense(req.params.expenseId);
+            if (!expense || expense.tripId !== trip.id) {
+                return res.status(404).json({ message: "Expense not found" });
+            }
+            if (expense.createdBy !== userId && expense.payerId !== userId && !canManageTrip(trip, userId)) {
+                return res.status(403).json({ message: "You can only delete expenses you logged or paid" });
+            }
+
+            await storage.deleteTripExpense(expense.id);
+            res.json({ message: "Expense deleted" });
+        } catch (error) {
+            console.error("Delete trip expense error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Records a payment between two members and announces it in the trip chat.
+// Either side of the payment or an organizer may record it
+router.post(
+    "/:id/settlements",
+    authenticateToken,
+    validateBody(insertTripSettlementSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const settlement = req.body as InsertTripSettlement;
+            const fromUserId = settlement.fromUserId ?? userId;
+
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            const memberIds = await getTripMemberIds(trip.id);
+            if (!memberIds.has(userId)) {
+                return res.status(403).json({ message: "Only trip members can record payments" });
+            }
+            if (fromUserId !== userId && settlement.toUserId !== userId && !canManageTrip(trip, userId)) {
+                return res.status(403).json({ message: "You can only record payments you made or received" });
+            }
+            if (fromUserId === settlement.toUserId) {
+                return res.status(400).json({ message: "A payment needs two different members" });
+            }
+            if (!memberIds.has(fromUserId) || !memberIds.has(settlement.toUserId)) {
+                return res.status(400).json({ message: "Both sides of the payment must be trip members" });
+            }
+
+            const created = await storage.createTripSettlement(trip.id, userId, { ...settlement, fromUserId });
+
+            const [from, to] = await Promise.all([storage.getUser(fromUserId), storage.getUser(settlement.toUserId)]);
+            await sendTripChatSystemMessage(
+                trip.id,
+                `${from?.name || "Unknown"} paid ${to?.name || "Unknown"} ${ExpenseUtils.formatAmount(created.amount, created.currency)}`,
+                "green",
+            );
+
+            res.status(201).json(created);
+        } catch (error) {
+            console.error("Create trip settlement error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Takes back a payment recorded by mistake; the person who recorded it or an organizer
+router.delete(
+    "/:id/settlements/:settlementId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            const settlement = await storage.getTripSettlement(req.params.settlementId);
+            if (!settlement || settlement.tripId !== trip.id) {
+                return res.status(404).json({ message: "Payment not found" });
+            }
+            if (settlement.createdBy !== userId && !canManageTrip(trip, userId)) {
+                return res.status(403).json({ message: "You can only cancel payments you recorded" });
+            }
+
+            await storage.deleteTripSettlement(settlement.id);
+
+            const [from, to] = await Promise.all([storage.getUser(settlement.fromUserId), storage.getUser(settlement.toUserId)]);
+            await sendTripChatSystemMessage(
+                trip.id,
+                `Payment cancelled: ${from?.name || "Unknown"} to ${to?.name || "Unknown"}, ${ExpenseUtils.formatAmount(settlement.amount, settlement.currency)}`,
+                "red",
+            );
+
+            res.json({ message: "Payment cancelled" });
+        } catch (error) {
+            console.error("Delete trip settlement error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// ===== Checklist =====
+
+// Members reload the checklist when told it changed
+const broadcastChecklistUpdate = async (tripId: string) => {
+    for (const memberId of Array.from(await getTripMemberIds(tripId))) {
+        sendWS(memberId, { type: "trip_checklist_updated", tripId });
+    }
+};
+
+// The item, provided it belongs to the trip
+const getTripChecklistItem = async (tripId: string, itemId: string) => {
+    const item = await storage.getTripChecklistItem(itemId);
+    return item?.tripId === tripId ? item : undefined;
+};
+
+// Packing list with claims and the current user's ticks; trip members only
+router.get(
+    "/:id/checklist",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!(await storage.isUserParticipant(trip.id, userId))) {
+                return res.status(403).json({ message: "Only trip members can view the checklist" });
+            }
+
+            const checklist = await storage.getTripChecklist(trip.id, userId);
+            res.json(checklist);
+        } catch (error) {
+            console.error("Get trip checklist error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Organizers add items one at a time
+router.post(
+    "/:id/checklist",
+    authenticateToken,
+    validateBody(insertChecklistItemSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, req.user!.userId)) {
+                return res.status(403).json({ message: "Only trip organizers can edit the checklist" });
+            }
+            if ((await storage.countTripChecklistItems(trip.id)) >= MAX_CHECKLIST_ITEMS) {
+                return res.status(400).json({ message: `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items` });
+            }
+
+            const [created] = await storage.createTripChecklistItems(trip.id, [req.body as InsertChecklistItem]);
+            await broadcastChecklistUpdate(trip.id);
+            res.status(201).json(created);
+        } catch (error) {
+            console.error("Create checklist item error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Copies the items of a checklist template, skipping titles already on the list
+router.post(
+    "/:id/checklist/templates/:templateId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, req.user!.userId)) {
+                return res.status(403).json({ message: "Only trip organizers can edit the checklist" });
+            }
+            const template = await storage.getChecklistTemplate(req.params.templateId);
+            if (!template) {
+                return res.status(404).json({ message: "Checklist template not found" });
+            }
+            if (template.typeId !== trip.type) {
+                return res.status(400).json({ message: "Checklist template belongs to another trip type" });
+            }
+
+            const existing = await storage.getTripChecklist(trip.id, req.user!.userId);
+            const titles = new Set(existing.map((item) => item.title.toLowerCase()));
+            const items = template.items.filter((item) => !titles.has(item.title.toLowerCase()));
+            if (existing.length + items.length > MAX_CHECKLIST_ITEMS) {
+                return res.status(400).json({ message: `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items` });
+            }
+
+            const created = await storage.createTripChecklistItems(trip.id, items);
+            if (created.length > 0) {
+                await broadcastChecklistUpdate(trip.id);
+            }
+            res.status(201).json(created);
+        } catch (error) {
+            console.error("Apply checklist template error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+router.delete(
+    "/:id/checklist/:itemId",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!canManageTrip(trip, req.user!.userId)) {
+                return res.status(403).json({ message: "Only trip organizers can edit the checklist" });
+            }
+            const item = await getTripChecklistItem(trip.id, req.params.itemId);
+            if (!item) {
+                return res.status(404).json({ message: "Checklist item not found" });
+            }
+
+            await storage.deleteTripChecklistItem(item.id);
+            await broadcastChecklistUpdate(trip.id);
+            res.json({ message: "Checklist item deleted" });
+        } catch (error) {
+            console.error("Delete checklist item error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// A member offers to bring a group item; the first claim wins
+router.post(
+    "/:id/checklist/:itemId/claim",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!(await storage.isUserParticipant(trip.id, userId))) {
+                return res.status(403).json({ message: "Only trip members can claim items" });
+            }
+            const item = await getTripChecklistItem(trip.id, req.params.itemId);
+            if (!item) {
+                return res.status(404).json({ message: "Checklist item not found" });
+            }
+            if (item.kind !== "group") {
+                return res.status(400).json({ message: "Only group items can be claimed" });
+            }
+
+            if (item.claimedBy !== userId && !(await storage.claimTripChecklistItem(item.id, userId))) {
+                return res.status(409).json({ message: "Someone is already bringing this item" });
+            }
+            await broadcastChecklistUpdate(trip.id);
+            res.json({ message: "Item claimed" });
+        } catch (error) {
+            console.error("Claim checklist item error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// The member bringing the item backs out, or an organizer frees it up
+router.delete(
+    "/:id/checklist/:itemId/claim",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            const item = await getTripChecklistItem(trip.id, req.params.itemId);
+            if (!item) {
+                return res.status(404).json({ message: "Checklist item not found" });
+            }
+            if (item.claimedBy !== userId && !canManageTrip(trip, userId)) {
+                return res.status(403).json({ message: "You can only release items you claimed" });
+            }
+
+            if (item.claimedBy) {
+                await storage.unclaimTripChecklistItem(item.id);
+                await broadcastChecklistUpdate(trip.id);
+            }
+            res.json({ message: "Item released" });
+        } catch (error) {
+            console.error("Release checklist item error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Ticks an item on the member's own list: any personal item, or a group item they are bringing
+router.put(
+    "/:id/checklist/:itemId/tick",
+    authenticateToken,
+    validateBody(checklistTickSchema as any),
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const userId = req.user!.userId;
+            const { ticked } = req.body as ChecklistTick;
+
+            const trip = await storage.getTripById(req.params.id);
+            if (!trip) {
+                return res.status(404).json({ message: "Trip not found" });
+            }
+            if (!(await storage.isUserParticipant(trip.id, userId))) {
+                return res.status(403).json({ message: "Only trip members can tick items" });
+            }
+            const item = await getTripChecklistItem(trip.id, req.params.itemId);
+            if (!item) {
+                return res.status(404).json({ message: "Checklist item not found" });
+            }
+            if (item.kind === "group" && item.claimedBy !== userId) {
+                return res.status(400).json({ message: "Claim the group item before ticking it" });
+            }
+
+            await storage.setChecklistTick(item.id, userId, ticked);
+            await broadcastChecklistUpdate(trip.id);
+            res.json({ ticked });
+        } catch (error) {
+            console.error("Tick checklist item error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
 
 export default router;
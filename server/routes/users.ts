@@ -17,6 +17,9 @@ import { updateUserProfileSchema } from "@shared/schema";
 
 const router = Router();
 
+const calendarFeedUrl = (req: AuthenticatedRequest, token: string) =>
+    `${req.protocol}://${req.get("host")}/api/calendar/${token}.ics`;
+
 // Get current user profile
 router.get(
     "/me",
@@ -37,6 +40,36 @@ router.get(
     },
 );
 
+// Calendar feed URL of the current user, created on first request
+router.get(
+    "/me/calendar",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const token = await storage.getCalendarToken(req.user!.userId);
+            res.json({ token, url: calendarFeedUrl(req, token) });
+        } catch (error) {
+            console.error("Get calendar feed error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
+// Replace the calendar feed token; subscriptions to the old URL stop working
+router.post(
+    "/me/calendar/rotate",
+    authenticateToken,
+    async (req: AuthenticatedRequest, res) => {
+        try {
+            const token = await storage.rotateCalendarToken(req.user!.userId);
+            res.json({ token, url: calendarFeedUrl(req, token) });
+        } catch (error) {
+            console.error("Rotate calendar feed error:", error);
+            res.status(500).json({ message: "Internal server error" });
+        }
+    },
+);
+
 // Update user profile
 router.patch(
     "/profile",
@@ -235,6 +268,17 @@ router.delete(
     },
 );
 
+// Reviews the user received, newest first
+router.get("/:id/reviews", async (req, res) => {
+    try {
+        const reviews = await storage.getUserReviews(req.params.id);
+        res.json(reviews);
+    } catch (error) {
+        console.error("Get user reviews error:", error);
+        res.status(500).json({ message: "Internal server error" });
+    }
+});
+
 // Get public user profile
 router.get("/:id", async (req, res) => {
     try {
@@ -258,6 +302,8 @@ router.get("/:id", async (req, res) => {
             messengers: user.messengers,
             additionalPhotos: user.additionalPhotos,
             createdAt: user.createdAt,
+            rating: await storage.getUserRating(user.id),
+            noShowCount: await storage.getNoShowCount(user.id),
         };
 
         res.json(publicProfile);
@@ -3,22 +3,58 @@ import {
   type InsertUser,
   type Trip,
   type InsertTrip,
+  type UpdateTrip,
+  type TripStatus,
+  type AcceptTripRequestResult,
+  type RedeemTripInviteResult,
+  type TripInvite,
+  type CreateTripInvite,
   type Comment,
   type InsertComment,
   type InsertMessage,
   type TripType,
   type TripWithDetails,
+  type TripSeriesWithOccurrences,
+  type TripTemplate,
+  type TripTemplateData,
+  type TripJoinRequest,
+  type TripAnswer,
+  type TripAttendance,
+  type AttendanceStatus,
+  type TripBanWithUser,
+  type TripReview,
+  type TripReviewWithUsers,
+  type InsertTripReview,
+  type UserRating,
+  type TripExpense,
+  type TripSettlement,
+  type TripLedger,
+  type InsertTripExpense,
+  type InsertTripSettlement,
+  type TripChecklistItem,
+  type TripChecklistEntry,
+  type InsertChecklistItem,
+  type ChecklistTemplate,
+  type InsertChecklistTemplate,
   type CommentWithUser,
+  type CommentsPage,
+  type CommentsQuery,
+  type UpdateComment,
   type MessageWithUsers,
   type ChatConversation,
   type ChatConversationBuckets,
   type TripFilters,
+  type TripsPage,
   type UserProfile,
   type UpdateUserProfile,
 } from "@shared/schema";
 import { UserRepository } from "./repositories/user-repository";
 import { TripRepository } from "./repositories/trip-repository";
 import { MessageRepository } from "./repositories/message-repository";
+import { ReviewRepository } from "./repositories/review-repository";
+import { ExpenseRepository } from "./repositories/expense-repository";
+import { ChecklistRepository } from "./repositories/checklist-repository";
+import type { EligibilityProfile } from "./utils/eligibility";
 
 export interface IStorage {
   // User operations
@@ -33,24 +69,55 @@ export interface IStorage {
   getAllUsers(): Promise<Pick<User, "id" | "name" | "email" | "role" | "status">[]>;
   updateUserStatus(userId: string, status: "active" | "blocked"): Promise<void>;
   deleteUserCascade(userId: string): Promise<void>;
+  getCalendarToken(userId: string): Promise<string>;
+  rotateCalendarToken(userId: string): Promise<string>;
+  getUserIdByCalendarToken(token: string): Promise<string | undefined>;
+  getNoShowCount(userId: string): Promise<number>;
 
   // Trip operations
-  getTrips(filters?: TripFilters): Promise<TripWithDetails[]>;
+  getTrips(filters?: TripFilters, eligibleFor?: EligibilityProfile): Promise<TripsPage>;
   getTripById(id: string): Promise<TripWithDetails | undefined>;
+  getJoinedTrips(userId: string): Promise<TripWithDetails[]>;
   createTrip(trip: InsertTrip, creatorId: string): Promise<Trip>;
+  createTripSeries(trip: InsertTrip, creatorId: string, dates: string[]): Promise<Trip[]>;
+  getTripSeries(seriesId: string): Promise<TripSeriesWithOccurrences | undefined>;
+  getUpcomingSeriesTrips(seriesId: string): Promise<TripWithDetails[]>;
+  getPhotoUrlsInUse(urls: string[]): Promise<Set<string>>;
+  getCalendarTrips(userId: string): Promise<Trip[]>;
+  cloneTrip(source: Trip, creatorId: string): Promise<Trip>;
+  getTripTemplates(userId: string): Promise<TripTemplate[]>;
+  countTripTemplates(userId: string): Promise<number>;
+  createTripTemplate(userId: string, name: string, data: TripTemplateData): Promise<TripTemplate>;
+  createTripTemplateFromTrip(userId: string, name: string, source: Trip): Promise<TripTemplate>;
+  deleteTripTemplate(userId: string, templateId: string): Promise<TripTemplate | undefined>;
+  updateTrip(id: string, data: UpdateTrip): Promise<Trip | undefined>;
+  deleteTrip(id: string): Promise<void>;
+  updateTripStatus(id: string, status: TripStatus): Promise<Trip | undefined>;
+  completePastTrips(): Promise<number>;
 
   // Trip participants
-  joinTrip(tripId: string, userId: string): Promise<void>;
+  joinTrip(tripId: string, userId: string, answers?: TripAnswer[]): Promise<void>;
   leaveTrip(tripId: string, userId: string): Promise<void>;
   getTripParticipants(tripId: string): Promise<UserProfile[]>;
   isUserParticipant(tripId: string, userId: string): Promise<boolean>;
-  getUserTripStatus(tripId: string, userId: string): Promise<string | null>; // pending, approved, rejected
+  getUserTripStatus(tripId: string, userId: string): Promise<string | null>; // pending, approved, rejected, waitlisted
+  getJoinAnswers(tripId: string, userId: string): Promise<TripAnswer[] | null>;
+  getTripAttendance(tripId: string): Promise<TripAttendance[]>;
+  setAttendance(
+    tripId: string,
+    userId: string,
+    attendance: AttendanceStatus | null,
+    options?: { checkIn?: boolean },
+  ): Promise<boolean>;
 
   // Comments
-  getTripComments(tripId: string): Promise<CommentWithUser[]>;
+  getTripComments(tripId: string, options: CommentsQuery): Promise<CommentsPage>;
+  getCommentById(id: string): Promise<CommentWithUser | undefined>;
   createComment(
     comment: InsertComment & { tripId: string; userId: string },
   ): Promise<Comment>;
+  updateComment(id: string, data: UpdateComment): Promise<Comment | undefined>;
+  deleteComment(id: string): Promise<void>;
 
   // Trip types
   getTripTypes(): Promise<TripType[]>;
@@ -76,11 +143,11 @@ export interface IStorage {
     otherUserId: string,
     tripId?: string | null,
   ): Promise<void>;
+  syncTripChatRoles(tripId: string): Promise<void>;
 
   // Initialize data
   initializeTripTypes(): Promise<void>;
 
-  joinTripAsApproved(tripId: string, userId: string): Promise<void>;
 
   // Favorites
   addToFavorites(tripId: string, userId: string): Promise<void>;
@@ -89,19 +156,81 @@ export interface IStorage {
   isFavorite(tripId: string, userId: string): Promise<boolean>;
 
   // Trip requests
-  acceptTripRequest(tripId: string, userId: string): Promise<void>;
+  acceptTripRequest(tripId: string, userId: string): Promise<AcceptTripRequestResult>;
   rejectTripRequest(tripId: string, userId: string): Promise<void>;
+  getWaitlistPosition(tripId: string, userId: string): Promise<number | null>;
+  promoteFromWaitlist(tripId: string): Promise<string | null>;
+  getPendingJoinRequests(tripId: string): Promise<TripJoinRequest[]>;
+  removeTripParticipant(
+    tripId: string,
+    userId: string,
+    options: { ban: boolean; reason?: string | null; bannedBy: string },
+  ): Promise<void>;
+  isBannedFromTrip(tripId: string, userId: string): Promise<boolean>;
+  getTripBans(tripId: string): Promise<TripBanWithUser[]>;
+  unbanFromTrip(tripId: string, userId: string): Promise<boolean>;
+  setCoOrganizer(tripId: string, userId: string, coOrganizer: boolean): Promise<boolean>;
+  setPendingOwner(tripId: string, userId: string | null): Promise<void>;
+  acceptOwnershipTransfer(tripId: string, userId: string): Promise<boolean>;
+
+  // Trip invites
+  createTripInvite(tripId: string, createdBy: string, options: CreateTripInvite): Promise<TripInvite>;
+  getActiveTripInvites(tripId: string): Promise<TripInvite[]>;
+  getTripInviteByToken(token: string): Promise<TripInvite | undefined>;
+  revokeTripInvite(tripId: string, inviteId: string): Promise<boolean>;
+  redeemTripInvite(inviteId: string, tripId: string, userId: string): Promise<RedeemTripInviteResult>;
+
+  // Reviews
+  getUserRating(userId: string): Promise<UserRating>;
+  createTripReview(tripId: string, reviewerId: string, review: InsertTripReview): Promise<TripReview | null>;
+  getTripReview(reviewId: string): Promise<TripReview | undefined>;
+  getTripReviews(tripId: string): Promise<TripReviewWithUsers[]>;
+  getUserReviews(userId: string): Promise<TripReviewWithUsers[]>;
+  replyToTripReview(reviewId: string, reply: string): Promise<TripReview | null>;
+
+  // Expenses
+  getTripLedger(tripId: string): Promise<TripLedger>;
+  createTripExpense(tripId: string, createdBy: string, expense: InsertTripExpense & { payerId: string }): Promise<TripExpense>;
+  getTripExpense(expenseId: string): Promise<TripExpense | undefined>;
+  deleteTripExpense(expenseId: string): Promise<void>;
+  createTripSettlement(
+    tripId: string,
+    createdBy: string,
+    settlement: InsertTripSettlement & { fromUserId: string },
+  ): Promise<TripSettlement>;
+  getTripSettlement(settlementId: string): Promise<TripSettlement | undefined>;
+  deleteTripSettlement(settlementId: string): Promise<void>;
+
+  // Checklists
+  getTripChecklist(tripId: string, userId: string): Promise<TripChecklistEntry[]>;
+  countTripChecklistItems(tripId: string): Promise<number>;
+  createTripChecklistItems(tripId: string, items: InsertChecklistItem[]): Promise<TripChecklistItem[]>;
+  getTripChecklistItem(itemId: string): Promise<TripChecklistItem | undefined>;
+  deleteTripChecklistItem(itemId: string): Promise<void>;
+  claimTripChecklistItem(itemId: string, userId: string): Promise<boolean>;
+  unclaimTripChecklistItem(itemId: string): Promise<void>;
+  setChecklistTick(itemId: string, userId: string, ticked: boolean): Promise<void>;
+  getChecklistTemplates(typeId: string): Promise<ChecklistTemplate[]>;
+  getChecklistTemplate(templateId: string): Promise<ChecklistTemplate | undefined>;
+  createChecklistTemplate(template: InsertChecklistTemplate): Promise<ChecklistTemplate>;
+  deleteChecklistTemplate(templateId: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
   private userRepo: UserRepository;
   private tripRepo: TripRepository;
   private messageRepo: MessageRepository;
+  private reviewRepo: ReviewRepository;
+  private expenseRepo: ExpenseRepository;
+  private checklistRepo: ChecklistRepository;
 
   constructor() {
     this.userRepo = new UserRepository();
     this.tripRepo = new TripRepository();
     this.messageRepo = new MessageRepository();
+    this.reviewRepo = new ReviewRepository();
+    this.expenseRepo = new ExpenseRepository();
+    this.checklistRepo = new ChecklistRepository();
   }
 
   // User operations
@@ -136,26 +265,106 @@ export class DatabaseStorage implements IStorage {
     return this.userRepo.updateUserStatus(userId, status);
   }
 
+  async getNoShowCount(userId: string): Promise<number> {
+    return this.userRepo.getNoShowCount(userId);
+  }
+
   async deleteUserCascade(userId: string): Promise<void> {
     return this.userRepo.deleteUserCascade(userId);
   }
 
+  async getCalendarToken(userId: string): Promise<string> {
+    return this.userRepo.getCalendarToken(userId);
+  }
+
+  async rotateCalendarToken(userId: string): Promise<string> {
+    return this.userRepo.rotateCalendarToken(userId);
+  }
+
+  async getUserIdByCalendarToken(token: string): Promise<string | undefined> {
+    return this.userRepo.getUserIdByCalendarToken(token);
+  }
+
   // Trip operations
-  async getTrips(filters?: TripFilters): Promise<TripWithDetails[]> {
-    return this.tripRepo.getTrips(filters);
+  async getTrips(filters?: TripFilters, eligibleFor?: EligibilityProfile): Promise<TripsPage> {
+    return this.tripRepo.getTrips(filters, eligibleFor);
   }
 
   async getTripById(id: string): Promise<TripWithDetails | undefined> {
     return this.tripRepo.getTripById(id);
   }
 
+  async getJoinedTrips(userId: string): Promise<TripWithDetails[]> {
+    return this.tripRepo.getJoinedTrips(userId);
+  }
+
   async createTrip(trip: InsertTrip, creatorId: string): Promise<Trip> {
     return this.tripRepo.createTrip(trip, creatorId);
   }
 
+  async createTripSeries(trip: InsertTrip, creatorId: string, dates: string[]): Promise<Trip[]> {
+    return this.tripRepo.createTripSeries(trip, creatorId, dates);
+  }
+
+  async getTripSeries(seriesId: string): Promise<TripSeriesWithOccurrences | undefined> {
+    return this.tripRepo.getTripSeries(seriesId);
+  }
+
+  async getUpcomingSeriesTrips(seriesId: string): Promise<TripWithDetails[]> {
+    return this.tripRepo.getUpcomingSeriesTrips(seriesId);
+  }
+
+  async getPhotoUrlsInUse(urls: string[]): Promise<Set<string>> {
+    return this.tripRepo.getPhotoUrlsInUse(urls);
+  }
+
+  async getCalendarTrips(userId: string): Promise<Trip[]> {
+    return this.tripRepo.getCalendarTrips(userId);
+  }
+
+  async cloneTrip(source: Trip, creatorId: string): Promise<Trip> {
+    return this.tripRepo.cloneTrip(source, creatorId);
+  }
+
+  async getTripTemplates(userId: string): Promise<TripTemplate[]> {
+    return this.tripRepo.getTripTemplates(userId);
+  }
+
+  async countTripTemplates(userId: string): Promise<number> {
+    return this.tripRepo.countTripTemplates(userId);
+  }
+
+  async createTripTemplate(userId: string, name: string, data: TripTemplateData): Promise<TripTemplate> {
+    return this.tripRepo.createTripTemplate(userId, name, data);
+  }
+
+  async createTripTemplateFromTrip(userId: string, name: string, source: Trip): Promise<TripTemplate> {
+    return this.tripRepo.createTripTemplateFromTrip(userId, name, source);
+  }
+
+  async deleteTripTemplate(userId: string, templateId: string): Promise<TripTemplate | undefined> {
+    return this.tripRepo.deleteTripTemplate(userId, templateId);
+  }
+
+  async updateTrip(id: string, data: UpdateTrip): Promise<Trip | undefined> {
+    return this.tripRepo.updateTrip(id, data);
+  }
+
+  async deleteTrip(id: string): Promise<void> {
+    return this.tripRepo.deleteTrip(id);
+  }
+
+  async updateTripStatus(id: string, status: TripStatus): Promise<Trip | undefined> {
+    return this.tripRepo.updateTripStatus(id, status);
+  }
+
+  async completePastTrips(): Promise<number> {
+    return this.tripRepo.completePastTrips();
+  }
+
   // Trip participants
-  async joinTrip(tripId: string, userId: string): Promise<void> {
-    return this.tripRepo.joinTrip(tripId, userId);
+  async joinTrip(tripId: string, userId: string, answers?: TripAnswer[]): Promise<void> {
+    return this.tripRepo.joinTrip(tripId, userId, answers);
   }
 
   async leaveTrip(tripId: string, userId: string): Promise<void> {
@@ -174,9 +383,30 @@ export class DatabaseStorage implements IStorage {
     return this.tripRepo.getUserTripStatus(tripId, userId);
   }
 
+  async getJoinAnswers(tripId: string, userId: string): Promise<TripAnswer[] | null> {
+    return this.tripRepo.getJoinAnswers(tripId, userId);
+  }
+
+  async getTripAttendance(tripId: string): Promise<TripAttendance[]> {
+    return this.tripRepo.getTripAttendance(tripId);
+  }
+
+  async setAttendance(
+    tripId: string,
+    userId: string,
+    attendance: AttendanceStatus | null,
+    options?: { checkIn?: boolean },
+  ): Promise<boolean> {
+    return this.tripRepo.setAttendance(tripId, userId, attendance, options);
+  }
+
   // Comments
-  async getTripComments(tripId: string): Promise<CommentWithUser[]> {
-    return this.tripRepo.getTripComments(tripId);
+  async getTripComments(tripId: string, options: CommentsQuery): Promise<CommentsPage> {
+    return this.tripRepo.getTripComments(tripId, options);
+  }
+
+  async getCommentById(id: string): Promise<CommentWithUser | undefined> {
+    return this.tripRepo.getCommentById(id);
   }
 
   async createComment(
@@ -185,6 +415,14 @@ export class DatabaseStorage implements IStorage {
     return this.tripRepo.createComment(comment);
   }
 
+  async updateComment(id: string, data: UpdateComment): Promise<Comment | undefined> {
+    return this.tripRepo.updateComment(id, data);
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    return this.tripRepo.deleteComment(id);
+  }
+
   // Trip types
   async getTripTypes(): Promise<TripType[]> {
     return this.tripRepo.getTripTypes();
@@ -226,15 +464,15 @@ export class DatabaseStorage implements IStorage {
     return this.messageRepo.markMessagesAsRead(userId, otherUserId, tripId);
   }
 
+  async syncTripChatRoles(tripId: string): Promise<void> {
+    return this.messageRepo.syncTripChatRoles(tripId);
+  }
+
   // Initialize data
   async initializeTripTypes(): Promise<void> {
     return this.tripRepo.initializeTripTypes();
   }
 
-  async joinTripAsApproved(tripId: string, userId: string): Promise<void> {
-    return this.tripRepo.joinTripAsApproved(tripId, userId);
-  }
-
   // Favorites
   async addToFavorites(tripId: string, userId: string): Promise<void> {
     return this.tripRepo.addToFavorites(tripId, userId);
@@ -253,13 +491,188 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Trip requests
-  async acceptTripRequest(tripId: string, userId: string): Promise<void> {
+  async acceptTripRequest(tripId: string, userId: string): Promise<AcceptTripRequestResult> {
     return this.tripRepo.acceptTripRequest(tripId, userId);
   }
 
   async rejectTripRequest(tripId: string, userId: string): Promise<void> {
     return this.tripRepo.rejectTripRequest(tripId, userId);
   }
+
+  async getWaitlistPosition(tripId: string, userId: string): Promise<number | null> {
+    return this.tripRepo.getWaitlistPosition(tripId, userId);
+  }
+
+  async promoteFromWaitlist(tripId: string): Promise<string | null> {
+    return this.tripRepo.promoteFromWaitlist(tripId);
+  }
+
+  async getPendingJoinRequests(tripId: string): Promise<TripJoinRequest[]> {
+    return this.tripRepo.getPendingJoinRequests(tripId);
+  }
+
+  async removeTripParticipant(
+    tripId: string,
+    userId: string,
+    options: { ban: boolean; reason?: string | null; bannedBy: string },
+  ): Promise<void> {
+    return this.tripRepo.removeTripParticipant(tripId, userId, options);
+  }
+
+  async isBannedFromTrip(tripId: string, userId: string): Promise<boolean> {
+    return this.tripRepo.isBannedFromTrip(tripId, userId);
+  }
+
+  async getTripBans(tripId: string): Promise<TripBanWithUser[]> {
+    return this.tripRepo.getTripBans(tripId);
+  }
+
+  async unbanFromTrip(tripId: string, userId: string): Promise<boolean> {
+    return this.tripRepo.unbanFromTrip(tripId, userId);
+  }
+
+  async setCoOrganizer(tripId: string, userId: string, coOrganizer: boolean): Promise<boolean> {
+    return this.tripRepo.setCoOrganizer(tripId, userId, coOrganizer);
+  }
+
+  async setPendingOwner(tripId: string, userId: string | null): Promise<void> {
+    return this.tripRepo.setPendingOwner(tripId, userId);
+  }
+
+  async acceptOwnershipTransfer(tripId: string, userId: string): Promise<boolean> {
+    return this.tripRepo.acceptOwnershipTransfer(tripId, userId);
+  }
+
+  async createTripInvite(tripId: string, createdBy: string, options: CreateTripInvite): Promise<TripInvite> {
+    return this.tripRepo.createTripInvite(tripId, createdBy, options);
+  }
+
+  async getActiveTripInvites(tripId: string): Promise<TripInvite[]> {
+    return this.tripRepo.getActiveTripInvites(tripId);
+  }
+
+  async getTripInviteByToken(token: string): Promise<TripInvite | undefined> {
+    return this.tripRepo.getTripInviteByToken(token);
+  }
+
+  async revokeTripInvite(tripId: string, inviteId: string): Promise<boolean> {
+    return this.tripRepo.revokeTripInvite(tripId, inviteId);
+  }
+
+  async redeemTripInvite(inviteId: string, tripId: string, userId: string): Promise<RedeemTripInviteResult> {
+    return this.tripRepo.redeemTripInvite(inviteId, tripId, userId);
+  }
+
+  // Reviews
+  async getUserRating(userId: string): Promise<UserRating> {
+    return this.reviewRepo.getUserRating(userId);
+  }
+
+  async createTripReview(tripId: string, reviewerId: string, review: InsertTripReview): Promise<TripReview | null> {
+    return this.reviewRepo.createTripReview(tripId, reviewerId, review);
+  }
+
+  async getTripReview(reviewId: string): Promise<TripReview | undefined> {
+    return this.reviewRepo.getTripReview(reviewId);
+  }
+
+  async getTripReviews(tripId: string): Promise<TripReviewWithUsers[]> {
+    return this.reviewRepo.getTripReviews(tripId);
+  }
+
+  async getUserReviews(userId: string): Promise<TripReviewWithUsers[]> {
+    return this.reviewRepo.getUserReviews(userId);
+  }
+
+  async replyToTripReview(reviewId: string, reply: string): Promise<TripReview | null> {
+    return this.reviewRepo.replyToTripReview(reviewId, reply);
+  }
+
+  // Expenses
+  async getTripLedger(tripId: string): Promise<TripLedger> {
+    return this.expenseRepo.getTripLedger(tripId);
+  }
+
+  async createTripExpense(
+    tripId: string,
+    createdBy: string,
+    expense: InsertTripExpense & { payerId: string },
+  ): Promise<TripExpense> {
+    return this.expenseRepo.createTripExpense(tripId, createdBy, expense);
+  }
+
+  async getTripExpense(expenseId: string): Promise<TripExpense | undefined> {
+    return this.expenseRepo.getTripExpense(expenseId);
+  }
+
+  async deleteTripExpense(expenseId: string): Promise<void> {
+    return this.expenseRepo.deleteTripExpense(expenseId);
+  }
+
+  async createTripSettlement(
+    tripId: string,
+    createdBy: string,
+    settlement: InsertTripSettlement & { fromUserId: string },
+  ): Promise<TripSettlement> {
+    return this.expenseRepo.createTripSettlement(tripId, createdBy, settlement);
+  }
+
+  async getTripSettlement(settlementId: string): Promise<TripSettlement | undefined> {
+    return this.expenseRepo.getTripSettlement(settlementId);
+  }
+
+  async deleteTripSettlement(settlementId: string): Promise<void> {
+    return this.expenseRepo.deleteTripSettlement(settlementId);
+  }
+
+  // Checklists
+  async getTripChecklist(tripId: string, userId: string): Promise<TripChecklistEntry[]> {
+    return this.checklistRepo.getTripChecklist(tripId, userId);
+  }
+
+  async countTripChecklistItems(tripId: string): Promise<number> {
+    return this.checklistRepo.countTripChecklistItems(tripId);
+  }
+
+  async createTripChecklistItems(tripId: string, items: InsertChecklistItem[]): Promise<TripChecklistItem[]> {
+    return this.checklistRepo.createTripChecklistItems(tripId, items);
+  }
+
+  async getTripChecklistItem(itemId: string): Promise<TripChecklistItem | undefined> {
+    return this.checklistRepo.getTripChecklistItem(itemId);
+  }
+
+  async deleteTripChecklistItem(itemId: string): Promise<void> {
+    return this.checklistRepo.deleteTripChecklistItem(itemId);
+  }
+
+  async claimTripChecklistItem(itemId: string, userId: string): Promise<boolean> {
+    return this.checklistRepo.claimTripChecklistItem(itemId, userId);
+  }
+
+  async unclaimTripChecklistItem(itemId: string): Promise<void> {
+    return this.checklistRepo.unclaimTripChecklistItem(itemId);
+  }
+
+  async setChecklistTick(itemId: string, userId: string, ticked: boolean): Promise<void> {
+    return this.checklistRepo.setChecklistTick(itemId, userId, ticked);
+  }
+
+  async getChecklistTemplates(typeId: string): Promise<ChecklistTemplate[]> {
+    return this.checklistRepo.getChecklistTemplates(typeId);
+  }
+
+  async getChecklistTemplate(templateId: string): Promise<ChecklistTemplate | undefined> {
+    return this.checklistRepo.getChecklistTemplate(templateId);
+  }
+
+  async createChecklistTemplate(template: InsertChecklistTemplate): Promise<ChecklistTemplate> {
+    return this.checklistRepo.createChecklistTemplate(template);
+  }
+
+  async deleteChecklistTemplate(templateId: string): Promise<boolean> {
+    return this.checklistRepo.deleteChecklistTemplate(templateId);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import type { Trip } from '@shared/schema';
+
+const CHECK_IN_SECRET = process.env.CHECK_IN_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+const CODE_PERIOD_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const ATTEMPT_WINDOW_MS = 10 * 60 * 1000;
+
+// Wrong codes per user; in memory, a restart only hands out a fresh allowance
+const failedAttempts = new Map<string, { count: number; resetAt: number }>();
+
+export type CheckInWindow = 'before' | 'open' | 'after';
+
+export class CheckInUtils {
+  // Six digits derived from the trip id and the current minute, so nothing has to be stored
+  static currentCode(tripId: string, now = Date.now()): { code: string; expiresAt: Date } {
+    const period = Math.floor(now / CODE_PERIOD_MS);
+    return { code: this.codeFor(tripId, period), expiresAt: new Date((period + 1) * CODE_PERIOD_MS) };
+  }
+
+  // The previous code is still accepted, it may have been read just before it changed
+  static verifyCode(tripId: string, code: string, now = Date.now()): boolean {
+    if (!/^[0-9]{6}$/.test(code)) return false;
+    const period = Math.floor(now / CODE_PERIOD_MS);
+    return [period, period - 1].some((candidate) =>
+      crypto.timingSafeEqual(Buffer.from(this.codeFor(tripId, candidate)), Buffer.from(code)),
+    );
+  }
+
+  // Check-in is open on the trip's days. Trip dates carry no time zone, so the window
+  // gets a day of slack on both sides of the server's date
+  static checkInWindow(trip: Pick<Trip, 'date' | 'endDate'>, now = Date.now()): CheckInWindow {
+    if (!trip.date) return 'before';
+    const opensAt = Date.parse(`${trip.date}T00:00:00Z`) - DAY_MS;
+    const closesAt = Date.parse(`${trip.endDate ?? trip.date}T00:00:00Z`) + 2 * DAY_MS;
+    if (now < opensAt) return 'before';
+    return now < closesAt ? 'open' : 'after';
+  }
+
+  // A few wrong codes are typos, more than that in the window is someone guessing
+  static isThrottled(userId: string, now = Date.now()): boolean {
+    const attempts = failedAttempts.get(userId);
+    if (!attempts) return false;
+    if (attempts.resetAt <= now) {
+      failedAttempts.delete(userId);
+      return false;
+    }
+    return attempts.count >= MAX_FAILED_ATTEMPTS;
+  }
+
+  static recordFailedAttempt(userId: string, now = Date.now()): void {
+    const attempts = failedAttempts.get(userId);
+    if (attempts && attempts.resetAt > now) {
+      attempts.count += 1;
+    } else {
+      failedAttempts.set(userId, { count: 1, resetAt: now + ATTEMPT_WINDOW_MS });
+    }
+  }
+
+  static clearFailedAttempts(userId: string): void {
+    failedAttempts.delete(userId);
+  }
+
+  private static codeFor(tripId: string, period: number): string {
+    const digest = crypto.createHmac('sha256', CHECK_IN_SECRET).update(`${tripId}:${period}`).digest();
+    return String(digest.readUInt32BE(0) % 1_000_000).padStart(6, '0');
+  }
+}
@@ -0,0 +1,48 @@
+import type { Trip, User } from '@shared/schema';
+
+export type TripRestrictedFields = Pick<Trip, 'participantGender' | 'minAge' | 'maxAge'>;
+export type EligibilityProfile = Pick<User, 'gender' | 'age'>;
+
+export interface JoinRestriction {
+  reason: 'gender' | 'age' | 'age_unknown';
+  message: string;
+}
+
+export class EligibilityUtils {
+  // Returns why the user may not join the trip, or null when they are eligible
+  static getJoinRestriction(
+    trip: TripRestrictedFields,
+    user: EligibilityProfile
+  ): JoinRestriction | null {
+    if (trip.participantGender !== 'any' && user.gender !== trip.participantGender) {
+      return {
+        reason: 'gender',
+        message: `This trip is for ${trip.participantGender} participants only`,
+      };
+    }
+
+    if (trip.minAge == null && trip.maxAge == null) return null;
+
+    if (user.age == null) {
+      return {
+        reason: 'age_unknown',
+        message: 'Add your age to your profile to join this trip',
+      };
+    }
+
+    if ((trip.minAge != null && user.age < trip.minAge) || (trip.maxAge != null && user.age > trip.maxAge)) {
+      return {
+        reason: 'age',
+        message: `This trip is for participants aged ${EligibilityUtils.formatAgeRange(trip)}`,
+      };
+    }
+
+    return null;
+  }
+
+  static formatAgeRange(trip: Pick<Trip, 'minAge' | 'maxAge'>): string {
+    if (trip.minAge != null && trip.maxAge != null) return `${trip.minAge}–${trip.maxAge}`;
+    if (trip.minAge != null) return `${trip.minAge} and older`;
+    return `up to ${trip.maxAge}`;
+  }
+}
@@ -0,0 +1,117 @@
+import type { SettleUpTransfer, TripBalance, TripExpense, TripSettlement } from '@shared/schema';
+
+type LedgerUser = { id: string; name: string };
+
+export class ExpenseUtils {
+  // Even shares in minor units; the cents left over go one each to the first members,
+  // ordered by id so every client computes the same split
+  static splitAmount(amount: number, userIds: string[]): Map<string, number> {
+    const sorted = [...userIds].sort();
+    const base = Math.floor(amount / sorted.length);
+    const remainder = amount - base * sorted.length;
+    return new Map(sorted.map((userId, index) => [userId, base + (index < remainder ? 1 : 0)]));
+  }
+
+  // What each member paid minus their share, adjusted by payments already made.
+  // Members whose balance is settled are left out
+  static computeBalances(expenses: TripExpense[], settlements: TripSettlement[]): TripBalance[] {
+    const totals = new Map<string, Map<string, number>>();
+    const add = (currency: string, userId: string, amount: number) => {
+      const byUser = totals.get(currency) ?? new Map<string, number>();
+      byUser.set(userId, (byUser.get(userId) ?? 0) + amount);
+      totals.set(currency, byUser);
+    };
+
+    for (const expense of expenses) {
+      add(expense.currency, expense.payerId, expense.amount);
+      for (const [userId, share] of Array.from(this.splitAmount(expense.amount, expense.sharedWith))) {
+        add(expense.currency, userId, -share);
+      }
+    }
+    for (const settlement of settlements) {
+      add(settlement.currency, settlement.fromUserId, settlement.amount);
+      add(settlement.currency, settlement.toUserId, -settlement.amount);
+    }
+
+    const balances: TripBalance[] = [];
+    for (const [currency, byUser] of Array.from(totals.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      for (const [userId, amount] of Array.from(byUser)) {
+        if (amount !== 0) balances.push({ userId, currency, amount });
+      }
+    }
+    return balances;
+  }
+
+  // Greedy plan per currency: the largest debtor pays the largest creditor until one of them
+  // is settled. Needs at most one payment fewer than there are members with a balance
+  static settleUp(balances: TripBalance[]): SettleUpTransfer[] {
+    const transfers: SettleUpTransfer[] = [];
+    const currencies = Array.from(new Set(balances.map((balance) => balance.currency)));
+
+    for (const currency of currencies) {
+      const inCurrency = balances.filter((balance) => balance.currency === currency);
+      const creditors = inCurrency.filter((b) => b.amount > 0).map((b) => ({ ...b })).sort((a, b) => b.amount - a.amount);
+      const debtors = inCurrency.filter((b) => b.amount < 0).map((b) => ({ ...b, amount: -b.amount })).sort((a, b) => b.amount - a.amount);
+
+      let c = 0;
+      let d = 0;
+      while (c < creditors.length && d < debtors.length) {
+        const amount = Math.min(creditors[c].amount, debtors[d].amount);
+        transfers.push({ fromUserId: debtors[d].userId, toUserId: creditors[c].userId, currency, amount });
+        creditors[c].amount -= amount;
+        debtors[d].amount -= amount;
+        if (creditors[c].amount === 0) c++;
+        if (debtors[d].amount === 0) d++;
+      }
+    }
+    return transfers;
+  }
+
+  // "12.50 EUR"
+  static formatAmount(amount: number, currency: string): string {
+    return `${(amount / 100).toFixed(2)} ${currency}`;
+  }
+
+  // Expenses and payments in the order they were logged, one row each
+  static toCsv(expenses: TripExpense[], settlements: TripSettlement[], users: LedgerUser[]): string {
+    const names = new Map(users.map((user) => [user.id, user.name]));
+    const name = (userId: string) => names.get(userId) ?? 'Unknown';
+
+    const rows = [
+      ...expenses.map((expense) => ({
+        createdAt: expense.createdAt,
+        cells: [
+          'expense',
+          expense.description,
+          name(expense.payerId),
+          expense.sharedWith.map(name).join('; '),
+          (expense.amount / 100).toFixed(2),
+          expense.currency,
+        ],
+      })),
+      ...settlements.map((settlement) => ({
+        createdAt: settlement.createdAt,
+        cells: [
+          'settlement',
+          '',
+          name(settlement.fromUserId),
+          name(settlement.toUserId),
+          (settlement.amount / 100).toFixed(2),
+          settlement.currency,
+        ],
+      })),
+    ].sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+    const lines = [
+      ['date', 'type', 'description', 'paid_by', 'shared_with_or_paid_to', 'amount', 'currency'],
+      ...rows.map((row) => [row.createdAt?.toISOString() ?? '', ...row.cells]),
+    ];
+    return lines.map((cells) => cells.map(this.escapeCsv).join(',')).join('\r\n') + '\r\n';
+  }
+
+  // Quotes when needed; text that spreadsheets would run as a formula is prefixed with '
+  private static escapeCsv(value: string): string {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+}
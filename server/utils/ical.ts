@@ -0,0 +1,134 @@
+import type { Trip } from '@shared/schema';
+
+export type CalendarTrip = Pick<
+  Trip,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'city'
+  | 'location'
+  | 'date'
+  | 'time'
+  | 'endDate'
+  | 'estimatedMinutes'
+  | 'status'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+// Timed trips without a route estimate are shown as two hours long
+const DEFAULT_EVENT_MINUTES = 120;
+const MAX_LINE_OCTETS = 75;
+
+export class ICalUtils {
+  // RFC 5545 calendar with one VEVENT per dated trip; `tripUrl` links each event back to the app
+  static toCalendar(trips: CalendarTrip[], options: { name: string; tripUrl: (tripId: string) => string }): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Wayzer//Trips//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(options.name)}`,
+    ];
+
+    for (const trip of trips) {
+      if (!trip.date) continue;
+      lines.push(...ICalUtils.eventLines(trip, options.tripUrl(trip.id)));
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  // Trip times carry no time zone, so timed events use floating local time
+  private static eventLines(trip: CalendarTrip, url: string): string[] {
+    const date = trip.date!;
+    const time = trip.time?.slice(0, 5);
+    const lastDay = trip.endDate ?? date;
+
+    let start: string;
+    let end: string;
+    if (!time) {
+      start = `DTSTART;VALUE=DATE:${compactDate(date)}`;
+      end = `DTEND;VALUE=DATE:${compactDate(addDays(lastDay, 1))}`;
+    } else if (trip.endDate) {
+      start = `DTSTART:${compactDateTime(date, time)}`;
+      end = `DTEND:${compactDateTime(addDays(lastDay, 1), '00:00')}`;
+    } else {
+      start = `DTSTART:${compactDateTime(date, time)}`;
+      end = `DTEND:${addMinutes(date, time, trip.estimatedMinutes ?? DEFAULT_EVENT_MINUTES)}`;
+    }
+
+    const description = [trip.description, url].filter(Boolean).join('\n\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${trip.id}@wayzer`,
+      `DTSTAMP:${utcStamp(trip.updatedAt ?? trip.createdAt ?? new Date())}`,
+      start,
+      end,
+      `SUMMARY:${escapeText(trip.title)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `LOCATION:${escapeText(trip.city)}`,
+      `GEO:${trip.location.lat};${trip.location.lng}`,
+      `URL:${url}`,
+      `STATUS:${trip.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT',
+    ];
+  }
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Long lines are split into 75-octet chunks, continuation lines start with a space
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of Array.from(line)) {
+    const octets = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function compactDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '');
+}
+
+function compactDateTime(date: string, time: string): string {
+  return `${compactDate(date)}T${time.replace(':', '')}00`;
+}
+
+function addDays(date: string, days: number): string {
+  const value = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+// Floating time arithmetic done in UTC so no local offset sneaks in
+function addMinutes(date: string, time: string, minutes: number): string {
+  const value = new Date(`${date.slice(0, 10)}T${time}:00Z`);
+  value.setUTCMinutes(value.getUTCMinutes() + minutes);
+  return value.toISOString().slice(0, 19).replace(/[-:]/g, '');
+}
+
+function utcStamp(value: Date): string {
+  return `${value.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
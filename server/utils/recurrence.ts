@@ -0,0 +1,46 @@
+import { MAX_SERIES_OCCURRENCES, type RecurrenceRule } from '@shared/schema';
+
+const DAY_MS = 86_400_000;
+
+export class RecurrenceUtils {
+  // Start dates (YYYY-MM-DD) of every occurrence, the first date included. Monthly rules skip
+  // months that lack the day (a series on the 31st has no April occurrence). Stops one past
+  // MAX_SERIES_OCCURRENCES so callers can tell an over-long rule apart from a full one
+  static occurrenceDates(startDate: string, rule: RecurrenceRule): string[] {
+    const start = parseDate(startDate);
+    const until = rule.until ? parseDate(rule.until) : null;
+    const limit = Math.min(rule.count ?? Infinity, MAX_SERIES_OCCURRENCES + 1);
+    const interval = rule.interval ?? 1;
+
+    const dates: string[] = [];
+    for (let step = 0; dates.length < limit; step++) {
+      let next: Date;
+      if (rule.frequency === 'weekly') {
+        next = new Date(start.getTime() + step * interval * 7 * DAY_MS);
+      } else {
+        next = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + step * interval, start.getUTCDate()));
+        if (next.getUTCDate() !== start.getUTCDate()) {
+          // Date.UTC rolled over into the following month
+          if (until && next > until) break;
+          continue;
+        }
+      }
+      if (until && next > until) break;
+      dates.push(formatDate(next));
+    }
+    return dates;
+  }
+
+  // Moves a date by the offset between two other dates, e.g. an endDate along with its occurrence
+  static shiftDate(date: string, from: string, to: string): string {
+    return formatDate(new Date(parseDate(date).getTime() + parseDate(to).getTime() - parseDate(from).getTime()));
+  }
+}
+
+function parseDate(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+}
+
+function formatDate(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
@@ -0,0 +1,283 @@
+import type { Trip, TripWaypoint } from '@shared/schema';
+import { RouteGeometryUtils, type RoutePoint } from './route-geometry';
+
+export type RouteFileFormat = 'gpx' | 'kml' | 'geojson';
+export type ExportableTrip = Pick<Trip, 'title' | 'description' | 'location' | 'route' | 'waypoints'>;
+
+export interface ImportedRoute {
+  format: RouteFileFormat;
+  name: string | null;
+  route: RoutePoint[];
+  location: RoutePoint;
+  originalPoints: number;
+}
+
+// Route maps render a marker per point, so imported tracks are thinned down to this many
+export const MAX_IMPORTED_ROUTE_POINTS = 500;
+
+export class RouteFileUtils {
+  static detectFormat(filename: string, content: string): RouteFileFormat | null {
+    const ext = filename.toLowerCase().split('.').pop();
+    if (ext === 'gpx') return 'gpx';
+    if (ext === 'kml') return 'kml';
+    if (ext === 'geojson' || ext === 'json') return 'geojson';
+
+    const head = content.trimStart().slice(0, 500);
+    if (head.startsWith('{')) return 'geojson';
+    if (/<gpx[\s>]/i.test(head)) return 'gpx';
+    if (/<kml[\s>]/i.test(head)) return 'kml';
+    return null;
+  }
+
+  // Returns null when the file has no usable points
+  static parse(filename: string, content: string): ImportedRoute | null {
+    const format = RouteFileUtils.detectFormat(filename, content);
+    if (!format) return null;
+
+    const parsed =
+      format === 'gpx'
+        ? RouteFileUtils.parseGpx(content)
+        : format === 'kml'
+          ? RouteFileUtils.parseKml(content)
+          : RouteFileUtils.parseGeoJson(content);
+    if (!parsed) return null;
+
+    const points = parsed.points.filter(isValidPoint);
+    if (points.length === 0) return null;
+
+    const route = RouteGeometryUtils.simplifyToLimit(points, MAX_IMPORTED_ROUTE_POINTS);
+    return {
+      format,
+      name: parsed.name,
+      route,
+      location: route[0],
+      originalPoints: points.length,
+    };
+  }
+
+  static toGpx(trip: ExportableTrip): string {
+    const route = trip.route ?? [];
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gpx version="1.1" creator="Wayzer" xmlns="http://www.topografix.com/GPX/1/1">',
+      '  <metadata>',
+      `    <name>${escapeXml(trip.title)}</name>`,
+      ...(trip.description ? [`    <desc>${escapeXml(trip.description)}</desc>`] : []),
+      '  </metadata>',
+    ];
+
+    for (const { point, name, description, kind } of RouteFileUtils.exportedWaypoints(trip)) {
+      lines.push(
+        `  <wpt lat="${point.lat}" lon="${point.lng}">`,
+        `    <name>${escapeXml(name)}</name>`,
+        ...(description ? [`    <desc>${escapeXml(description)}</desc>`] : []),
+        `    <type>${kind}</type>`,
+        '  </wpt>',
+      );
+    }
+
+    if (route.length > 0) {
+      lines.push(
+        '  <trk>',
+        `    <name>${escapeXml(trip.title)}</name>`,
+        '    <trkseg>',
+        ...route.map((point) => `      <trkpt lat="${point.lat}" lon="${point.lng}"/>`),
+        '    </trkseg>',
+        '  </trk>',
+      );
+    }
+
+    lines.push('</gpx>', '');
+    return lines.join('\n');
+  }
+
+  static toKml(trip: ExportableTrip): string {
+    const route = trip.route ?? [];
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<kml xmlns="http://www.opengis.net/kml/2.2">',
+      '  <Document>',
+      `    <name>${escapeXml(trip.title)}</name>`,
+      ...(trip.description ? [`    <description>${escapeXml(trip.description)}</description>`] : []),
+    ];
+
+    for (const { point, name, description } of RouteFileUtils.exportedWaypoints(trip)) {
+      lines.push(
+        '    <Placemark>',
+        `      <name>${escapeXml(name)}</name>`,
+        ...(description ? [`      <description>${escapeXml(description)}</description>`] : []),
+        `      <Point><coordinates>${point.lng},${point.lat}</coordinates></Point>`,
+        '    </Placemark>',
+      );
+    }
+
+    if (route.length > 0) {
+      lines.push(
+        '    <Placemark>',
+        `      <name>${escapeXml(trip.title)}</name>`,
+        '      <LineString>',
+        '        <tessellate>1</tessellate>',
+        `        <coordinates>${route.map((point) => `${point.lng},${point.lat}`).join(' ')}</coordinates>`,
+        '      </LineString>',
+        '    </Placemark>',
+      );
+    }
+
+    lines.push('  </Document>', '</kml>', '');
+    return lines.join('\n');
+  }
+
+  // Named waypoints resolved to coordinates; the meeting point stands in when none is marked
+  private static exportedWaypoints(trip: ExportableTrip): Array<{
+    point: RoutePoint;
+    name: string;
+    description: string | null;
+    kind: TripWaypoint['kind'];
+  }> {
+    const route = trip.route ?? [];
+    const waypoints = (trip.waypoints ?? [])
+      .filter((waypoint) => route[waypoint.routeIndex])
+      .map((waypoint) => ({
+        point: route[waypoint.routeIndex],
+        name: waypoint.name,
+        description: [waypoint.time, waypoint.note].filter(Boolean).join(' · ') || null,
+        kind: waypoint.kind,
+      }));
+
+    if (!waypoints.some((waypoint) => waypoint.kind === 'meeting')) {
+      waypoints.unshift({ point: trip.location, name: 'Start', description: null, kind: 'meeting' });
+    }
+    return waypoints;
+  }
+
+  private static parseGpx(content: string): { name: string | null; points: RoutePoint[] } | null {
+    // Prefer recorded tracks, then planned routes, then loose waypoints
+    for (const tag of ['trkpt', 'rtept', 'wpt']) {
+      const points: RoutePoint[] = [];
+      const pattern = new RegExp(`<${tag}\\b([^>]*)>`, 'gi');
+      for (const match of Array.from(content.matchAll(pattern))) {
+        const lat = readAttribute(match[1], 'lat');
+        const lng = readAttribute(match[1], 'lon');
+        if (lat !== null && lng !== null) points.push({ lat, lng });
+      }
+      if (points.length > 0) {
+        return { name: readFirstName(content), points };
+      }
+    }
+    return null;
+  }
+
+  private static parseKml(content: string): { name: string | null; points: RoutePoint[] } | null {
+    const lineStrings = Array.from(content.matchAll(/<LineString\b[\s\S]*?<\/LineString>/gi));
+    const blocks = lineStrings.length > 0 ? lineStrings.map((match) => match[0]) : [content];
+
+    const points: RoutePoint[] = [];
+    for (const block of blocks) {
+      for (const match of Array.from(block.matchAll(/<coordinates>([\s\S]*?)<\/coordinates>/gi))) {
+        for (const tuple of match[1].trim().split(/\s+/)) {
+          const [lng, lat] = tuple.split(',').map(Number);
+          points.push({ lat, lng });
+        }
+      }
+    }
+
+    // Google Earth tracks store points as <gx:coord>lng lat alt</gx:coord>
+    if (points.length === 0) {
+      for (const match of Array.from(content.matchAll(/<gx:coord>([\s\S]*?)<\/gx:coord>/gi))) {
+        const [lng, lat] = match[1].trim().split(/\s+/).map(Number);
+        points.push({ lat, lng });
+      }
+    }
+
+    return points.length > 0 ? { name: readFirstName(content), points } : null;
+  }
+
+  private static parseGeoJson(content: string): { name: string | null; points: RoutePoint[] } | null {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return null;
+    }
+
+    const features: any[] =
+      data?.type === 'FeatureCollection'
+        ? data.features ?? []
+        : data?.type === 'Feature'
+          ? [data]
+          : [{ type: 'Feature', properties: {}, geometry: data }];
+
+    let name: string | null = null;
+    const linePoints: RoutePoint[] = [];
+    const loosePoints: RoutePoint[] = [];
+
+    for (const feature of features) {
+      const geometry = feature?.geometry;
+      if (!geometry) continue;
+
+      const isLine = geometry.type === 'LineString' || geometry.type === 'MultiLineString';
+      if (isLine && name === null && typeof feature.properties?.name === 'string') {
+        name = feature.properties.name;
+      }
+
+      if (geometry.type === 'LineString') {
+        linePoints.push(...geometry.coordinates.map(toPoint));
+      } else if (geometry.type === 'MultiLineString') {
+        for (const line of geometry.coordinates) linePoints.push(...line.map(toPoint));
+      } else if (geometry.type === 'Point') {
+        loosePoints.push(toPoint(geometry.coordinates));
+      } else if (geometry.type === 'MultiPoint') {
+        loosePoints.push(...geometry.coordinates.map(toPoint));
+      }
+    }
+
+    const points = linePoints.length > 0 ? linePoints : loosePoints;
+    return points.length > 0 ? { name, points } : null;
+  }
+}
+
+function toPoint(position: unknown): RoutePoint {
+  const [lng, lat] = Array.isArray(position) ? position.map(Number) : [NaN, NaN];
+  return { lat, lng };
+}
+
+function isValidPoint(point: RoutePoint): boolean {
+  return (
+    Number.isFinite(point.lat) &&
+    Number.isFinite(point.lng) &&
+    Math.abs(point.lat) <= 90 &&
+    Math.abs(point.lng) <= 180
+  );
+}
+
+function readAttribute(attributes: string, name: string): number | null {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`, 'i'));
+  if (!match) return null;
+  const value = Number(match[1]);
+  return Number.isFinite(value) ? value : null;
+}
+
+function readFirstName(content: string): string | null {
+  const match = content.match(/<name>([\s\S]*?)<\/name>/i);
+  if (!match) return null;
+  const name = unescapeXml(match[1].replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')).trim();
+  return name || null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
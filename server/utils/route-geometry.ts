@@ -0,0 +1,134 @@
+export type RoutePoint = { lat: number; lng: number };
+
+export interface RouteMetrics {
+  distanceKm: number | null;
+  estimatedMinutes: number | null;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const METERS_PER_DEGREE = 111_320;
+
+// Average moving speed per trip type in km/h, stops included
+export const TRIP_TYPE_SPEEDS_KMH: Record<string, number> = {
+  walk: 4.5,
+  bike: 15,
+  car: 45,
+  scooter: 15,
+  monowheel: 18,
+  motorcycle: 50,
+  public_transport: 20,
+  train: 70,
+  plane: 650,
+  boat: 20,
+  sea: 20,
+  mountains: 3,
+  sights: 3,
+  fest: 4,
+  picnic: 4,
+  camping: 4,
+  party: 4,
+  retreat: 4,
+  pets: 4,
+  other: 4.5,
+};
+const DEFAULT_SPEED_KMH = TRIP_TYPE_SPEEDS_KMH.walk;
+
+export class RouteGeometryUtils {
+  static haversineKm(a: RoutePoint, b: RoutePoint): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+  }
+
+  static routeLengthKm(route: RoutePoint[]): number {
+    let total = 0;
+    for (let i = 1; i < route.length; i++) {
+      total += RouteGeometryUtils.haversineKm(route[i - 1], route[i]);
+    }
+    return total;
+  }
+
+  // Length of the inclusive range start..end of the route, null when it is out of range
+  static segmentLengthKm(route: RoutePoint[], start: number, end: number): number | null {
+    if (start < 0 || end >= route.length || start > end) return null;
+    return Math.round(RouteGeometryUtils.routeLengthKm(route.slice(start, end + 1)) * 100) / 100;
+  }
+
+  static estimateMinutes(type: string, distanceKm: number): number {
+    const speed = TRIP_TYPE_SPEEDS_KMH[type] ?? DEFAULT_SPEED_KMH;
+    return Math.max(1, Math.round((distanceKm / speed) * 60));
+  }
+
+  // Stored on trips; a route needs at least two points to have a length
+  static computeMetrics(type: string, route: RoutePoint[] | null | undefined): RouteMetrics {
+    if (!route || route.length < 2) {
+      return { distanceKm: null, estimatedMinutes: null };
+    }
+
+    const distanceKm = RouteGeometryUtils.routeLengthKm(route);
+    return {
+      distanceKm: Math.round(distanceKm * 100) / 100,
+      estimatedMinutes: RouteGeometryUtils.estimateMinutes(type, distanceKm),
+    };
+  }
+
+  // Douglas–Peucker: drops points closer than toleranceMeters to the simplified line
+  static simplify(points: RoutePoint[], toleranceMeters: number): RoutePoint[] {
+    if (points.length <= 2) return points;
+
+    const keep = new Array<boolean>(points.length).fill(false);
+    keep[0] = true;
+    keep[points.length - 1] = true;
+
+    // Iterative to stay clear of the call stack limit on long tracks
+    const stack: Array<[number, number]> = [[0, points.length - 1]];
+    while (stack.length > 0) {
+      const [start, end] = stack.pop()!;
+      let maxDistance = 0;
+      let maxIndex = -1;
+      for (let i = start + 1; i < end; i++) {
+        const distance = segmentDistance(points[i], points[start], points[end]);
+        if (distance > maxDistance) {
+          maxDistance = distance;
+          maxIndex = i;
+        }
+      }
+      if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+        keep[maxIndex] = true;
+        stack.push([start, maxIndex], [maxIndex, end]);
+      }
+    }
+
+    return points.filter((_, index) => keep[index]);
+  }
+
+  // Grows the tolerance until the route fits into maxPoints
+  static simplifyToLimit(points: RoutePoint[], maxPoints: number, initialToleranceMeters = 5): RoutePoint[] {
+    // Simplification always keeps both endpoints, so it can never get below two points
+    if (maxPoints < 2) return points.slice(0, Math.max(0, maxPoints));
+    let tolerance = initialToleranceMeters;
+    let result = RouteGeometryUtils.simplify(points, tolerance);
+    while (result.length > maxPoints) {
+      tolerance *= 2;
+      result = RouteGeometryUtils.simplify(points, tolerance);
+    }
+    return result;
+  }
+}
+
+// Distance in meters from point to segment ab on a local equirectangular projection
+function segmentDistance(point: RoutePoint, a: RoutePoint, b: RoutePoint): number {
+  const cosLat = Math.cos((a.lat * Math.PI) / 180);
+  const px = (point.lng - a.lng) * cosLat;
+  const py = point.lat - a.lat;
+  const bx = (b.lng - a.lng) * cosLat;
+  const by = b.lat - a.lat;
+
+  const lengthSquared = bx * bx + by * by;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared));
+  return Math.hypot(px - t * bx, py - t * by) * METERS_PER_DEGREE;
+}
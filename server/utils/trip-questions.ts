@@ -0,0 +1,33 @@
+import type { JoinTrip, TripAnswer, TripQuestion } from '@shared/schema';
+
+export type AnswersResult =
+  | { answers: TripAnswer[] }
+  | { message: string; questionId?: string };
+
+export class TripQuestionUtils {
+  // Matches the applicant's answers to the trip's questions. Every question needs an answer
+  // of its kind: text for free text, a boolean for yes/no, one of the options for choice
+  static matchAnswers(questions: TripQuestion[] | null, given: JoinTrip['answers']): AnswersResult {
+    const byId = new Map(given.map((item) => [item.questionId, item.answer]));
+    const answers: TripAnswer[] = [];
+
+    for (const question of questions ?? []) {
+      const answer = byId.get(question.id);
+      if (answer === undefined) {
+        return { message: `Please answer: ${question.text}`, questionId: question.id };
+      }
+
+      const valid =
+        question.kind === 'yes_no'
+          ? typeof answer === 'boolean'
+          : typeof answer === 'string' && (question.kind === 'text' || question.options!.includes(answer));
+      if (!valid) {
+        return { message: `Invalid answer to: ${question.text}`, questionId: question.id };
+      }
+
+      answers.push({ questionId: question.id, question: question.text, answer });
+    }
+
+    return { answers };
+  }
+}
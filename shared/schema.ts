@@ -6,14 +6,18 @@ import {
   uuid,
   integer,
   decimal,
+  doublePrecision,
   boolean,
   jsonb,
   varchar,
   index,
+  uniqueIndex,
   date,
   time,
+  customType,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -62,6 +66,165 @@ export const cities = pgTable("cities", {
   priority: integer("priority").default(0),
 });
 
+// Trip lifecycle: draft → published → cancelled / completed
+export const tripStatuses = ["draft", "published", "cancelled", "completed"] as const;
+export type TripStatus = (typeof tripStatuses)[number];
+
+// How join requests are handled: reviewed by the creator, accepted instantly, or invitation only
+export const joinPolicies = ["manual", "auto", "invite_only"] as const;
+export type JoinPolicy = (typeof joinPolicies)[number];
+
+// What a seat costs: nothing, a share of common costs such as fuel, or a set price like a ticket
+export const tripCostTypes = ["free", "split", "fixed"] as const;
+export type TripCostType = (typeof tripCostTypes)[number];
+
+// ISO 4217 currencies trip costs and expenses can be stated in, with units per euro. Maintained by hand:
+// the rates only need to be close enough to compare prices across currencies, so they are refreshed
+// when one drifts by more than about 10%. Supporting another currency means adding its code and rate here
+export const CURRENCY_RATES_PER_EUR = {
+  EUR: 1,
+  USD: 1.08,
+  GBP: 0.85,
+  CHF: 0.95,
+  PLN: 4.3,
+  CZK: 25,
+  HUF: 395,
+  RON: 4.97,
+  BGN: 1.96,
+  SEK: 11.5,
+  NOK: 11.7,
+  DKK: 7.46,
+  UAH: 45,
+  GEL: 2.95,
+  TRY: 38,
+  ILS: 4,
+  CAD: 1.48,
+  AUD: 1.65,
+  JPY: 165,
+  CNY: 7.8,
+  KZT: 520,
+  RUB: 95,
+  BYN: 3.5,
+  MDL: 19.5,
+  AMD: 420,
+  AZN: 1.84,
+  UZS: 13_700,
+  KGS: 95,
+} as const;
+export type CurrencyCode = keyof typeof CURRENCY_RATES_PER_EUR;
+export const currencyCodes = Object.keys(CURRENCY_RATES_PER_EUR) as [CurrencyCode, ...CurrencyCode[]];
+export const tripCurrencySchema = z.string().trim().toUpperCase().pipe(z.enum(currencyCodes));
+
+// Attendance an organizer records for an approved participant once the trip has started
+export const attendanceStatuses = ["present", "no_show"] as const;
+export type AttendanceStatus = (typeof attendanceStatuses)[number];
+
+// Checklist items: group gear one member claims to bring, or something every member packs for themselves
+export const checklistItemKinds = ["group", "personal"] as const;
+export type ChecklistItemKind = (typeof checklistItemKinds)[number];
+export const MAX_CHECKLIST_ITEMS = 100;
+
+// Named points along a trip route, each pinned to a point of `route` by its index
+export const waypointKinds = ["meeting", "stop", "finish"] as const;
+export type WaypointKind = (typeof waypointKinds)[number];
+
+// Planned local time, "HH:MM"
+const timeOfDay = z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, "Time must be HH:MM");
+
+export const tripWaypointSchema = z.object({
+  name: z.string().trim().min(1, "Waypoint name is required").max(100),
+  note: z.string().trim().max(500).optional().nullable(),
+  time: timeOfDay.optional().nullable(),
+  kind: z.enum(waypointKinds),
+  routeIndex: z.number().int().min(0),
+});
+export type TripWaypoint = z.infer<typeof tripWaypointSchema>;
+
+// One day of a multi-day trip; `day` 1 is the trip date. The day's route segment is the
+// inclusive range routeStart..routeEnd of the trip route
+export const MAX_TRIP_DAYS = 60;
+
+export const itineraryDaySchema = z.object({
+  day: z.number().int().min(1).max(MAX_TRIP_DAYS),
+  title: z.string().trim().max(100).optional().nullable(),
+  description: z.string().trim().max(2000).optional().nullable(),
+  startTime: timeOfDay.optional().nullable(),
+  endTime: timeOfDay.optional().nullable(),
+  routeStart: z.number().int().min(0).optional().nullable(),
+  routeEnd: z.number().int().min(0).optional().nullable(),
+});
+// distanceKm of the day's segment is filled in by the server
+export type ItineraryDay = z.infer<typeof itineraryDaySchema> & { distanceKm?: number | null };
+
+// Repeating trips: weekly on the weekday of the first date, or monthly on its day of month.
+// Calendar date as YYYY-MM-DD; days that don't exist, such as 2027-02-30, are rejected
+const isoDateSchema = z
+  .string()
+  .regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/, "Date must be YYYY-MM-DD")
+  .refine((value) => {
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+  }, "Invalid date");
+
+// Every occurrence is a trip of its own, created up front
+export const recurrenceFrequencies = ["weekly", "monthly"] as const;
+export type RecurrenceFrequency = (typeof recurrenceFrequencies)[number];
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export const recurrenceRuleSchema = z
+  .object({
+    frequency: z.enum(recurrenceFrequencies),
+    interval: z.number().int().min(1).max(12).default(1),
+    count: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+    until: isoDateSchema.optional(),
+  })
+  .refine((rule) => (rule.count === undefined) !== (rule.until === undefined), {
+    message: "Recurrence needs either count or until",
+  });
+
+// Questions applicants answer when asking to join; every question must be answered
+export const tripQuestionKinds = ["text", "yes_no", "choice"] as const;
+export type TripQuestionKind = (typeof tripQuestionKinds)[number];
+export const MAX_TRIP_QUESTIONS = 5;
+
+export const tripQuestionSchema = z
+  .object({
+    id: z.string().trim().min(1).max(50),
+    text: z.string().trim().min(1, "Question text is required").max(300),
+    kind: z.enum(tripQuestionKinds),
+    options: z.array(z.string().trim().min(1).max(100)).max(10).optional(),
+  })
+  .refine((question) => (question.kind === "choice") === ((question.options?.length ?? 0) >= 2), {
+    message: "Choice questions need at least two options, other questions none",
+  });
+export type TripQuestion = z.infer<typeof tripQuestionSchema>;
+
+// Stored with the participant; the question text is kept so later edits don't change past answers
+export type TripAnswer = {
+  questionId: string;
+  question: string;
+  answer: string | boolean;
+};
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Recurrence rule shared by the occurrences of a repeating trip
+export const tripSeries = pgTable("trip_series", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  creatorId: uuid("creator_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  frequency: text("frequency").$type<RecurrenceFrequency>().notNull(),
+  interval: integer("interval").notNull().default(1),
+  count: integer("count"),
+  until: date("until"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Trips table
 export const trips = pgTable("trips", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -73,18 +236,59 @@ export const trips = pgTable("trips", {
   city: text("city").notNull(),
   location: jsonb("location").notNull().$type<{ lat: number; lng: number }>(),
   route: jsonb("route").$type<{ lat: number; lng: number }[]>(),
+  waypoints: jsonb("waypoints").$type<TripWaypoint[]>(),
   date: date("date"),
   time: time("time"),
+  // Last day of a multi-day trip (inclusive), null for single-day trips
+  endDate: date("end_date"),
+  itinerary: jsonb("itinerary").$type<ItineraryDay[]>(),
+  questions: jsonb("questions").$type<TripQuestion[]>(),
+  // Set on occurrences of a repeating trip
+  seriesId: uuid("series_id").references(() => tripSeries.id, { onDelete: "set null" }),
+  // Copies of another user's trip credit the author of the first trip in the chain
+  clonedFromId: uuid("cloned_from_id").references((): AnyPgColumn => trips.id, { onDelete: "set null" }),
+  originalCreatorId: uuid("original_creator_id").references(() => users.id, { onDelete: "set null" }),
   maxParticipants: integer("max_participants").notNull(),
   creatorId: uuid("creator_id")
     .notNull()
     .references(() => users.id),
+  // Participant the creator offered the trip to; becomes creatorId once they accept
+  pendingOwnerId: uuid("pending_owner_id").references(() => users.id, { onDelete: "set null" }),
   mainPhotoUrl: text("main_photo_url"),
   additionalPhotos: text("additional_photos").array(),
   participantGender: text("participant_gender").notNull().default("any"),
+  minAge: integer("min_age"),
+  maxAge: integer("max_age"),
+  status: text("status").$type<TripStatus>().notNull().default("published"),
+  joinPolicy: text("join_policy").$type<JoinPolicy>().notNull().default("manual"),
+  // Join requests from users with more no-shows than this are rejected, null accepts everyone
+  maxNoShows: integer("max_no_shows"),
+  // Optional price per person in minor units (cents) of costCurrency; free trips have neither
+  costType: text("cost_type").$type<TripCostType>(),
+  costPerPerson: integer("cost_per_person"),
+  costCurrency: text("cost_currency").$type<CurrencyCode>(),
+  // Derived from route and type on every save, null when the route has fewer than two points
+  distanceKm: doublePrecision("distance_km"),
+  estimatedMinutes: integer("estimated_minutes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+  // Full-text search over title (weight A) and description (weight B) in both client languages
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('russian', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+      setweight(to_tsvector('russian', coalesce(description, '')), 'B')`,
+  ),
+}, (table) => [
+  index("IDX_trips_search").using("gin", table.searchVector),
+  index("IDX_trips_distance_km").on(table.distanceKm),
+  index("IDX_trips_series_id").on(table.seriesId),
+  // Start point coordinates, used by the near/bbox filters
+  index("IDX_trips_location").on(
+    sql`((${table.location}->>'lat')::double precision)`,
+    sql`((${table.location}->>'lng')::double precision)`,
+  ),
+]);
 
 // Trip participants table
 export const tripParticipants = pgTable("trip_participants", {
@@ -95,7 +299,16 @@ export const tripParticipants = pgTable("trip_participants", {
   userId: uuid("user_id")
     .notNull()
     .references(() => users.id),
-  status: text("status").notNull().default("pending"), // pending, approved, rejected
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, waitlisted
+  // Queue order among waitlisted participants (lower goes first), null otherwise
+  waitlistPosition: integer("waitlist_position"),
+  // Co-organizers manage join requests and edit the trip; only approved participants can be one
+  coOrganizer: boolean("co_organizer").notNull().default(false),
+  // Answers to the trip's questions given when joining
+  answers: jsonb("answers").$type<TripAnswer[]>(),
+  // Null until an organizer marks the participant or they check in with the trip's code
+  attendance: text("attendance").$type<AttendanceStatus>(),
+  checkedInAt: timestamp("checked_in_at"),
   joinedAt: timestamp("joined_at").defaultNow(),
 });
 
@@ -108,8 +321,14 @@ export const comments = pgTable("comments", {
   userId: uuid("user_id")
     .notNull()
     .references(() => users.id),
+  // Replies are one level deep: always attached to a top-level comment
+  parentId: uuid("parent_id").references((): AnyPgColumn => comments.id, {
+    onDelete: "cascade",
+  }),
   text: text("text").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  // Set when the author edits the text
+  updatedAt: timestamp("updated_at"),
 });
 
 // Messages table
@@ -152,6 +371,165 @@ export const groupMessages = pgTable("group_messages", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Trip invite links (token-based direct join, see /invite/:token)
+export const tripInvites = pgTable("trip_invites", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tripId: uuid("trip_id")
+    .notNull()
+    .references(() => trips.id, { onDelete: "cascade" }),
+  createdBy: uuid("created_by")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  expiresAt: timestamp("expires_at"),
+  maxUses: integer("max_uses"),
+  usesCount: integer("uses_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Users removed from a trip who may not apply again
+export const tripBans = pgTable("trip_bans", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tripId: uuid("trip_id")
+    .notNull()
+    .references(() => trips.id, { onDelete: "cascade" }),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  bannedBy: uuid("banned_by").references(() => users.id, { onDelete: "set null" }),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_trip_bans_trip_user").on(table.tripId, table.userId),
+]);
+
+// Ratings members of a completed trip give each other, one per reviewer and reviewee on a trip
+export const tripReviews = pgTable("trip_reviews", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tripId: uuid("trip_id")
+    .notNull()
+    .references(() => trips.id, { onDelete: "cascade" }),
+  reviewerId: uuid("reviewer_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  revieweeId: uuid("reviewee_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  rating: integer("rating").notNull(),
+  text: text("text"),
+  // The reviewed user may answer once
+  reply: text("reply"),
+  repliedAt: timestamp("replied_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_trip_reviews_trip_pair").on(table.tripId, table.reviewerId, table.revieweeId),
+  index("IDX_trip_reviews_reviewee").on(table.revieweeId),
+]);
+
+// Costs a member paid for the group, split evenly between `sharedWith`. Amounts are in minor units (cents)
+export const tripExpenses = pgTable("trip_expenses", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tripId: uuid("trip_id")
+    .notNull()
+    .references(() => trips.id, { onDelete: "cascade" }),
+  payerId: uuid("payer_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  description: text("description").notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  sharedWith: uuid("shared_with").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_trip_expenses_trip").on(table.tripId),
+]);
+
+// Payments between members that settle what one owes the other
+export const tripSettlements = pgTable("trip_settlements", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tripId: uuid("trip_id")
+    .notNull()
+    .references(() => trips.id, { onDelete: "cascade" }),
+  fromUserId: uuid("from_user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  toUserId: uuid("to_user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_trip_settlements_trip").on(table.tripId),
+]);
+
+// Packing list of a trip, kept by its organizers
+export const tripChecklistItems = pgTable("trip_checklist_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tripId: uuid("trip_id")
+    .notNull()
+    .references(() => trips.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  kind: text("kind").$type<ChecklistItemKind>().notNull().default("personal"),
+  position: integer("position").notNull().default(0),
+  // Member bringing a group item
+  claimedBy: uuid("claimed_by").references(() => users.id, { onDelete: "set null" }),
+  claimedAt: timestamp("claimed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_trip_checklist_items_trip").on(table.tripId),
+]);
+
+// A member's own list: a personal item, or a group item they claimed, is packed
+export const tripChecklistTicks = pgTable("trip_checklist_ticks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  itemId: uuid("item_id")
+    .notNull()
+    .references(() => tripChecklistItems.id, { onDelete: "cascade" }),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_trip_checklist_ticks_item_user").on(table.itemId, table.userId),
+]);
+
+// Reusable packing lists offered to organizers of trips of one type; maintained by admins
+export const checklistTemplates = pgTable("checklist_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  typeId: text("type_id")
+    .notNull()
+    .references(() => tripTypes.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  items: jsonb("items").$type<InsertChecklistItem[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_checklist_templates_type").on(table.typeId),
+]);
+
+// Personal starting points for new trips
+export const tripTemplates = pgTable("trip_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  data: jsonb("data").$type<TripTemplateData>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Secret token of a user's iCalendar feed (/api/calendar/:token.ics); rotating replaces the row
+export const calendarFeeds = pgTable("calendar_feeds", {
+  userId: uuid("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // ================= NEW CHAT STRUCTURE =================
 
 // Chats (dialogues / group chats)
@@ -272,6 +650,11 @@ export const tripsRelations = relations(trips, ({ one, many }) => ({
   participants: many(tripParticipants),
   comments: many(comments),
   favorites: many(favorites),
+  invites: many(tripInvites),
+  series: one(tripSeries, {
+    fields: [trips.seriesId],
+    references: [tripSeries.id],
+  }),
 }));
 
 export const tripParticipantsRelations = relations(
@@ -336,6 +719,25 @@ export const groupMessagesRelations = relations(groupMessages, ({ one }) => ({
   }),
 }));
 
+export const tripSeriesRelations = relations(tripSeries, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [tripSeries.creatorId],
+    references: [users.id],
+  }),
+  occurrences: many(trips),
+}));
+
+export const tripInvitesRelations = relations(tripInvites, ({ one }) => ({
+  trip: one(trips, {
+    fields: [tripInvites.tripId],
+    references: [trips.id],
+  }),
+  creator: one(users, {
+    fields: [tripInvites.createdBy],
+    references: [users.id],
+  }),
+}));
+
 // Schemas for validation
 export const insertUserSchema = createInsertSchema(users)
   .omit({
@@ -374,6 +776,12 @@ export const insertTripSchema = createInsertSchema(trips)
     creatorId: true,
     createdAt: true,
     updatedAt: true,
+    distanceKm: true,
+    estimatedMinutes: true,
+    seriesId: true,
+    clonedFromId: true,
+    originalCreatorId: true,
+    pendingOwnerId: true,
   })
   .extend({
     location: z.object({
@@ -388,19 +796,207 @@ export const insertTripSchema = createInsertSchema(trips)
         }),
       )
       .optional(),
-    date: z.string().optional().nullable(),
+    waypoints: z.array(tripWaypointSchema).max(50).optional(),
+    date: isoDateSchema.optional().nullable(),
+    endDate: isoDateSchema.optional().nullable(),
+    itinerary: z.array(itineraryDaySchema).max(MAX_TRIP_DAYS).optional(),
+    questions: z
+      .array(tripQuestionSchema)
+      .max(MAX_TRIP_QUESTIONS)
+      .refine((questions) => new Set(questions.map((question) => question.id)).size === questions.length, {
+        message: "Question ids must be unique",
+      })
+      .optional(),
+    // Turns the trip into a series of occurrences starting at `date`
+    recurrence: recurrenceRuleSchema.optional(),
     time: z.string().optional().nullable(),
     creatorParticipates: z.boolean().default(true),
     title: z.string().min(1, "Route title is required"),
     city: z.string().min(1, "City is required"),
     description: z.string().min(1, "Description is required"),
     participantGender: z.enum(["any", "male", "female"]).default("any"),
+    minAge: z.number().int().min(1).max(120).optional().nullable(),
+    maxAge: z.number().int().min(1).max(120).optional().nullable(),
+    joinPolicy: z.enum(joinPolicies).default("manual"),
+    maxNoShows: z.number().int().min(0).max(100).optional().nullable(),
+    costType: z.enum(tripCostTypes).optional().nullable(),
+    costPerPerson: z.number().int().min(1).max(100_000_000).optional().nullable(),
+    costCurrency: tripCurrencySchema.optional().nullable(),
+    // Trips are created either as a draft or published right away
+    status: z.enum(["draft", "published"]).default("published"),
+  });
+
+// Trip fields a template prefills; dates are left out, a template is reused on other days
+export const tripTemplateDataSchema = insertTripSchema
+  .pick({
+    title: true,
+    description: true,
+    type: true,
+    city: true,
+    location: true,
+    route: true,
+    waypoints: true,
+    itinerary: true,
+    questions: true,
+    time: true,
+    maxParticipants: true,
+    mainPhotoUrl: true,
+    additionalPhotos: true,
+    participantGender: true,
+    minAge: true,
+    maxAge: true,
+    joinPolicy: true,
+    maxNoShows: true,
+    costType: true,
+    costPerPerson: true,
+    costCurrency: true,
+  })
+  .partial();
+
+export const MAX_TRIP_TEMPLATES = 50;
+
+// A template is saved either from one of the user's trips or from the create form
+export const insertTripTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1, "Template name is required").max(100),
+    tripId: z.string().uuid().optional(),
+    data: tripTemplateDataSchema.optional(),
+  })
+  .refine((template) => (template.tripId === undefined) !== (template.data === undefined), {
+    message: "Template needs either tripId or data",
   });
 
+// POST /api/trips2/:id/join; answers are checked against the trip's questions by the route
+export const joinTripSchema = z.object({
+  answers: z
+    .array(
+      z.object({
+        questionId: z.string().min(1),
+        answer: z.union([z.string().trim().min(1, "Answer is required").max(1000), z.boolean()]),
+      }),
+    )
+    .max(MAX_TRIP_QUESTIONS)
+    .default([]),
+});
+
+// DELETE /api/trips/:id/participants/:userId; the reason is shown to the removed user
+export const removeTripParticipantSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+  ban: z.boolean().default(false),
+});
+
+// POST /api/trips/:id/transfer offers the trip to another participant
+export const tripOwnershipTransferSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+// PUT /api/trips/:id/attendance/:userId; null clears the mark
+export const setAttendanceSchema = z.object({
+  attendance: z.enum(attendanceStatuses).nullable(),
+});
+
+// POST /api/trips/:id/check-in with the code shown on the organizer's screen
+export const checkInSchema = z.object({
+  code: z.string().trim().regex(/^[0-9]{6}$/, "Check-in code is 6 digits"),
+});
+
+// Invite link options; both limits are optional
+export const createTripInviteSchema = z.object({
+  expiresInHours: z.number().int().min(1).max(24 * 90).optional(),
+  maxUses: z.number().int().min(1).max(1000).optional(),
+});
+
+// Partial update of an existing trip (PATCH /api/trips/:id).
+// Status changes go through the dedicated transition endpoints.
+export const updateTripSchema = insertTripSchema
+  .omit({ creatorParticipates: true, status: true, recurrence: true })
+  .partial();
+
+// PATCH /api/trips/:id?scope=series applies the update to every upcoming occurrence
+export const tripUpdateScopes = ["occurrence", "series"] as const;
+export type TripUpdateScope = (typeof tripUpdateScopes)[number];
+export const tripUpdateScopeSchema = z.object({
+  scope: z.enum(tripUpdateScopes).default("occurrence"),
+});
+
 export const selectTripSchema = createSelectSchema(trips);
 
 export const insertCommentSchema = z.object({
-  text: z.string().min(1, "Comment text is required"),
+  text: z.string().trim().min(1, "Comment text is required").max(2000),
+  parentId: z.string().uuid().optional(),
+});
+
+export const insertTripReviewSchema = z.object({
+  revieweeId: z.string().uuid(),
+  rating: z.number().int().min(1).max(5),
+  text: z.string().trim().max(2000).optional(),
+});
+
+export const tripReviewReplySchema = z.object({
+  reply: z.string().trim().min(1, "Reply text is required").max(2000),
+});
+
+// Amounts are in minor units (cents), up to a million in major units
+const expenseAmountSchema = z.number().int().min(1).max(100_000_000);
+
+// POST /api/trips/:id/expenses; the payer defaults to the user logging the expense
+export const insertTripExpenseSchema = z.object({
+  description: z.string().trim().min(1, "Description is required").max(200),
+  amount: expenseAmountSchema,
+  currency: tripCurrencySchema,
+  payerId: z.string().uuid().optional(),
+  sharedWith: z
+    .array(z.string().uuid())
+    .min(1, "Pick who shares the expense")
+    .max(100)
+    .refine((ids) => new Set(ids).size === ids.length, { message: "Members must be unique" }),
+});
+
+// POST /api/trips/:id/settlements; the payer defaults to the user recording the payment
+export const insertTripSettlementSchema = z.object({
+  fromUserId: z.string().uuid().optional(),
+  toUserId: z.string().uuid(),
+  amount: expenseAmountSchema,
+  currency: tripCurrencySchema,
+});
+
+// POST /api/trips/:id/checklist; items are personal unless marked as group gear
+export const insertChecklistItemSchema = z.object({
+  title: z.string().trim().min(1, "Item title is required").max(100),
+  kind: z.enum(checklistItemKinds).default("personal"),
+});
+
+// PUT /api/trips/:id/checklist/:itemId/tick
+export const checklistTickSchema = z.object({
+  ticked: z.boolean(),
+});
+
+// POST /api/admin/checklist-templates
+export const insertChecklistTemplateSchema = z.object({
+  typeId: z.string().trim().min(1, "Trip type is required"),
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  items: z.array(insertChecklistItemSchema).min(1, "Add at least one item").max(MAX_CHECKLIST_ITEMS),
+});
+
+export const updateCommentSchema = insertCommentSchema.pick({ text: true });
+
+export const commentsQuerySchema = z.object({
+  limit: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().int().min(1).max(100).default(20),
+  ),
+  // `next_cursor` of the previous page
+  cursor: z
+    .string()
+    .transform((value, ctx) => {
+      const cursor = decodeCommentCursor(value);
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+        return z.NEVER;
+      }
+      return cursor;
+    })
+    .optional(),
 });
 
 export const selectCommentSchema = createSelectSchema(comments);
@@ -426,35 +1022,176 @@ export const loginSchema = z.object({
 });
 
 // Trip filter schema
+// Trip list orderings; "distance" needs `near`, "relevance" needs `q`
+export const tripSortOptions = [
+  "date",
+  "created",
+  "popularity",
+  "seats_left",
+  "distance",
+  "relevance",
+] as const;
+export type TripSort = (typeof tripSortOptions)[number];
+
+// Keyset position in a trip list: the ordering it belongs to and the last row's sort key and id
+export type TripCursor = { sort: TripSort; key: string; id: string };
+
+// Cursors are opaque to clients: base64url-encoded JSON
+function encodeCursor(cursor: object): string {
+  return btoa(JSON.stringify(cursor))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCursor(value: string): any {
+  try {
+    return JSON.parse(atob(value.replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    return null;
+  }
+}
+
+export function encodeTripCursor(cursor: TripCursor): string {
+  return encodeCursor(cursor);
+}
+
+export function decodeTripCursor(value: string): TripCursor | null {
+  const cursor = decodeCursor(value);
+  if (
+    !tripSortOptions.includes(cursor?.sort) ||
+    typeof cursor.key !== "string" ||
+    !z.string().uuid().safeParse(cursor.id).success
+  ) {
+    return null;
+  }
+  // "created" and "date" keys are timestamps, the rest are numbers
+  const validKey =
+    cursor.sort === "created" || cursor.sort === "date"
+      ? cursor.key === "infinity" || !Number.isNaN(Date.parse(cursor.key))
+      : cursor.key !== "" && Number.isFinite(Number(cursor.key));
+  return validKey ? { sort: cursor.sort, key: cursor.key, id: cursor.id } : null;
+}
+
+// Keyset position in a comment list: creation time and id of the last top-level comment
+export type CommentCursor = { key: string; id: string };
+
+export function encodeCommentCursor(cursor: CommentCursor): string {
+  return encodeCursor(cursor);
+}
+
+export function decodeCommentCursor(value: string): CommentCursor | null {
+  const cursor = decodeCursor(value);
+  if (
+    typeof cursor?.key !== "string" ||
+    Number.isNaN(Date.parse(cursor.key)) ||
+    !z.string().uuid().safeParse(cursor.id).success
+  ) {
+    return null;
+  }
+  return { key: cursor.key, id: cursor.id };
+}
+
+// Comma-separated list of exactly `size` numbers in a query parameter
+const coordinateList = (size: number) =>
+  z.string().transform((value, ctx) => {
+    const parts = value.split(",").map((part) => Number(part.trim()));
+    if (parts.length !== size || parts.some((n) => !Number.isFinite(n))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Expected ${size} comma-separated numbers`,
+      });
+      return z.NEVER;
+    }
+    return parts;
+  });
+
 export const tripFiltersSchema = z.object({
   city: z.string().optional(),
   type: z.string().optional(),
-  date_from: z
+  // Trips whose dates (date..endDate) overlap the range
+  date_from: isoDateSchema.optional(),
+  date_to: isoDateSchema.optional(),
+  limit: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().int().min(1).max(100).default(20),
+  ),
+  // Omitted: by relevance when searching with `q`, otherwise newest first
+  sort: z.enum(tripSortOptions).optional(),
+  // `next_cursor` of the previous page
+  cursor: z
     .string()
-    .regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/)
+    .transform((value, ctx) => {
+      const cursor = decodeTripCursor(value);
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+        return z.NEVER;
+      }
+      return cursor;
+    })
     .optional(),
-  date_to: z
-    .string()
-    .regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/)
+  creatorId: z.string().uuid().optional(),
+  // Omitted: published upcoming trips only; "any" disables status filtering
+  status: z.enum([...tripStatuses, "any"]).optional(),
+  // Only trips the current user is eligible for (gender and age restrictions)
+  forMe: z.preprocess(
+    (v) => (v === undefined ? undefined : v === true || v === "true"),
+    z.boolean().optional(),
+  ),
+  // "lat,lng": adds the distance to each trip; combined with radius_km it limits the search
+  near: coordinateList(2)
+    .refine(([lat, lng]) => Math.abs(lat) <= 90 && Math.abs(lng) <= 180, "Invalid coordinates")
+    .transform(([lat, lng]) => ({ lat, lng }))
     .optional(),
-  limit: z.preprocess(
+  radius_km: z.preprocess(
     (v) => (v === undefined ? undefined : Number(v)),
-    z.number().int().min(1).optional(),
+    z.number().positive().max(20000).optional(),
   ),
-  offset: z.preprocess(
+  // Keyword search over title and description, results ranked by relevance
+  q: z.string().trim().min(1).max(200).optional(),
+  // "minLng,minLat,maxLng,maxLat" (Leaflet's toBBoxString order); minLng > maxLng crosses the antimeridian
+  bbox: coordinateList(4)
+    .refine(([, minLat, , maxLat]) => minLat >= -90 && maxLat <= 90 && minLat <= maxLat, "Invalid bounding box")
+    .transform(([minLng, minLat, maxLng, maxLat]) => ({ minLng, minLat, maxLng, maxLat }))
+    .optional(),
+  // Route length range in km; trips without a route are excluded
+  distance_min: z.preprocess(
     (v) => (v === undefined ? undefined : Number(v)),
-    z.number().int().min(0).optional(),
+    z.number().min(0).optional(),
+  ),
+  distance_max: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().positive().optional(),
+  ),
+  // Most a seat may cost in `currency` (major units, e.g. 15.5); free trips match, trips without a cost don't
+  price_max: z.preprocess(
+    (v) => (v === undefined ? undefined : Number(v)),
+    z.number().min(0).optional(),
+  ),
+  // Currency of price_max, EUR by default; other currencies are converted with CURRENCY_RATES_PER_EUR
+  currency: tripCurrencySchema.optional(),
+  free_only: z.preprocess(
+    (v) => (v === undefined ? undefined : v === true || v === "true"),
+    z.boolean().optional(),
+  ),
+  // Only trips with a free seat; full trips are listed otherwise so people can join their waitlist
+  has_seats: z.preprocess(
+    (v) => (v === undefined ? undefined : v === true || v === "true"),
+    z.boolean().optional(),
   ),
-  creatorId: z.string().uuid().optional(),
 });
 
 // Types
 export type User = typeof users.$inferSelect & { role: string };
 export type InsertUser = z.infer<typeof insertUserSchema>;
-export type Trip = typeof trips.$inferSelect;
+// searchVector is internal to full-text search and never leaves the database layer
+export type Trip = Omit<typeof trips.$inferSelect, "searchVector">;
 export type InsertTrip = z.infer<typeof insertTripSchema>;
+export type UpdateTrip = z.infer<typeof updateTripSchema>;
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type UpdateComment = z.infer<typeof updateCommentSchema>;
+export type CommentsQuery = z.infer<typeof commentsQuerySchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type TripType = typeof tripTypes.$inferSelect;
@@ -463,6 +1200,32 @@ export type InsertTripParticipant = typeof tripParticipants.$inferInsert;
 export type Favorite = typeof favorites.$inferSelect;
 export type InsertFavorite = typeof favorites.$inferInsert;
 export type GroupMessage = typeof groupMessages.$inferSelect;
+export type TripInvite = typeof tripInvites.$inferSelect;
+export type TripBan = typeof tripBans.$inferSelect;
+export type TripReview = typeof tripReviews.$inferSelect;
+export type TripExpense = typeof tripExpenses.$inferSelect;
+export type TripSettlement = typeof tripSettlements.$inferSelect;
+export type InsertTripReview = z.infer<typeof insertTripReviewSchema>;
+export type TripReviewReply = z.infer<typeof tripReviewReplySchema>;
+export type InsertTripExpense = z.infer<typeof insertTripExpenseSchema>;
+export type InsertTripSettlement = z.infer<typeof insertTripSettlementSchema>;
+export type TripChecklistItem = typeof tripChecklistItems.$inferSelect;
+export type ChecklistTemplate = typeof checklistTemplates.$inferSelect;
+export type InsertChecklistItem = z.infer<typeof insertChecklistItemSchema>;
+export type ChecklistTick = z.infer<typeof checklistTickSchema>;
+export type InsertChecklistTemplate = z.infer<typeof insertChecklistTemplateSchema>;
+export type TripSeries = typeof tripSeries.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type TripTemplate = typeof tripTemplates.$inferSelect;
+export type TripTemplateData = z.infer<typeof tripTemplateDataSchema>;
+export type RemoveTripParticipant = z.infer<typeof removeTripParticipantSchema>;
+export type JoinTrip = z.infer<typeof joinTripSchema>;
+export type SetAttendance = z.infer<typeof setAttendanceSchema>;
+export type CheckIn = z.infer<typeof checkInSchema>;
+export type TripOwnershipTransfer = z.infer<typeof tripOwnershipTransferSchema>;
+export type InsertTripTemplate = z.infer<typeof insertTripTemplateSchema>;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type CreateTripInvite = z.infer<typeof createTripInviteSchema>;
 
 export type RegisterData = z.infer<typeof registerSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
@@ -484,12 +1247,45 @@ export type TripWithDetails = Trip & {
     | "avatarUrl"
     | "avatarThumbnailUrl"
     | "additionalPhotos"
-  >;
+  > & { rating: UserRating };
+  // Author of the trip this one was cloned from, when it was someone else
+  originalCreator: Pick<User, "id" | "name"> | null;
+  coOrganizerIds: string[];
   participantsCount: number;
+  pendingRequestsCount: number;
+  favoritesCount: number;
+  // Kilometres from the `near` filter point; only present when that filter is used
+  nearDistanceKm?: number;
+  // Relevance and <mark>-highlighted fragments; only present when searching with `q`
+  searchRank?: number;
+  searchHeadline?: { title: string; description: string };
+};
+
+export type TripSeriesWithOccurrences = TripSeries & {
+  occurrences: Trip[];
+};
+
+// One page of GET /api/trips
+export type TripsPage = {
+  items: TripWithDetails[];
+  next_cursor: string | null;
+  total: number;
 };
 
 export type CommentWithUser = Comment & {
-  user: Pick<User, "id" | "name">;
+  user: Pick<User, "id" | "name" | "avatarUrl" | "avatarThumbnailUrl">;
+};
+
+// Top-level comment with its replies, oldest reply first
+export type CommentThread = CommentWithUser & {
+  replies: CommentWithUser[];
+};
+
+// One page of GET /api/trips/:id/comments; total counts top-level comments
+export type CommentsPage = {
+  items: CommentThread[];
+  next_cursor: string | null;
+  total: number;
 };
 
 export type MessageWithUsers = {
@@ -543,4 +1339,78 @@ export type ChatConversationBuckets = {
 };
 
 export type UserProfile = Omit<User, "password">;
+
+// Ban list entry as shown to trip organizers
+export type TripBanWithUser = TripBan & {
+  user: Pick<UserProfile, "id" | "name" | "avatarUrl" | "avatarThumbnailUrl">;
+};
+
+// Average of the reviews a user received, null before the first one
+export type UserRating = {
+  average: number | null;
+  count: number;
+};
+
+export type TripReviewWithUsers = TripReview & {
+  reviewer: Pick<UserProfile, "id" | "name" | "avatarUrl" | "avatarThumbnailUrl">;
+  reviewee: Pick<UserProfile, "id" | "name">;
+  trip: Pick<Trip, "id" | "title">;
+};
+
+// Net position of a member in one currency: positive when the group owes them
+export type TripBalance = {
+  userId: string;
+  currency: string;
+  amount: number;
+};
+
+// One payment of the suggested settle-up plan
+export type SettleUpTransfer = {
+  fromUserId: string;
+  toUserId: string;
+  currency: string;
+  amount: number;
+};
+
+// Everything GET /api/trips/:id/expenses returns; amounts in minor units
+export type TripLedger = {
+  expenses: TripExpense[];
+  settlements: TripSettlement[];
+  // Everyone the entries refer to, including members who have since left
+  users: Pick<UserProfile, "id" | "name" | "avatarUrl" | "avatarThumbnailUrl">[];
+  balances: TripBalance[];
+  transfers: SettleUpTransfer[];
+};
+
+// A checklist item as GET /api/trips/:id/checklist lists it to a member
+export type TripChecklistEntry = TripChecklistItem & {
+  claimedByUser: Pick<UserProfile, "id" | "name" | "avatarUrl" | "avatarThumbnailUrl"> | null;
+  // The current user packed it
+  ticked: boolean;
+  // Members who packed it
+  tickCount: number;
+};
+
+// Pending join request as listed to trip organizers
+export type TripJoinRequest = Pick<UserProfile, "id" | "name" | "age" | "city" | "avatarUrl" | "avatarThumbnailUrl"> & {
+  requestedAt: Date | null;
+  answers: TripAnswer[] | null;
+  noShowCount: number;
+};
+
+// Attendance of one approved participant as listed to the trip's members
+export type TripAttendance = Pick<UserProfile, "id" | "name" | "avatarUrl" | "avatarThumbnailUrl"> & {
+  attendance: AttendanceStatus | null;
+  checkedInAt: Date | null;
+};
+
+// Outcome of accepting a join request: a seat, or a place in the queue when the trip is full
+export type AcceptTripRequestResult =
+  | { status: "approved" }
+  | { status: "waitlisted"; position: number };
+// Newcomers need a free seat; an invite that ran out meanwhile is not used
+export type RedeemTripInviteResult =
+  | AcceptTripRequestResult
+  | { status: "full" }
+  | { status: "invite_inactive" };
 export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
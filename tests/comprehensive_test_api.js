@@ -477,7 +477,7 @@ async function testTrips() {
                 { lat: 48.9300, lng: 24.7200 },
                 { lat: 48.9350, lng: 24.7250 }
             ],
-            date: '2025-07-15',
+            date: '2027-07-15',
             time: '08:00:00',
             maxParticipants: 8,
             mainPhotoUrl: tripPhotoUrl
@@ -501,7 +501,7 @@ async function testTrips() {
             city: 'Kyiv',
             location: { lat: 50.4501, lng: 30.5234 },
             route: [{ lat: 50.4501, lng: 30.5234 }, { lat: 50.4547, lng: 30.5238 }],
-            date: '2025-06-20',
+            date: '2027-06-20',
             time: '10:00:00',
             maxParticipants: 5,
             mainPhotoUrl: tripPhotoUrl
@@ -520,7 +520,7 @@ async function testTrips() {
             type: 'walk',
             city: 'Kyiv',
             location: { lat: 50.4501, lng: 30.5234 },
-            date: '2025-06-20',
+            date: '2027-06-20',
             time: '10:00:00'
         });
         assert(res.status === 401, `Expected 401, got ${res.status}`);
@@ -542,26 +542,26 @@ async function testTrips() {
     await test('[TRIP-006] Get all trips', async () => {
         const res = await makeRequest('GET', '/api/trips');
         assert(res.status === 200, `Expected 200, got ${res.status}`);
-        assert(Array.isArray(res.data), 'Trips should be array');
-        assert(res.data.length >= 2, 'Should have at least 2 trips');
+        assert(Array.isArray(res.data.items), 'Trips should be array');
+        assert(res.data.items.length >= 2, 'Should have at least 2 trips');
     });
 
     await test('[TRIP-007] Filter trips by type=mountains', async () => {
         const res = await makeRequest('GET', '/api/trips?type=mountains');
         assert(res.status === 200, `Expected 200, got ${res.status}`);
-        assert(Array.isArray(res.data), 'Filtered trips should be array');
+        assert(Array.isArray(res.data.items), 'Filtered trips should be array');
     });
 
     await test('[TRIP-008] Filter trips by type=walk', async () => {
         const res = await makeRequest('GET', '/api/trips?type=walk');
         assert(res.status === 200, `Expected 200, got ${res.status}`);
-        assert(Array.isArray(res.data), 'Filtered trips should be array');
+        assert(Array.isArray(res.data.items), 'Filtered trips should be array');
     });
 
     await test('[TRIP-009] Filter trips by city', async () => {
         const res = await makeRequest('GET', '/api/trips?city=Kyiv');
         assert(res.status === 200, `Expected 200, got ${res.status}`);
-        assert(Array.isArray(res.data), 'City filtered trips should be array');
+        assert(Array.isArray(res.data.items), 'City filtered trips should be array');
     });
 
     await test('[TRIP-010] Get trip by ID', async () => {
@@ -569,6 +569,11 @@ async function testTrips() {
         assert(res.status === 200, `Expected 200, got ${res.status}`);
         assert(res.data.id === trip1Id, 'Wrong trip ID returned');
         assert(res.data.title === 'Mountain Hiking Adventure', 'Wrong trip title');
+
+        const staleToken = await makeRequest('GET', `/api/trips/${trip1Id}`, null, {
+            'Authorization': 'Bearer not-a-valid-token'
+        });
+        assert(staleToken.status === 200, `Expected 200 with an invalid token, got ${staleToken.status}`);
     });
 
     await test('[TRIP-011] Get non-existent trip', async () => {
@@ -1101,6 +1106,2043 @@ async function testMessaging({ trip1Id }) {
     });
 }
 
+/**
+ * TRIP EDITING TESTS
+ */
+async function testTripEditing({ trip1Id }) {
+    console.log('\n\n✏️  TRIP EDITING TESTS\n');
+
+    if (!trip1Id) {
+        console.log('⚠️  Skipping trip editing tests: trip1Id not available');
+        stats.total += 7;
+        stats.skipped += 7;
+        return;
+    }
+
+    let tempTripId = '';
+
+    await test('[EDIT-001] Alice updates her trip title', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${trip1Id}`, {
+            title: 'Mountain Hiking Adventure (updated)'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.title === 'Mountain Hiking Adventure (updated)', 'Title was not updated');
+    });
+
+    await test('[EDIT-002] Bob tries to update Alice\'s trip', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${trip1Id}`, {
+            title: 'Hijacked'
+        }, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+    });
+
+    await test('[EDIT-003] Update trip with invalid data', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${trip1Id}`, {
+            maxParticipants: 'many'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 400, `Expected 400, got ${res.status}`);
+    });
+
+    await test('[EDIT-004] Bob tries to delete Alice\'s trip', async () => {
+        const res = await makeRequest('DELETE', `/api/trips/${trip1Id}`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+    });
+
+    await test('[EDIT-005] Alice deletes a temporary trip', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Temporary Trip',
+            description: 'Will be deleted',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            maxParticipants: 3
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tempTripId = created.data.id;
+
+        const res = await makeRequest('DELETE', `/api/trips/${tempTripId}`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+    });
+
+    await test('[EDIT-006] Deleted trip is gone', async () => {
+        const res = await makeRequest('GET', `/api/trips/${tempTripId}`);
+        assert(res.status === 404, `Expected 404, got ${res.status}`);
+    });
+
+    await test('[EDIT-007] Capacity across 3 seats opens and empties the trip chat', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Tandem Ride',
+            description: 'Two seats for now',
+            type: 'bike',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            maxParticipants: 2
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        const tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const hasTripChat = async () => {
+            const res = await makeRequest('GET', '/api/messages/conversations2', null, {
+                'Authorization': `Bearer ${testUsers.user2.token}`
+            });
+            return Object.values(res.data).flat().some(c => c.type === 'public' && c.source.tripId === tripId);
+        };
+        assert(!(await hasTripChat()), 'A 2-seat trip should have no trip chat');
+
+        const grown = await makeRequest('PATCH', `/api/trips/${tripId}`, { maxParticipants: 5 }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(grown.status === 200, `Expected 200, got ${grown.status}`);
+        assert(await hasTripChat(), 'Bob should be in the trip chat after the trip grows');
+
+        const shrunk = await makeRequest('PATCH', `/api/trips/${tripId}`, { maxParticipants: 2 }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(shrunk.status === 200, `Expected 200, got ${shrunk.status}`);
+        assert(!(await hasTripChat()), 'Bob should leave the trip chat after the trip shrinks');
+    });
+}
+
+/**
+ * TRIP LIFECYCLE TESTS
+ */
+async function testTripLifecycle() {
+    console.log('\n\n🔄 TRIP LIFECYCLE TESTS\n');
+
+    let draftTripId = '';
+
+    await test('[LIFECYCLE-001] Alice saves a trip as draft', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Draft Trip',
+            description: 'Not published yet',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-08-01',
+            time: '10:00:00',
+            maxParticipants: 4,
+            status: 'draft'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        assert(res.data.status === 'draft', `Expected draft, got ${res.data.status}`);
+        draftTripId = res.data.id;
+        testResources.trips.push(draftTripId);
+    });
+
+    await test('[LIFECYCLE-002] Draft is hidden from the public list', async () => {
+        const res = await makeRequest('GET', '/api/trips');
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(!res.data.items.some(t => t.id === draftTripId), 'Draft trip is listed publicly');
+    });
+
+    await test('[LIFECYCLE-003] Draft is listed in Alice\'s own trips', async () => {
+        const res = await makeRequest('GET', '/api/trips/mine?status=draft', null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.items.some(t => t.id === draftTripId), 'Draft trip is missing');
+    });
+
+    await test('[LIFECYCLE-004] Bob cannot join a draft', async () => {
+        const res = await makeRequest('POST', `/api/trips2/${draftTripId}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 409, `Expected 409, got ${res.status}`);
+    });
+
+    await test('[LIFECYCLE-005] Bob cannot publish Alice\'s draft', async () => {
+        const res = await makeRequest('POST', `/api/trips/${draftTripId}/publish`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+    });
+
+    await test('[LIFECYCLE-006] Alice publishes the draft', async () => {
+        const res = await makeRequest('POST', `/api/trips/${draftTripId}/publish`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'published', `Expected published, got ${res.data.status}`);
+    });
+
+    await test('[LIFECYCLE-007] Alice cancels the trip', async () => {
+        const res = await makeRequest('POST', `/api/trips/${draftTripId}/cancel`, {
+            reason: 'Bad weather'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'cancelled', `Expected cancelled, got ${res.data.status}`);
+    });
+
+    await test('[LIFECYCLE-008] Cancelled trip cannot be published again', async () => {
+        const res = await makeRequest('POST', `/api/trips/${draftTripId}/publish`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 409, `Expected 409, got ${res.status}`);
+    });
+}
+
+/**
+ * WAITLIST TESTS
+ */
+async function testWaitlist() {
+    console.log('\n\n⏳ WAITLIST TESTS\n');
+
+    let smallTripId = '';
+
+    await test('[WAITLIST-001] Alice creates a trip with two seats', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Two Seat Ride',
+            description: 'Only one free seat',
+            type: 'car',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-09-01',
+            time: '09:00:00',
+            maxParticipants: 2
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        smallTripId = res.data.id;
+        testResources.trips.push(smallTripId);
+    });
+
+    await test('[WAITLIST-002] Bob takes the last seat', async () => {
+        await makeRequest('POST', `/api/trips2/${smallTripId}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        const res = await makeRequest('POST', `/api/trips/${smallTripId}/accept/${testUsers.user2.id}`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'approved', `Expected approved, got ${res.data.status}`);
+    });
+
+    await test('[WAITLIST-003] Charlie is waitlisted when the trip is full', async () => {
+        await makeRequest('POST', `/api/trips2/${smallTripId}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        const res = await makeRequest('POST', `/api/trips/${smallTripId}/accept/${testUsers.user3.id}`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'waitlisted', `Expected waitlisted, got ${res.data.status}`);
+        assert(res.data.position === 1, `Expected position 1, got ${res.data.position}`);
+    });
+
+    await test('[WAITLIST-004] Charlie sees the queue position', async () => {
+        const res = await makeRequest('GET', `/api/trips/${smallTripId}/status`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'waitlisted', `Expected waitlisted, got ${res.data.status}`);
+        assert(res.data.position === 1, `Expected position 1, got ${res.data.position}`);
+    });
+
+    await test('[WAITLIST-005] Charlie gets the seat after Bob leaves', async () => {
+        const leave = await makeRequest('DELETE', `/api/trips/${smallTripId}/leave`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(leave.status === 200, `Expected 200, got ${leave.status}`);
+
+        const res = await makeRequest('GET', `/api/trips/${smallTripId}/status`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(res.data.status === 'approved', `Expected approved, got ${res.data.status}`);
+    });
+}
+
+/**
+ * JOIN POLICY TESTS
+ */
+async function testJoinPolicy() {
+    console.log('\n\n🚪 JOIN POLICY TESTS\n');
+
+    let autoTripId = '';
+    let inviteTripId = '';
+
+    const createTrip = (title, joinPolicy) => makeRequest('POST', '/api/trips', {
+        title,
+        description: `Join policy: ${joinPolicy}`,
+        type: 'walk',
+        city: 'Kyiv',
+        location: { lat: 50.4501, lng: 30.5234 },
+        date: '2027-09-10',
+        time: '18:00:00',
+        maxParticipants: 10,
+        joinPolicy
+    }, {
+        'Authorization': `Bearer ${testUsers.user1.token}`
+    });
+
+    await test('[POLICY-001] Alice creates an open walk', async () => {
+        const res = await createTrip('Open Walk', 'auto');
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        assert(res.data.joinPolicy === 'auto', `Expected auto, got ${res.data.joinPolicy}`);
+        autoTripId = res.data.id;
+        testResources.trips.push(autoTripId);
+    });
+
+    await test('[POLICY-002] Bob is approved instantly', async () => {
+        const res = await makeRequest('POST', `/api/trips2/${autoTripId}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'approved', `Expected approved, got ${res.data.status}`);
+    });
+
+    await test('[POLICY-003] Alice creates an invitation-only trip', async () => {
+        const res = await createTrip('Private Trip', 'invite_only');
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        inviteTripId = res.data.id;
+        testResources.trips.push(inviteTripId);
+    });
+
+    await test('[POLICY-004] Bob cannot join directly', async () => {
+        const res = await makeRequest('POST', `/api/trips2/${inviteTripId}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+    });
+
+    await test('[POLICY-005] Switching to manual makes joins pending', async () => {
+        const patch = await makeRequest('PATCH', `/api/trips/${inviteTripId}`, {
+            joinPolicy: 'manual'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(patch.status === 200, `Expected 200, got ${patch.status}`);
+
+        const res = await makeRequest('POST', `/api/trips2/${inviteTripId}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'pending', `Expected pending, got ${res.data.status}`);
+    });
+}
+
+/**
+ * ELIGIBILITY TESTS
+ */
+async function testEligibility() {
+    console.log('\n\n🪪 ELIGIBILITY TESTS\n');
+
+    let restrictedTripId = '';
+
+    await test('[ELIGIBLE-001] Create trip with inverted age range', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Broken Age Range',
+            description: 'minAge above maxAge',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            maxParticipants: 5,
+            minAge: 40,
+            maxAge: 20
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 400, `Expected 400, got ${res.status}`);
+    });
+
+    await test('[ELIGIBLE-002] Alice creates a trip for ages 60–90', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Senior Stroll',
+            description: 'Slow walk',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-09-20',
+            time: '11:00:00',
+            maxParticipants: 5,
+            minAge: 60,
+            maxAge: 90
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        restrictedTripId = res.data.id;
+        testResources.trips.push(restrictedTripId);
+    });
+
+    await test('[ELIGIBLE-003] Charlie without a matching age cannot join', async () => {
+        const res = await makeRequest('POST', `/api/trips2/${restrictedTripId}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+        assert(['age', 'age_unknown'].includes(res.data.reason), `Unexpected reason ${res.data.reason}`);
+    });
+
+    await test('[ELIGIBLE-004] forMe requires authentication', async () => {
+        const res = await makeRequest('GET', '/api/trips?forMe=true');
+        assert(res.status === 401, `Expected 401, got ${res.status}`);
+    });
+
+    await test('[ELIGIBLE-005] forMe hides the restricted trip from Charlie', async () => {
+        const res = await makeRequest('GET', '/api/trips?forMe=true', null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(!res.data.items.some(t => t.id === restrictedTripId), 'Restricted trip should be hidden');
+    });
+}
+
+async function testInvites() {
+    console.log('\n\n🔗 INVITE TESTS\n');
+
+    let privateTripId = '';
+    let inviteId = '';
+    let inviteToken = '';
+
+    await test('[INVITE-001] Alice creates an invite-only trip and a single-use link', async () => {
+        const tripRes = await makeRequest('POST', '/api/trips', {
+            title: 'Private Picnic',
+            description: 'Friends only',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-10-05',
+            time: '12:00:00',
+            maxParticipants: 5,
+            joinPolicy: 'invite_only'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(tripRes.status === 201, `Expected 201, got ${tripRes.status}`);
+        privateTripId = tripRes.data.id;
+        testResources.trips.push(privateTripId);
+
+        const res = await makeRequest('POST', `/api/trips/${privateTripId}/invites`, {
+            maxUses: 1
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        assert(res.data.token, 'Invite should have a token');
+        inviteId = res.data.id;
+        inviteToken = res.data.token;
+    });
+
+    await test('[INVITE-002] Only the creator can create invites', async () => {
+        const res = await makeRequest('POST', `/api/trips/${privateTripId}/invites`, {}, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+    });
+
+    await test('[INVITE-003] Anyone can preview the invite', async () => {
+        const res = await makeRequest('GET', `/api/trips/invites/${inviteToken}`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.trip.id === privateTripId, 'Preview should show the invited trip');
+    });
+
+    await test('[INVITE-004] Bob joins the invite-only trip through the link', async () => {
+        const res = await makeRequest('POST', `/api/trips/invites/${inviteToken}/redeem`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'approved', `Expected approved, got ${res.data.status}`);
+    });
+
+    await test('[INVITE-005] Used-up link is rejected', async () => {
+        const res = await makeRequest('POST', `/api/trips/invites/${inviteToken}/redeem`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(res.status === 410, `Expected 410, got ${res.status}`);
+    });
+
+    await test('[INVITE-006] Alice revokes the link', async () => {
+        const res = await makeRequest('DELETE', `/api/trips/${privateTripId}/invites/${inviteId}`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+
+        const preview = await makeRequest('GET', `/api/trips/invites/${inviteToken}`);
+        assert(preview.status === 410, `Expected 410, got ${preview.status}`);
+    });
+}
+
+async function testGeoSearch() {
+    console.log('\n\n📍 GEO SEARCH TESTS\n');
+
+    let lvivTripId = '';
+
+    await test('[GEO-001] Alice creates a trip in Lviv', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Old Town Walk',
+            description: 'Around Rynok Square',
+            type: 'walk',
+            city: 'Lviv',
+            location: { lat: 49.8419, lng: 24.0315 },
+            date: '2027-08-12',
+            time: '10:00:00',
+            maxParticipants: 5
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        lvivTripId = res.data.id;
+        testResources.trips.push(lvivTripId);
+    });
+
+    await test('[GEO-002] Radius search finds the trip with its distance', async () => {
+        const res = await makeRequest('GET', '/api/trips?near=49.8397,24.0297&radius_km=5');
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        const trip = res.data.items.find(t => t.id === lvivTripId);
+        assert(trip, 'Lviv trip should be within 5 km');
+        assert(typeof trip.nearDistanceKm === 'number' && trip.nearDistanceKm < 1, `Unexpected distance ${trip.nearDistanceKm}`);
+        assert(res.data.items.every(t => t.nearDistanceKm <= 5), 'All trips should be within the radius');
+    });
+
+    await test('[GEO-003] Radius search excludes distant trips', async () => {
+        const res = await makeRequest('GET', '/api/trips?near=50.4501,30.5234&radius_km=10');
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(!res.data.items.some(t => t.id === lvivTripId), 'Lviv trip should not be near Kyiv');
+    });
+
+    await test('[GEO-004] Bounding box search', async () => {
+        const inside = await makeRequest('GET', '/api/trips?bbox=23.9,49.7,24.2,49.9');
+        assert(inside.status === 200, `Expected 200, got ${inside.status}`);
+        assert(inside.data.items.some(t => t.id === lvivTripId), 'Lviv trip should be inside the box');
+
+        const outside = await makeRequest('GET', '/api/trips?bbox=30.2,50.3,30.8,50.6');
+        assert(!outside.data.items.some(t => t.id === lvivTripId), 'Lviv trip should be outside the box');
+    });
+
+    await test('[GEO-005] Invalid geo filters are rejected', async () => {
+        const badPoint = await makeRequest('GET', '/api/trips?near=abc&radius_km=5');
+        assert(badPoint.status === 400, `Expected 400, got ${badPoint.status}`);
+
+        const noPoint = await makeRequest('GET', '/api/trips?radius_km=5');
+        assert(noPoint.status === 400, `Expected 400, got ${noPoint.status}`);
+    });
+}
+
+async function testSearch() {
+    console.log('\n\n🔎 SEARCH TESTS\n');
+
+    let kayakTripId = '';
+    let forestTripId = '';
+
+    await test('[SEARCH-001] Alice creates trips to search for', async () => {
+        const kayak = await makeRequest('POST', '/api/trips', {
+            title: 'Kayaking on the Dnipro',
+            description: 'Paddle past the islands, kayaks provided',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-07-03',
+            time: '09:00:00',
+            maxParticipants: 6
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(kayak.status === 201, `Expected 201, got ${kayak.status}`);
+        kayakTripId = kayak.data.id;
+        testResources.trips.push(kayakTripId);
+
+        const forest = await makeRequest('POST', '/api/trips', {
+            title: 'Прогулка по лесу',
+            description: 'Неспешная прогулка по сосновым лесам Пущи-Водицы',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.5412, lng: 30.3520 },
+            date: '2027-07-04',
+            time: '10:00:00',
+            maxParticipants: 6
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(forest.status === 201, `Expected 201, got ${forest.status}`);
+        forestTripId = forest.data.id;
+        testResources.trips.push(forestTripId);
+    });
+
+    await test('[SEARCH-002] English search matches word forms', async () => {
+        const res = await makeRequest('GET', '/api/trips?q=kayak');
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.items.some(t => t.id === kayakTripId), 'Kayak trip should match');
+        assert(!res.data.items.some(t => t.id === forestTripId), 'Forest trip should not match');
+    });
+
+    await test('[SEARCH-003] Russian search matches word forms', async () => {
+        const res = await makeRequest('GET', `/api/trips?q=${encodeURIComponent('лес')}`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.items.some(t => t.id === forestTripId), 'Forest trip should match');
+    });
+
+    await test('[SEARCH-004] Results carry rank and highlighted headline', async () => {
+        const res = await makeRequest('GET', '/api/trips?q=kayaking');
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        const trip = res.data.items.find(t => t.id === kayakTripId);
+        assert(trip, 'Kayak trip should match');
+        assert(typeof trip.searchRank === 'number', 'searchRank should be a number');
+        assert(trip.searchHeadline.title.includes('<mark>'), 'Title should be highlighted');
+        assert(!('searchVector' in trip), 'searchVector should not be exposed');
+    });
+}
+
+async function testPagination() {
+    console.log('\n\n📄 SORTING & PAGINATION TESTS\n');
+
+    const city = 'Pagination Town';
+    const createdIds = [];
+    let fullTripId = '';
+    let firstPage = null;
+
+    await test('[PAGE-001] Alice creates trips on different dates', async () => {
+        for (const date of ['2027-05-03', '2027-05-01', '2027-05-02']) {
+            const res = await makeRequest('POST', '/api/trips', {
+                title: `Paged trip ${date}`,
+                description: 'Pagination check',
+                type: 'walk',
+                city,
+                location: { lat: 50.45, lng: 30.52 },
+                date,
+                time: '10:00:00',
+                maxParticipants: 5
+            }, {
+                'Authorization': `Bearer ${testUsers.user1.token}`
+            });
+            assert(res.status === 201, `Expected 201, got ${res.status}`);
+            createdIds.push(res.data.id);
+            testResources.trips.push(res.data.id);
+        }
+    });
+
+    await test('[PAGE-002] First page is sorted by date with a cursor and total', async () => {
+        const res = await makeRequest('GET', `/api/trips?city=${encodeURIComponent(city)}&sort=date&limit=2`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.items.length === 2, `Expected 2 items, got ${res.data.items.length}`);
+        assert(res.data.total === 3, `Expected total 3, got ${res.data.total}`);
+        assert(res.data.next_cursor, 'next_cursor should be set');
+        assert(res.data.items[0].date === '2027-05-01' && res.data.items[1].date === '2027-05-02', 'Trips are not sorted by date');
+        firstPage = res.data;
+    });
+
+    await test('[PAGE-003] Next page continues without overlap', async () => {
+        const res = await makeRequest('GET', `/api/trips?city=${encodeURIComponent(city)}&sort=date&limit=2&cursor=${firstPage.next_cursor}`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.items.length === 1, `Expected 1 item, got ${res.data.items.length}`);
+        assert(res.data.items[0].date === '2027-05-03', 'Wrong trip on the second page');
+        assert(res.data.next_cursor === null, 'Last page should have no next_cursor');
+        assert(!firstPage.items.some(t => t.id === res.data.items[0].id), 'Pages overlap');
+    });
+
+    await test('[PAGE-004] Invalid cursors and sorts are rejected', async () => {
+        const garbage = await makeRequest('GET', '/api/trips?cursor=not-a-cursor');
+        assert(garbage.status === 400, `Expected 400, got ${garbage.status}`);
+
+        const otherSort = await makeRequest('GET', `/api/trips?sort=popularity&cursor=${firstPage.next_cursor}`);
+        assert(otherSort.status === 400, `Expected 400, got ${otherSort.status}`);
+
+        const noPoint = await makeRequest('GET', '/api/trips?sort=distance');
+        assert(noPoint.status === 400, `Expected 400, got ${noPoint.status}`);
+
+        const tooMany = await makeRequest('GET', '/api/trips?limit=500');
+        assert(tooMany.status === 400, `Expected 400, got ${tooMany.status}`);
+
+        const defaultPage = await makeRequest('GET', '/api/trips');
+        assert(defaultPage.data.items.length <= 20, `Expected at most 20 items, got ${defaultPage.data.items.length}`);
+        assert(
+            defaultPage.data.total <= 20 || defaultPage.data.next_cursor,
+            'A page cut short by the default limit should have a next_cursor'
+        );
+    });
+
+    await test('[PAGE-005] Full trips are listed for their waitlist unless has_seats is set', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Solo trip',
+            description: 'Only the creator fits',
+            type: 'walk',
+            city,
+            location: { lat: 50.45, lng: 30.52 },
+            date: '2027-05-04',
+            time: '10:00:00',
+            maxParticipants: 1
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        fullTripId = created.data.id;
+        testResources.trips.push(fullTripId);
+
+        const publicList = await makeRequest('GET', `/api/trips?city=${encodeURIComponent(city)}`);
+        assert(publicList.data.items.some(t => t.id === fullTripId), 'Full trip should be listed');
+        assert(publicList.data.total === 4, `Expected total 4, got ${publicList.data.total}`);
+
+        const withSeats = await makeRequest('GET', `/api/trips?city=${encodeURIComponent(city)}&has_seats=true`);
+        assert(!withSeats.data.items.some(t => t.id === fullTripId), 'Full trip should be hidden with has_seats');
+        assert(withSeats.data.total === 3, `Expected total 3, got ${withSeats.data.total}`);
+
+        const mine = await makeRequest('GET', `/api/trips/mine?city=${encodeURIComponent(city)}`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(mine.data.items.some(t => t.id === fullTripId), 'Full trip should be in the creator\'s list');
+    });
+}
+
+async function testComments() {
+    console.log('\n\n💬 COMMENTS TESTS\n');
+
+    let tripId = '';
+    let commentId = '';
+    let replyId = '';
+
+    await test('[COMMENT-001] Bob comments on Alice\'s trip', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Commented trip',
+            description: 'Questions welcome',
+            type: 'walk',
+            city: 'Comment City',
+            location: { lat: 50.45, lng: 30.52 },
+            date: '2027-06-01',
+            time: '10:00:00',
+            maxParticipants: 5
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        const res = await makeRequest('POST', `/api/trips/${tripId}/comments`, {
+            text: 'Is the route suitable for beginners?'
+        }, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        assert(res.data.user.id === testUsers.user2.id, 'Comment should include its author');
+        commentId = res.data.id;
+    });
+
+    await test('[COMMENT-002] Charlie replies and the thread is returned', async () => {
+        const res = await makeRequest('POST', `/api/trips/${tripId}/comments`, {
+            text: 'Same question here',
+            parentId: commentId
+        }, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        replyId = res.data.id;
+
+        const list = await makeRequest('GET', `/api/trips/${tripId}/comments`);
+        assert(list.status === 200, `Expected 200, got ${list.status}`);
+        assert(list.data.total === 1, `Expected total 1, got ${list.data.total}`);
+        assert(list.data.items[0].id === commentId, 'Top-level comment missing');
+        assert(list.data.items[0].replies.some(r => r.id === replyId), 'Reply missing from thread');
+    });
+
+    await test('[COMMENT-003] Unknown parent comment is rejected', async () => {
+        const res = await makeRequest('POST', `/api/trips/${tripId}/comments`, {
+            text: 'Orphan reply',
+            parentId: '00000000-0000-0000-0000-000000000000'
+        }, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(res.status === 404, `Expected 404, got ${res.status}`);
+    });
+
+    await test('[COMMENT-004] Only the author can edit a comment', async () => {
+        const denied = await makeRequest('PATCH', `/api/trips/${tripId}/comments/${commentId}`, {
+            text: 'Hijacked'
+        }, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(denied.status === 403, `Expected 403, got ${denied.status}`);
+
+        const res = await makeRequest('PATCH', `/api/trips/${tripId}/comments/${commentId}`, {
+            text: 'Is the route suitable for kids?'
+        }, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.updatedAt, 'updatedAt should be set after editing');
+    });
+
+    await test('[COMMENT-005] Other participants cannot delete, the trip creator can', async () => {
+        const denied = await makeRequest('DELETE', `/api/trips/${tripId}/comments/${commentId}`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(denied.status === 403, `Expected 403, got ${denied.status}`);
+
+        const res = await makeRequest('DELETE', `/api/trips/${tripId}/comments/${commentId}`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+
+        const list = await makeRequest('GET', `/api/trips/${tripId}/comments`);
+        assert(list.data.total === 0, `Expected total 0, got ${list.data.total}`);
+    });
+
+    await test('[COMMENT-006] Comments on someone else\'s draft cannot be written', async () => {
+        const draft = await makeRequest('POST', '/api/trips', {
+            title: 'Draft with notes',
+            description: 'Not announced yet',
+            type: 'walk',
+            city: 'Comment City',
+            location: { lat: 50.45, lng: 30.52 },
+            date: '2027-06-08',
+            time: '10:00:00',
+            maxParticipants: 5,
+            status: 'draft'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(draft.status === 201, `Expected 201, got ${draft.status}`);
+        testResources.trips.push(draft.data.id);
+
+        const note = await makeRequest('POST', `/api/trips/${draft.data.id}/comments`, {
+            text: 'Check the weather first'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(note.status === 201, `Expected the creator to comment, got ${note.status}`);
+
+        const post = await makeRequest('POST', `/api/trips/${draft.data.id}/comments`, {
+            text: 'Found your draft'
+        }, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(post.status === 404, `Expected 404 on POST, got ${post.status}`);
+
+        const patch = await makeRequest('PATCH', `/api/trips/${draft.data.id}/comments/${note.data.id}`, {
+            text: 'Hijacked'
+        }, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(patch.status === 404, `Expected 404 on PATCH, got ${patch.status}`);
+
+        const del = await makeRequest('DELETE', `/api/trips/${draft.data.id}/comments/${note.data.id}`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(del.status === 404, `Expected 404 on DELETE, got ${del.status}`);
+    });
+}
+
+async function testRouteFiles() {
+    console.log('\n\n🗺️  ROUTE FILE TESTS\n');
+
+    let tripId = '';
+    const route = [
+        { lat: 50.4501, lng: 30.5234 },
+        { lat: 50.4547, lng: 30.5238 },
+        { lat: 50.4591, lng: 30.5301 }
+    ];
+
+    await test('[ROUTE-001] Trip route is exported as GPX', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Exported ride',
+            description: 'Route export check',
+            type: 'bike',
+            city: 'Kyiv',
+            location: route[0],
+            route,
+            date: '2027-07-01',
+            time: '09:00:00',
+            maxParticipants: 5
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        const res = await makeRequest('GET', `/api/trips/${tripId}/route.gpx`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.headers['content-type'].includes('application/gpx+xml'), 'Wrong content type');
+        assert((res.data.match(/<trkpt /g) || []).length === route.length, 'GPX should contain every route point');
+    });
+
+    await test('[ROUTE-002] Trip route is exported as KML', async () => {
+        const res = await makeRequest('GET', `/api/trips/${tripId}/route.kml`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.includes('<LineString>'), 'KML should contain a LineString');
+        assert(res.data.includes('30.5234,50.4501'), 'KML coordinates should be lng,lat');
+    });
+
+    await test('[ROUTE-003] Dense GPX track is simplified on import', async () => {
+        const points = Array.from({ length: 2000 }, (_, i) =>
+            `<trkpt lat="${(50.45 + Math.sin(i / 40) * 0.01).toFixed(6)}" lon="${(30.5 + i * 0.0001).toFixed(6)}"><ele>120</ele></trkpt>`
+        ).join('');
+        const gpx = `<?xml version="1.0"?><gpx version="1.1"><trk><name>Dense track</name><trkseg>${points}</trkseg></trk></gpx>`;
+
+        const res = await uploadFile(`${BASE_URL}/api/trips/route/import`, 'file', gpx, 'dense.gpx', testUsers.user1.token);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.originalPoints === 2000, `Expected 2000 original points, got ${res.data.originalPoints}`);
+        assert(res.data.route.length > 2 && res.data.route.length <= 500, `Route was not simplified: ${res.data.route.length}`);
+        assert(res.data.name === 'Dense track', 'Track name should be read');
+        assert(res.data.location.lng === 30.5, 'Location should be the first point');
+    });
+
+    await test('[ROUTE-004] GeoJSON is imported and unknown files are rejected', async () => {
+        const geojson = JSON.stringify({
+            type: 'FeatureCollection',
+            features: [{
+                type: 'Feature',
+                properties: { name: 'Line' },
+                geometry: { type: 'LineString', coordinates: route.map(p => [p.lng, p.lat]) }
+            }]
+        });
+        const res = await uploadFile(`${BASE_URL}/api/trips/route/import`, 'file', geojson, 'line.geojson', testUsers.user1.token);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.route.length === route.length, `Expected ${route.length} points, got ${res.data.route.length}`);
+
+        const bad = await uploadFile(`${BASE_URL}/api/trips/route/import`, 'file', 'hello', 'notes.txt', testUsers.user1.token);
+        assert(bad.status === 400, `Expected 400, got ${bad.status}`);
+    });
+}
+
+async function testRouteMetrics() {
+    console.log('\n\n📏 ROUTE METRICS TESTS\n');
+
+    const city = 'Metrics City';
+    let longTripId = '';
+    let shortTripId = '';
+
+    // Roughly 11.1 km due north: 0.1 degree of latitude
+    const longRoute = [
+        { lat: 50.40, lng: 30.50 },
+        { lat: 50.45, lng: 30.50 },
+        { lat: 50.50, lng: 30.50 }
+    ];
+
+    await test('[METRIC-001] Distance and duration are computed on create', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Long bike ride',
+            description: 'Route metrics check',
+            type: 'bike',
+            city,
+            location: longRoute[0],
+            route: longRoute,
+            date: '2027-08-01',
+            time: '09:00:00',
+            maxParticipants: 5
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        longTripId = res.data.id;
+        testResources.trips.push(longTripId);
+        assert(Math.abs(res.data.distanceKm - 11.12) < 0.05, `Unexpected distanceKm ${res.data.distanceKm}`);
+        assert(res.data.estimatedMinutes === 44, `Expected 44 minutes by bike, got ${res.data.estimatedMinutes}`);
+
+        const short = await makeRequest('POST', '/api/trips', {
+            title: 'No route walk',
+            description: 'Route metrics check',
+            type: 'walk',
+            city,
+            location: longRoute[0],
+            date: '2027-08-01',
+            time: '10:00:00',
+            maxParticipants: 5
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(short.status === 201, `Expected 201, got ${short.status}`);
+        shortTripId = short.data.id;
+        testResources.trips.push(shortTripId);
+        assert(short.data.distanceKm === null, 'Trip without a route should have no distance');
+    });
+
+    await test('[METRIC-002] Changing the trip type recomputes the duration', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${longTripId}`, { type: 'walk' }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.estimatedMinutes === 148, `Expected 148 minutes on foot, got ${res.data.estimatedMinutes}`);
+    });
+
+    await test('[METRIC-003] Trips are filtered by route length', async () => {
+        const longOnly = await makeRequest('GET', `/api/trips?city=${encodeURIComponent(city)}&distance_min=10&distance_max=20`);
+        assert(longOnly.status === 200, `Expected 200, got ${longOnly.status}`);
+        assert(longOnly.data.items.some(t => t.id === longTripId), 'Long trip should match 10-20 km');
+        assert(!longOnly.data.items.some(t => t.id === shortTripId), 'Trip without a route should be excluded');
+
+        const shortOnly = await makeRequest('GET', `/api/trips?city=${encodeURIComponent(city)}&distance_max=5`);
+        assert(!shortOnly.data.items.some(t => t.id === longTripId), 'Long trip should not match up to 5 km');
+
+        const invalid = await makeRequest('GET', '/api/trips?distance_min=20&distance_max=10');
+        assert(invalid.status === 400, `Expected 400, got ${invalid.status}`);
+    });
+}
+
+async function testWaypoints() {
+    console.log('\n\n📍 WAYPOINT TESTS\n');
+
+    let tripId = '';
+    const route = [
+        { lat: 50.4501, lng: 30.5234 },
+        { lat: 50.4547, lng: 30.5238 },
+        { lat: 50.4591, lng: 30.5301 }
+    ];
+
+    await test('[WAYPOINT-001] Trip is created with named waypoints', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Walk with stops',
+            description: 'Waypoints check',
+            type: 'walk',
+            city: 'Kyiv',
+            location: route[0],
+            route,
+            waypoints: [
+                { name: 'Fountain', kind: 'meeting', time: '10:00', note: 'North side', routeIndex: 0 },
+                { name: 'Lunch & coffee', kind: 'stop', time: '12:30', routeIndex: 2 }
+            ],
+            date: '2027-08-10',
+            time: '10:00:00',
+            maxParticipants: 5
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        tripId = res.data.id;
+        testResources.trips.push(tripId);
+        assert(res.data.waypoints.length === 2, 'Waypoints should be stored');
+    });
+
+    await test('[WAYPOINT-002] Waypoints outside the route are rejected', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${tripId}`, {
+            waypoints: [{ name: 'Nowhere', kind: 'finish', routeIndex: 5 }]
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 400, `Expected 400, got ${res.status}`);
+    });
+
+    await test('[WAYPOINT-003] GPX export includes waypoints', async () => {
+        const res = await makeRequest('GET', `/api/trips/${tripId}/route.gpx`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.includes('<name>Fountain</name>'), 'Meeting point missing from GPX');
+        assert(res.data.includes('<name>Lunch &amp; coffee</name>'), 'Stop missing from GPX');
+        assert(!res.data.includes('<name>Start</name>'), 'Start should not be added when a meeting point exists');
+    });
+
+    await test('[WAYPOINT-004] Shortening the route drops waypoints on removed points', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${tripId}`, {
+            route: route.slice(0, 2)
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.waypoints.length === 1 && res.data.waypoints[0].name === 'Fountain', 'Only the first waypoint should remain');
+    });
+}
+
+async function testMultiDay() {
+    console.log('\n\n🗓️ MULTI-DAY TRIP TESTS\n');
+
+    let tripId = '';
+    const route = [
+        { lat: 48.1600, lng: 24.5000 },
+        { lat: 48.1700, lng: 24.5200 },
+        { lat: 48.1800, lng: 24.5400 },
+        { lat: 48.1900, lng: 24.5600 }
+    ];
+    const baseTrip = {
+        title: 'Carpathian hike',
+        description: 'Multi-day check',
+        type: 'mountains',
+        city: 'Yaremche',
+        location: route[0],
+        route,
+        maxParticipants: 5
+    };
+
+    await test('[MULTIDAY-001] Trip is created with an itinerary and day distances', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            ...baseTrip,
+            date: '2027-09-10',
+            endDate: '2027-09-14',
+            itinerary: [
+                { day: 1, title: 'To the hut', startTime: '09:00', endTime: '16:00', routeStart: 0, routeEnd: 2 },
+                { day: 2, title: 'Ridge', routeStart: 2, routeEnd: 3 }
+            ]
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        tripId = res.data.id;
+        testResources.trips.push(tripId);
+        assert(res.data.endDate === '2027-09-14', 'endDate should be stored');
+        assert(res.data.itinerary.length === 2, 'Itinerary days should be stored');
+        assert(res.data.itinerary[0].distanceKm > 0, 'Day distance should be computed');
+    });
+
+    await test('[MULTIDAY-002] endDate before date is rejected', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            ...baseTrip,
+            date: '2027-09-10',
+            endDate: '2027-09-09'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 400, `Expected 400, got ${res.status}`);
+    });
+
+    await test('[MULTIDAY-003] Itinerary day outside the trip dates is rejected', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${tripId}`, {
+            itinerary: [{ day: 6, title: 'One day too many' }]
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 400, `Expected 400, got ${res.status}`);
+    });
+
+    await test('[MULTIDAY-004] Date filters match overlapping trips', async () => {
+        const inside = await makeRequest('GET', '/api/trips?city=Yaremche&date_from=2027-09-12&date_to=2027-09-12');
+        assert(inside.status === 200, `Expected 200, got ${inside.status}`);
+        assert(inside.data.items.some(trip => trip.id === tripId), 'Trip spanning the date should match');
+
+        const after = await makeRequest('GET', '/api/trips?city=Yaremche&date_from=2027-09-15');
+        assert(after.status === 200, `Expected 200, got ${after.status}`);
+        assert(!after.data.items.some(trip => trip.id === tripId), 'Trip that has ended should not match');
+    });
+}
+
+async function testRecurringTrips() {
+    console.log('\n\n🔁 RECURRING TRIP TESTS\n');
+
+    let seriesId = '';
+    let occurrences = [];
+
+    await test('[SERIES-001] Weekly trip creates separate occurrences', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Saturday walk',
+            description: 'Every week in the park',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-03-06',
+            time: '10:00:00',
+            maxParticipants: 5,
+            recurrence: { frequency: 'weekly', count: 3 }
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        assert(res.data.seriesId, 'Occurrence should reference its series');
+        seriesId = res.data.seriesId;
+
+        const series = await makeRequest('GET', `/api/trips/series/${seriesId}`);
+        assert(series.status === 200, `Expected 200, got ${series.status}`);
+        occurrences = series.data.occurrences;
+        occurrences.forEach(occurrence => testResources.trips.push(occurrence.id));
+        assert(
+            occurrences.map(occurrence => occurrence.date).join(',') === '2027-03-06,2027-03-13,2027-03-20',
+            `Unexpected dates: ${occurrences.map(occurrence => occurrence.date).join(',')}`
+        );
+    });
+
+    await test('[SERIES-002] Occurrences have their own participants', async () => {
+        const join = await makeRequest('POST', `/api/trips2/${occurrences[1].id}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(join.status < 300, `Expected join to succeed, got ${join.status}`);
+
+        const first = await makeRequest('GET', `/api/trips/${occurrences[0].id}/status`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(first.data.status === null, 'Joining one occurrence should not join the others');
+    });
+
+    await test('[SERIES-003] Editing one occurrence leaves the others unchanged', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${occurrences[2].id}`, {
+            title: 'Saturday walk (long route)'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+
+        const other = await makeRequest('GET', `/api/trips/${occurrences[1].id}`);
+        assert(other.data.title === 'Saturday walk', 'Sibling occurrence should keep its title');
+    });
+
+    await test('[SERIES-004] scope=series updates every upcoming occurrence', async () => {
+        const res = await makeRequest('PATCH', `/api/trips/${occurrences[0].id}?scope=series`, {
+            maxParticipants: 8
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+
+        const series = await makeRequest('GET', `/api/trips/series/${seriesId}`);
+        assert(series.data.occurrences.every(occurrence => occurrence.maxParticipants === 8), 'All occurrences should be updated');
+
+        const dateChange = await makeRequest('PATCH', `/api/trips/${occurrences[0].id}?scope=series`, {
+            date: '2027-03-07'
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(dateChange.status === 400, `Expected 400 for series-wide date change, got ${dateChange.status}`);
+    });
+
+    await test('[SERIES-005] Impossible start dates are rejected', async () => {
+        for (const date of ['2027-13-45', '2027-02-30', 'next saturday']) {
+            const res = await makeRequest('POST', '/api/trips', {
+                title: 'Broken walk',
+                description: 'Never happens',
+                type: 'walk',
+                city: 'Kyiv',
+                location: { lat: 50.4501, lng: 30.5234 },
+                date,
+                maxParticipants: 5,
+                recurrence: { frequency: 'weekly', count: 2 }
+            }, {
+                'Authorization': `Bearer ${testUsers.user1.token}`
+            });
+            assert(res.status === 400, `Expected 400 for ${date}, got ${res.status}`);
+        }
+    });
+
+    await test('[SERIES-006] Draft series is hidden from everyone but its creator', async () => {
+        const res = await makeRequest('POST', '/api/trips', {
+            title: 'Draft walk',
+            description: 'Not announced yet',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-04-03',
+            time: '10:00:00',
+            maxParticipants: 5,
+            status: 'draft',
+            recurrence: { frequency: 'weekly', count: 2 }
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+
+        const creator = await makeRequest('GET', `/api/trips/series/${res.data.seriesId}`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(creator.status === 200, `Expected 200 for the creator, got ${creator.status}`);
+        creator.data.occurrences.forEach(occurrence => testResources.trips.push(occurrence.id));
+
+        const anonymous = await makeRequest('GET', `/api/trips/series/${res.data.seriesId}`);
+        assert(anonymous.status === 404, `Expected 404 without auth, got ${anonymous.status}`);
+
+        const other = await makeRequest('GET', `/api/trips/series/${res.data.seriesId}`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(other.status === 404, `Expected 404 for another user, got ${other.status}`);
+    });
+}
+
+async function testCalendar() {
+    console.log('\n\n📆 CALENDAR TESTS\n');
+
+    let tripId = '';
+    let feedToken = '';
+
+    await test('[CALENDAR-001] Trip exports as an iCalendar event', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Calendar walk',
+            description: 'Meet at the fountain, bring water',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-10-02',
+            time: '09:30:00',
+            maxParticipants: 5
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        const res = await makeRequest('GET', `/api/trips/${tripId}/event.ics`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.includes('BEGIN:VEVENT'), 'Event missing');
+        assert(res.data.includes('DTSTART:20271002T093000'), 'Start time missing');
+        assert(res.data.includes('GEO:50.4501;30.5234'), 'Coordinates missing');
+        assert(res.data.includes(`URL:`) && res.data.includes(`/trips/${tripId}`), 'Trip URL missing');
+    });
+
+    await test('[CALENDAR-002] Feed lists trips the user created', async () => {
+        const feed = await makeRequest('GET', '/api/users/me/calendar', null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(feed.status === 200, `Expected 200, got ${feed.status}`);
+        feedToken = feed.data.token;
+
+        const res = await makeRequest('GET', `/api/calendar/${feedToken}.ics`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.includes(`UID:${tripId}@wayzer`), 'Created trip missing from feed');
+    });
+
+    await test('[CALENDAR-003] Feed does not list trips the user only requested to join', async () => {
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        const feed = await makeRequest('GET', '/api/users/me/calendar', null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        const res = await makeRequest('GET', `/api/calendar/${feed.data.token}.ics`);
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(!res.data.includes(`UID:${tripId}@wayzer`), 'Pending request should not appear in the feed');
+    });
+
+    await test('[CALENDAR-004] Rotating the token disables the old feed URL', async () => {
+        const rotated = await makeRequest('POST', '/api/users/me/calendar/rotate', null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(rotated.status === 200, `Expected 200, got ${rotated.status}`);
+        assert(rotated.data.token !== feedToken, 'Token should change');
+
+        const old = await makeRequest('GET', `/api/calendar/${feedToken}.ics`);
+        assert(old.status === 404, `Expected 404 for the old token, got ${old.status}`);
+        const fresh = await makeRequest('GET', `/api/calendar/${rotated.data.token}.ics`);
+        assert(fresh.status === 200, `Expected 200 for the new token, got ${fresh.status}`);
+    });
+}
+
+async function testCloning() {
+    console.log('\n\n📑 CLONE & TEMPLATE TESTS\n');
+
+    let sourceId = '';
+    let cloneId = '';
+
+    await test('[CLONE-001] Cloning another user\'s trip creates a draft crediting the creator', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Clone source ride',
+            description: 'Loop around the lake',
+            type: 'bike',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            route: [{ lat: 50.45, lng: 30.52 }, { lat: 50.46, lng: 30.53 }],
+            date: '2027-11-06',
+            maxParticipants: 6
+        }, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        sourceId = created.data.id;
+        testResources.trips.push(sourceId);
+
+        const res = await makeRequest('POST', `/api/trips/${sourceId}/clone`, null, {
+            'Authorization': `Bearer ${testUsers.user2.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        cloneId = res.data.id;
+        testResources.trips.push(cloneId);
+        assert(res.data.status === 'draft', 'Clone should be a draft');
+        assert(res.data.creatorId === testUsers.user2.id, 'Clone should belong to the current user');
+        assert(res.data.title === 'Clone source ride', 'Title should be copied');
+        assert(res.data.route.length === 2, 'Route should be copied');
+        assert(res.data.date === null, 'Date should not be copied');
+        assert(res.data.clonedFromId === sourceId, 'clonedFromId should point at the source');
+
+        const details = await makeRequest('GET', `/api/trips/${cloneId}`);
+        assert(details.data.originalCreator?.id === testUsers.user1.id, 'Original creator should be credited');
+    });
+
+    await test('[CLONE-002] Cloning your own trip does not credit anyone', async () => {
+        const res = await makeRequest('POST', `/api/trips/${sourceId}/clone`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        testResources.trips.push(res.data.id);
+        assert(res.data.originalCreatorId === null, 'Own clone should not credit anyone');
+    });
+
+    await test('[CLONE-003] Someone else\'s draft cannot be cloned', async () => {
+        const res = await makeRequest('POST', `/api/trips/${cloneId}/clone`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(res.status === 404, `Expected 404, got ${res.status}`);
+    });
+
+    await test('[CLONE-004] Templates are saved from a trip, listed and deleted', async () => {
+        const saved = await makeRequest('POST', '/api/trips/templates', {
+            name: 'Lake loop',
+            tripId: sourceId
+        }, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(saved.status === 201, `Expected 201, got ${saved.status}`);
+        assert(saved.data.data.title === 'Clone source ride', 'Template should hold the trip fields');
+        assert(saved.data.data.date === undefined, 'Template should not hold dates');
+
+        const list = await makeRequest('GET', '/api/trips/templates', null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(list.data.some(t => t.id === saved.data.id), 'Saved template should be listed');
+
+        const foreign = await makeRequest('DELETE', `/api/trips/templates/${saved.data.id}`, null, {
+            'Authorization': `Bearer ${testUsers.user1.token}`
+        });
+        assert(foreign.status === 404, `Expected 404 for another user's template, got ${foreign.status}`);
+
+        const removed = await makeRequest('DELETE', `/api/trips/templates/${saved.data.id}`, null, {
+            'Authorization': `Bearer ${testUsers.user3.token}`
+        });
+        assert(removed.status === 200, `Expected 200, got ${removed.status}`);
+    });
+}
+
+async function testCoOrganizers() {
+    console.log('\n\n🤝 CO-ORGANIZER TESTS\n');
+
+    let tripId = '';
+
+    await test('[ORGANIZER-001] Creator makes an approved participant a co-organizer', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Shared Hike',
+            description: 'Organized together',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-11-13',
+            maxParticipants: 10
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const res = await makeRequest('PUT', `/api/trips/${tripId}/co-organizers/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+
+        const details = await makeRequest('GET', `/api/trips/${tripId}`);
+        assert(details.data.coOrganizerIds.includes(testUsers.user2.id), 'Bob should be listed as co-organizer');
+    });
+
+    await test('[ORGANIZER-002] Co-organizer sees and accepts join requests', async () => {
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+
+        const requests = await makeRequest('GET', `/api/trips/${tripId}/requests`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(requests.status === 200, `Expected 200, got ${requests.status}`);
+        assert(requests.data.some(r => r.id === testUsers.user3.id), 'Charlie\'s request should be listed');
+
+        const res = await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user3.id}`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.status === 'approved', `Expected approved, got ${res.data.status}`);
+    });
+
+    await test('[ORGANIZER-003] Co-organizer edits the trip but cannot appoint others', async () => {
+        const edited = await makeRequest('PATCH', `/api/trips/${tripId}`, { title: 'Shared Hike (updated)' }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(edited.status === 200, `Expected 200, got ${edited.status}`);
+        assert(edited.data.title === 'Shared Hike (updated)', 'Title should change');
+
+        const res = await makeRequest('PUT', `/api/trips/${tripId}/co-organizers/${testUsers.user3.id}`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+    });
+
+    await test('[ORGANIZER-004] Ownership moves only after the new owner accepts', async () => {
+        const offered = await makeRequest('POST', `/api/trips/${tripId}/transfer`, { userId: testUsers.user3.id }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(offered.status === 200, `Expected 200, got ${offered.status}`);
+
+        const pending = await makeRequest('GET', `/api/trips/${tripId}`);
+        assert(pending.data.creatorId === testUsers.user1.id, 'Creator should not change before acceptance');
+        assert(pending.data.pendingOwnerId === testUsers.user3.id, 'Offer should be pending');
+
+        const stranger = await makeRequest('POST', `/api/trips/${tripId}/transfer/accept`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(stranger.status === 403, `Expected 403 for someone else, got ${stranger.status}`);
+
+        const accepted = await makeRequest('POST', `/api/trips/${tripId}/transfer/accept`, null, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(accepted.status === 200, `Expected 200, got ${accepted.status}`);
+        assert(accepted.data.creatorId === testUsers.user3.id, 'Charlie should own the trip');
+        assert(accepted.data.pendingOwnerId === null, 'Offer should be cleared');
+        assert(accepted.data.coOrganizerIds.includes(testUsers.user1.id), 'Previous owner should stay as co-organizer');
+    });
+}
+
+async function testParticipantRemoval() {
+    console.log('\n\n🚫 PARTICIPANT REMOVAL TESTS\n');
+
+    let tripId = '';
+
+    await test('[BAN-001] Organizer removes a participant with a reason', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Strict Ride',
+            description: 'Punctuality matters',
+            type: 'bike',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-11-20',
+            maxParticipants: 10
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const res = await makeRequest('DELETE', `/api/trips/${tripId}/participants/${testUsers.user2.id}`, {
+            reason: 'Late twice'
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+
+        const status = await makeRequest('GET', `/api/trips/${tripId}/status`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(!status.data.status, `Bob should no longer take part, got ${status.data.status}`);
+    });
+
+    await test('[BAN-002] Removed participant without a ban can apply again', async () => {
+        const res = await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 200 || res.status === 201, `Expected success, got ${res.status}`);
+    });
+
+    await test('[BAN-003] Banned user cannot join again', async () => {
+        const removed = await makeRequest('DELETE', `/api/trips/${tripId}/participants/${testUsers.user2.id}`, {
+            ban: true
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(removed.status === 200, `Expected 200, got ${removed.status}`);
+
+        const res = await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+
+        const bans = await makeRequest('GET', `/api/trips/${tripId}/bans`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(bans.status === 200, `Expected 200, got ${bans.status}`);
+        assert(bans.data.some(b => b.userId === testUsers.user2.id), 'Bob should be on the ban list');
+
+        const unknown = await makeRequest('DELETE', `/api/trips/${tripId}/participants/00000000-0000-0000-0000-000000000000`, {
+            ban: true
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(unknown.status === 404, `Expected 404 for an unknown user, got ${unknown.status}`);
+    });
+
+    await test('[BAN-004] Lifting the ban lets the user apply again', async () => {
+        const stranger = await makeRequest('DELETE', `/api/trips/${tripId}/bans/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(stranger.status === 403, `Expected 403 for a non-organizer, got ${stranger.status}`);
+
+        const lifted = await makeRequest('DELETE', `/api/trips/${tripId}/bans/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(lifted.status === 200, `Expected 200, got ${lifted.status}`);
+
+        const res = await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 200 || res.status === 201, `Expected success, got ${res.status}`);
+    });
+}
+
+async function testJoinQuestions() {
+    console.log('\n\n❓ JOIN QUESTION TESTS\n');
+
+    let tripId = '';
+
+    await test('[QUESTION-001] Joining without answering the questions is rejected', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Long Ride',
+            description: 'Experienced riders only',
+            type: 'bike',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-11-27',
+            maxParticipants: 10,
+            questions: [
+                { id: 'distance', text: 'Have you ridden 100 km before?', kind: 'yes_no' },
+                { id: 'bike', text: 'Bike type', kind: 'choice', options: ['Road', 'Gravel'] }
+            ]
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        assert(created.data.questions.length === 2, 'Questions should be saved');
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        const res = await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 400, `Expected 400, got ${res.status}`);
+        assert(res.data.questionId === 'distance', `Expected the first question, got ${res.data.questionId}`);
+    });
+
+    await test('[QUESTION-002] An option that is not offered is rejected', async () => {
+        const res = await makeRequest('POST', `/api/trips2/${tripId}/join`, {
+            answers: [
+                { questionId: 'distance', answer: true },
+                { questionId: 'bike', answer: 'Tandem' }
+            ]
+        }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 400, `Expected 400, got ${res.status}`);
+        assert(res.data.questionId === 'bike', `Expected the choice question, got ${res.data.questionId}`);
+    });
+
+    await test('[QUESTION-003] Answers are shown to the creator with the request', async () => {
+        const joined = await makeRequest('POST', `/api/trips2/${tripId}/join`, {
+            answers: [
+                { questionId: 'distance', answer: true },
+                { questionId: 'bike', answer: 'Gravel' }
+            ]
+        }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(joined.status === 200, `Expected 200, got ${joined.status}`);
+
+        const requests = await makeRequest('GET', `/api/trips/${tripId}/requests`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        const request = requests.data.find(r => r.id === testUsers.user2.id);
+        assert(request, 'Bob\'s request should be listed');
+        assert(request.answers.some(a => a.questionId === 'bike' && a.answer === 'Gravel'), 'Choice answer should be stored');
+
+        const status = await makeRequest('GET', `/api/trips/${tripId}/status/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(status.data.answers.length === 2, `Expected 2 answers, got ${status.data.answers?.length}`);
+    });
+}
+
+async function testReviews() {
+    console.log('\n\n⭐ REVIEW TESTS\n');
+
+    let tripId = '';
+    let reviewId = '';
+
+    await test('[REVIEW-001] Reviews are closed until the trip is completed', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Reviewed Walk',
+            description: 'Walk with feedback afterwards',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-12-04',
+            maxParticipants: 10
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const res = await makeRequest('POST', `/api/trips/${tripId}/reviews`, {
+            revieweeId: testUsers.user1.id,
+            rating: 5
+        }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 409, `Expected 409, got ${res.status}`);
+    });
+
+    await test('[REVIEW-002] Participant reviews the organizer once', async () => {
+        await makeRequest('POST', `/api/trips/${tripId}/complete`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const res = await makeRequest('POST', `/api/trips/${tripId}/reviews`, {
+            revieweeId: testUsers.user1.id,
+            rating: 4,
+            text: 'Well organized'
+        }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        reviewId = res.data.id;
+
+        const again = await makeRequest('POST', `/api/trips/${tripId}/reviews`, {
+            revieweeId: testUsers.user1.id,
+            rating: 1
+        }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(again.status === 409, `Expected 409 for a second review, got ${again.status}`);
+
+        const outsider = await makeRequest('POST', `/api/trips/${tripId}/reviews`, {
+            revieweeId: testUsers.user1.id,
+            rating: 1
+        }, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(outsider.status === 403, `Expected 403 for a non-member, got ${outsider.status}`);
+    });
+
+    await test('[REVIEW-003] Rating shows on the profile and on the trip creator', async () => {
+        const profile = await makeRequest('GET', `/api/users/${testUsers.user1.id}`);
+        assert(profile.status === 200, `Expected 200, got ${profile.status}`);
+        assert(profile.data.rating.count >= 1, 'Rating should count the review');
+        assert(profile.data.rating.average !== null, 'Average should be set');
+
+        const trip = await makeRequest('GET', `/api/trips/${tripId}`);
+        assert(trip.data.creator.rating.count === profile.data.rating.count, 'Creator rating should match the profile');
+    });
+
+    await test('[REVIEW-004] Reviewed user replies once', async () => {
+        const stranger = await makeRequest('POST', `/api/trips/${tripId}/reviews/${reviewId}/reply`, {
+            reply: 'Not mine to answer'
+        }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(stranger.status === 403, `Expected 403, got ${stranger.status}`);
+
+        const res = await makeRequest('POST', `/api/trips/${tripId}/reviews/${reviewId}/reply`, {
+            reply: 'Thanks for coming!'
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.data.reply === 'Thanks for coming!', 'Reply should be saved');
+
+        const again = await makeRequest('POST', `/api/trips/${tripId}/reviews/${reviewId}/reply`, {
+            reply: 'Edited'
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(again.status === 409, `Expected 409, got ${again.status}`);
+    });
+}
+
+async function testAttendance() {
+    console.log('\n\n✅ ATTENDANCE TESTS\n');
+
+    const today = new Date().toISOString().slice(0, 10);
+    let tripId = '';
+
+    await test('[ATTEND-001] Attendance and check-in are closed before the trip', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Future Walk',
+            description: 'Not started yet',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-12-11',
+            maxParticipants: 10
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        testResources.trips.push(created.data.id);
+
+        await makeRequest('POST', `/api/trips2/${created.data.id}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        await makeRequest('POST', `/api/trips/${created.data.id}/accept/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const mark = await makeRequest('PUT', `/api/trips/${created.data.id}/attendance/${testUsers.user2.id}`, {
+            attendance: 'no_show'
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(mark.status === 409, `Expected 409, got ${mark.status}`);
+
+        const code = await makeRequest('GET', `/api/trips/${created.data.id}/check-in/code`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(code.status === 409, `Expected 409, got ${code.status}`);
+    });
+
+    await test('[ATTEND-002] Participant checks in with the organizer\'s code', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Walk Today',
+            description: 'Meet at the fountain',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: today,
+            maxParticipants: 10
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const stranger = await makeRequest('GET', `/api/trips/${tripId}/check-in/code`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(stranger.status === 403, `Expected 403 for a participant, got ${stranger.status}`);
+
+        const code = await makeRequest('GET', `/api/trips/${tripId}/check-in/code`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(code.status === 200, `Expected 200, got ${code.status}`);
+        assert(/^[0-9]{6}$/.test(code.data.code), `Expected a 6-digit code, got ${code.data.code}`);
+
+        const outsider = await makeRequest('POST', `/api/trips/${tripId}/check-in`, { code: code.data.code }, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(outsider.status === 403, `Expected 403 for a non-participant, got ${outsider.status}`);
+
+        const wrongCode = code.data.code === '000000' ? '000001' : '000000';
+        const wrong = await makeRequest('POST', `/api/trips/${tripId}/check-in`, { code: wrongCode }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(wrong.status === 400, `Expected 400 for a wrong code, got ${wrong.status}`);
+
+        const res = await makeRequest('POST', `/api/trips/${tripId}/check-in`, { code: code.data.code }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+
+        const attendance = await makeRequest('GET', `/api/trips/${tripId}/attendance`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        const bob = attendance.data.find(entry => entry.id === testUsers.user2.id);
+        assert(bob && bob.attendance === 'present' && bob.checkedInAt, 'Bob should be checked in');
+    });
+
+    await test('[ATTEND-003] No-shows count on the profile and can block joining', async () => {
+        const mark = await makeRequest('PUT', `/api/trips/${tripId}/attendance/${testUsers.user2.id}`, {
+            attendance: 'no_show'
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(mark.status === 200, `Expected 200, got ${mark.status}`);
+
+        const profile = await makeRequest('GET', `/api/users/${testUsers.user2.id}`);
+        assert(profile.data.noShowCount >= 1, `Expected a no-show, got ${profile.data.noShowCount}`);
+
+        const strict = await makeRequest('POST', '/api/trips', {
+            title: 'Strict Walk',
+            description: 'Reliable walkers only',
+            type: 'walk',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-12-18',
+            maxParticipants: 10,
+            maxNoShows: 0
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(strict.status === 201, `Expected 201, got ${strict.status}`);
+        testResources.trips.push(strict.data.id);
+
+        const res = await makeRequest('POST', `/api/trips2/${strict.data.id}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 403, `Expected 403, got ${res.status}`);
+        assert(res.data.reason === 'no_shows', `Expected no_shows, got ${res.data.reason}`);
+
+        const invite = await makeRequest('POST', `/api/trips/${strict.data.id}/invites`, {}, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        const redeem = await makeRequest('POST', `/api/trips/invites/${invite.data.token}/redeem`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(redeem.status === 403, `Expected 403 for an invite link, got ${redeem.status}`);
+        assert(redeem.data.reason === 'no_shows', `Expected no_shows, got ${redeem.data.reason}`);
+
+        // Clear the mark so later runs start without no-shows
+        await makeRequest('PUT', `/api/trips/${tripId}/attendance/${testUsers.user2.id}`, {
+            attendance: null
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+    });
+}
+
+async function testExpenses() {
+    console.log('\n\n💶 EXPENSE TESTS\n');
+
+    let tripId = '';
+
+    await test('[EXPENSE-001] Only trip members log expenses', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Camping Weekend',
+            description: 'Tents and a campfire',
+            type: 'car',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2027-12-25',
+            maxParticipants: 10
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const outsider = await makeRequest('POST', `/api/trips/${tripId}/expenses`, {
+            description: 'Snacks',
+            amount: 500,
+            currency: 'EUR',
+            sharedWith: [testUsers.user3.id]
+        }, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(outsider.status === 403, `Expected 403, got ${outsider.status}`);
+
+        const res = await makeRequest('POST', `/api/trips/${tripId}/expenses`, {
+            description: 'Fuel',
+            amount: 3001,
+            currency: 'eur',
+            sharedWith: [testUsers.user1.id, testUsers.user2.id]
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+        assert(res.data.payerId === testUsers.user1.id, 'Payer should default to the current user');
+        assert(res.data.currency === 'EUR', `Currency should be upper-cased, got ${res.data.currency}`);
+    });
+
+    await test('[EXPENSE-002] Balances and the settle-up plan add up', async () => {
+        const res = await makeRequest('GET', `/api/trips/${tripId}/expenses`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+
+        const total = res.data.balances.reduce((sum, balance) => sum + balance.amount, 0);
+        assert(total === 0, `Balances should sum to zero, got ${total}`);
+        const bob = res.data.balances.find(balance => balance.userId === testUsers.user2.id);
+        assert(bob && (bob.amount === -1500 || bob.amount === -1501), `Bob should owe half, got ${bob?.amount}`);
+
+        assert(res.data.transfers.length === 1, `Expected one transfer, got ${res.data.transfers.length}`);
+        const transfer = res.data.transfers[0];
+        assert(transfer.fromUserId === testUsers.user2.id && transfer.toUserId === testUsers.user1.id, 'Bob should pay Alice');
+        assert(transfer.amount === -bob.amount, 'Transfer should cover Bob\'s balance');
+    });
+
+    await test('[EXPENSE-003] Recorded payment settles the balances', async () => {
+        const ledger = await makeRequest('GET', `/api/trips/${tripId}/expenses`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        const transfer = ledger.data.transfers[0];
+
+        const self = await makeRequest('POST', `/api/trips/${tripId}/settlements`, {
+            toUserId: testUsers.user2.id,
+            amount: 100,
+            currency: 'EUR'
+        }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(self.status === 400, `Expected 400 for a payment to oneself, got ${self.status}`);
+
+        const res = await makeRequest('POST', `/api/trips/${tripId}/settlements`, {
+            toUserId: transfer.toUserId,
+            amount: transfer.amount,
+            currency: transfer.currency
+        }, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(res.status === 201, `Expected 201, got ${res.status}`);
+
+        const after = await makeRequest('GET', `/api/trips/${tripId}/expenses`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(after.data.balances.length === 0, `Expected no open balances, got ${after.data.balances.length}`);
+        assert(after.data.transfers.length === 0, 'Nothing should be left to settle');
+    });
+
+    await test('[EXPENSE-004] Ledger exports as CSV for members only', async () => {
+        const outsider = await makeRequest('GET', `/api/trips/${tripId}/expenses.csv`, null, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(outsider.status === 403, `Expected 403, got ${outsider.status}`);
+
+        const res = await makeRequest('GET', `/api/trips/${tripId}/expenses.csv`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(res.headers['content-type'].startsWith('text/csv'), `Expected CSV, got ${res.headers['content-type']}`);
+        const lines = String(res.data).trim().split('\r\n');
+        assert(lines.length === 3, `Expected header, expense and payment rows, got ${lines.length}`);
+        assert(lines[1].includes('Fuel') && lines[1].includes('30.01'), 'Expense row should list the expense');
+    });
+}
+
+async function testTripCost() {
+    console.log('\n\n💰 TRIP COST TESTS\n');
+
+    const priced = {};
+
+    await test('[PRICE-001] Cost fields are validated together', async () => {
+        const base = {
+            title: 'Lighthouse Ride',
+            description: 'Along the coast',
+            type: 'bike',
+            city: 'Odesa',
+            location: { lat: 46.4825, lng: 30.7233 },
+            date: '2028-01-08',
+            maxParticipants: 6
+        };
+        const missing = await makeRequest('POST', '/api/trips', { ...base, costType: 'split' },
+            { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(missing.status === 400, `Expected 400 without an amount, got ${missing.status}`);
+
+        const freeWithPrice = await makeRequest('POST', '/api/trips', { ...base, costType: 'free', costPerPerson: 500, costCurrency: 'EUR' },
+            { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(freeWithPrice.status === 400, `Expected 400 for a free trip with a price, got ${freeWithPrice.status}`);
+
+        const unknown = await makeRequest('POST', '/api/trips', { ...base, costType: 'fixed', costPerPerson: 500, costCurrency: 'XYZ' },
+            { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(unknown.status === 400, `Expected 400 for an unsupported currency, got ${unknown.status}`);
+    });
+
+    await test('[PRICE-002] price_max compares across currencies', async () => {
+        const costs = {
+            free: { costType: 'free' },
+            split: { costType: 'split', costPerPerson: 1000, costCurrency: 'eur' },
+            fixed: { costType: 'fixed', costPerPerson: 200000, costCurrency: 'UAH' }
+        };
+        for (const [key, cost] of Object.entries(costs)) {
+            const res = await makeRequest('POST', '/api/trips', {
+                title: `Lighthouse ${key}`,
+                description: 'Lighthousepricing outing',
+                type: 'bike',
+                city: 'Odesa',
+                location: { lat: 46.4825, lng: 30.7233 },
+                date: '2028-01-08',
+                maxParticipants: 6,
+                ...cost
+            }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+            assert(res.status === 201, `Expected 201, got ${res.status}`);
+            priced[key] = res.data.id;
+            testResources.trips.push(res.data.id);
+        }
+
+        const cheap = await makeRequest('GET', '/api/trips?q=lighthousepricing&price_max=15&currency=EUR');
+        assert(cheap.status === 200, `Expected 200, got ${cheap.status}`);
+        const cheapIds = cheap.data.items.map(trip => trip.id);
+        assert(cheapIds.includes(priced.free) && cheapIds.includes(priced.split), 'Free and 10 EUR trips should match');
+        assert(!cheapIds.includes(priced.fixed), '2000 UAH is more than 15 EUR');
+
+        const split = cheap.data.items.find(trip => trip.id === priced.split);
+        assert(split.costCurrency === 'EUR' && split.costPerPerson === 1000, 'Cost should be returned with the trip');
+
+        const inUah = await makeRequest('GET', '/api/trips?q=lighthousepricing&price_max=2500&currency=UAH');
+        const uahIds = inUah.data.items.map(trip => trip.id);
+        assert(uahIds.includes(priced.fixed) && uahIds.includes(priced.split), 'Both priced trips cost under 2500 UAH');
+    });
+
+    await test('[PRICE-003] free_only lists free trips', async () => {
+        const res = await makeRequest('GET', '/api/trips?q=lighthousepricing&free_only=true');
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        const ids = res.data.items.map(trip => trip.id);
+        assert(ids.length === 1 && ids[0] === priced.free, `Expected only the free trip, got ${ids.length}`);
+    });
+}
+
+async function testChecklists() {
+    console.log('\n\n🎒 CHECKLIST TESTS\n');
+
+    let tripId = '';
+    const items = {};
+
+    await test('[CHECKLIST-001] Organizers define the packing list', async () => {
+        const created = await makeRequest('POST', '/api/trips', {
+            title: 'Lake Camping',
+            description: 'Two nights by the lake',
+            type: 'car',
+            city: 'Kyiv',
+            location: { lat: 50.4501, lng: 30.5234 },
+            date: '2028-01-15',
+            maxParticipants: 10
+        }, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(created.status === 201, `Expected 201, got ${created.status}`);
+        tripId = created.data.id;
+        testResources.trips.push(tripId);
+
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user2.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const outsider = await makeRequest('GET', `/api/trips/${tripId}/checklist`, null, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(outsider.status === 403, `Expected 403 for a non-member, got ${outsider.status}`);
+
+        await makeRequest('POST', `/api/trips2/${tripId}/join`, null, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        await makeRequest('POST', `/api/trips/${tripId}/accept/${testUsers.user3.id}`, null, { 'Authorization': `Bearer ${testUsers.user1.token}` });
+
+        const tent = await makeRequest('POST', `/api/trips/${tripId}/checklist`, { title: 'Tent', kind: 'group' },
+            { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(tent.status === 201, `Expected 201, got ${tent.status}`);
+        items.tent = tent.data.id;
+
+        const bag = await makeRequest('POST', `/api/trips/${tripId}/checklist`, { title: 'Sleeping bag' },
+            { 'Authorization': `Bearer ${testUsers.user1.token}` });
+        assert(bag.data.kind === 'personal', `Items should be personal by default, got ${bag.data.kind}`);
+        items.bag = bag.data.id;
+
+        const participant = await makeRequest('POST', `/api/trips/${tripId}/checklist`, { title: 'Kayak' },
+            { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(participant.status === 403, `Expected 403 for a participant, got ${participant.status}`);
+
+        const list = await makeRequest('GET', `/api/trips/${tripId}/checklist`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(list.status === 200, `Expected 200, got ${list.status}`);
+        assert(list.data.map(item => item.title).join(',') === 'Tent,Sleeping bag', 'Items should keep their order');
+    });
+
+    await test('[CHECKLIST-002] One member claims a group item', async () => {
+        const claim = await makeRequest('POST', `/api/trips/${tripId}/checklist/${items.tent}/claim`, null,
+            { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(claim.status === 200, `Expected 200, got ${claim.status}`);
+
+        const taken = await makeRequest('POST', `/api/trips/${tripId}/checklist/${items.tent}/claim`, null,
+            { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(taken.status === 409, `Expected 409 for a claimed item, got ${taken.status}`);
+
+        const personal = await makeRequest('POST', `/api/trips/${tripId}/checklist/${items.bag}/claim`, null,
+            { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(personal.status === 400, `Expected 400 for a personal item, got ${personal.status}`);
+
+        const list = await makeRequest('GET', `/api/trips/${tripId}/checklist`, null, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        const tent = list.data.find(item => item.id === items.tent);
+        assert(tent.claimedByUser && tent.claimedByUser.id === testUsers.user2.id, 'Tent should be claimed by Bob');
+    });
+
+    await test('[CHECKLIST-003] Members tick only their own list', async () => {
+        const tick = await makeRequest('PUT', `/api/trips/${tripId}/checklist/${items.bag}/tick`, { ticked: true },
+            { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        assert(tick.status === 200, `Expected 200, got ${tick.status}`);
+
+        const notMine = await makeRequest('PUT', `/api/trips/${tripId}/checklist/${items.tent}/tick`, { ticked: true },
+            { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        assert(notMine.status === 400, `Expected 400 for someone else's group item, got ${notMine.status}`);
+
+        const bob = await makeRequest('GET', `/api/trips/${tripId}/checklist`, null, { 'Authorization': `Bearer ${testUsers.user2.token}` });
+        const carol = await makeRequest('GET', `/api/trips/${tripId}/checklist`, null, { 'Authorization': `Bearer ${testUsers.user3.token}` });
+        const bobBag = bob.data.find(item => item.id === items.bag);
+        const carolBag = carol.data.find(item => item.id === items.bag);
+        assert(bobBag.ticked === true && carolBag.ticked === false, 'Ticks should be personal');
+        assert(carolBag.tickCount === 1, `Expected one member packed, got ${carolBag.tickCount}`);
+    });
+
+    await test('[CHECKLIST-004] Checklist templates are listed per trip type', async () => {
+        const res = await makeRequest('GET', '/api/trip-types/car/checklist-templates');
+        assert(res.status === 200, `Expected 200, got ${res.status}`);
+        assert(Array.isArray(res.data), 'Expected a list of templates');
+    });
+}
+
 /**
  * MAIN TEST RUNNER
  */
@@ -1124,6 +3166,31 @@ async function runAllTests() {
         await testFavorites(tripIds);
         await testMyTrips();
         await testMessaging(tripIds);
+        await testTripEditing(tripIds);
+        await testTripLifecycle();
+        await testWaitlist();
+        await testJoinPolicy();
+        await testEligibility();
+        await testInvites();
+        await testGeoSearch();
+        await testSearch();
+        await testPagination();
+        await testComments();
+        await testRouteFiles();
+        await testRouteMetrics();
+        await testWaypoints();
+        await testMultiDay();
+        await testRecurringTrips();
+        await testCalendar();
+        await testCloning();
+        await testCoOrganizers();
+        await testParticipantRemoval();
+        await testJoinQuestions();
+        await testReviews();
+        await testAttendance();
+        await testExpenses();
+        await testTripCost();
+        await testChecklists();
 
         // Print summary
         console.log('\n\n═══════════════════════════════════════════════════════════');